@@ -0,0 +1,53 @@
+import { normalizePath } from "obsidian";
+import type { IndexedTask } from "./types";
+import { formatDateYmd } from "./dateParser";
+
+export type ArchiveOptions = {
+  folder: string; // e.g. "Archive"
+  afterDays: number; // archive tasks completed more than this many days ago
+  byProject: boolean; // one archive note per +project instead of per month
+};
+
+/**
+ * Whether a path lies inside the archive folder.
+ */
+export function isInArchive(path: string, folder: string): boolean {
+  const root = normalizePath(folder);
+  return path === root || path.startsWith(`${root}/`);
+}
+
+/**
+ * Archive note for a completed task: `Archive/<project>.md` when archiving
+ * by project, else `Archive/YYYY-MM.md` for the month it was completed.
+ */
+export function archivePathFor(task: IndexedTask, options: ArchiveOptions): string {
+  const name =
+    options.byProject && task.project
+      ? task.project.replace(/[\\/:*?"<>|#^[\]]/g, "-")
+      : (task.completedDate ?? "").slice(0, 7);
+  return normalizePath(`${options.folder}/${name}.md`);
+}
+
+/**
+ * Completed tasks ready to archive: done (per their completion date) more
+ * than `afterDays` days before today, and not already in the archive. Tasks
+ * checked without a recorded completion date are left alone.
+ */
+export function selectTasksToArchive(
+  tasks: IndexedTask[],
+  options: ArchiveOptions,
+  today: string // YYYY-MM-DD
+): IndexedTask[] {
+  const cutoff = new Date(`${today}T00:00:00`);
+  cutoff.setDate(cutoff.getDate() - options.afterDays);
+  const cutoffYmd = formatDateYmd(cutoff);
+
+  return tasks.filter(
+    (t) =>
+      t.checked &&
+      t.stableId &&
+      t.completedDate !== null &&
+      t.completedDate < cutoffYmd &&
+      !isInArchive(t.filePath, options.folder)
+  );
+}
@@ -13,20 +13,31 @@ export type CachedFile = {
       | "title"
       | "dueRaw"
       | "dueYmd"
+      | "dueTime"
+      | "startYmd"
+      | "scheduledYmd"
       | "completedDate"
       | "priority"
       | "tags"
       | "contexts"
       | "project"
       | "recurrence"
+      | "seriesId"
       | "estimate"
       | "status"
       | "waitingOn"
       | "blockedBy"
+      | "dependsOn"
+      | "blockId"
+      | "reminders"
       | "lineNoHint"
       | "rawLine"
+      | "headingPath"
       | "filePath"
       | "indentLevel"
+      | "parentId"
+      | "parentLabel"
+      | "childIds"
     >
   >;
   errors: ParseError[];
@@ -38,4 +49,4 @@ export type TaskmanCache = {
 };
 
 // Increment when cache format changes
-export const CACHE_VERSION = 3;
+export const CACHE_VERSION = 12;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { findConversions } from "./converter";
+import { formatDateYmd } from "./dateParser";
+
+function daysFromToday(n: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + n);
+  return formatDateYmd(d).replace(/-/g, "");
+}
+
+const converted = (lines: string[]) => findConversions(lines).map((c) => [c.line, c.after]);
+
+describe("findConversions", () => {
+  it.each([
+    ["todo Buy milk", "- [ ] Buy milk"],
+    ["TODO Shout", "- [ ] Shout"],
+    ["  todo Nested under a list item", "  - [ ] Nested under a list item"],
+    ["todo Pay rent 20261105", "- [ ] Pay rent 20261105"],
+    ["todo Call mom tomorrow", `- [ ] Call mom ${daysFromToday(1)}`],
+    ["todo Draft slides starts tomorrow", `- [ ] Draft slides start:${daysFromToday(1)}`],
+  ])("converts %j", (line, expected) => {
+    expect(findConversions([line])).toEqual([{ line: 0, before: line, after: expected }]);
+  });
+
+  it.each(["todo", "todos are fun", "- [ ] todo keep the keyword", "- [x] TODO as written", "Buy milk"])(
+    "leaves %j alone",
+    (line) => {
+      expect(findConversions([line])).toEqual([]);
+    }
+  );
+
+  it.each([
+    ["fenced code", ["```", "todo sample", "```", "todo real"], [[3, "- [ ] real"]]],
+    ["tilde fences", ["~~~js", "todo sample", "```", "todo still code", "~~~", "todo real"], [[5, "- [ ] real"]]],
+    ["frontmatter", ["---", "todo: sample", "todo sample", "---", "todo real"], [[4, "- [ ] real"]]],
+    ["indented code", ["Example:", "", "    todo sample", "", "    todo more", "todo real"], [[5, "- [ ] real"]]],
+    ["tab-indented code", ["", "\ttodo sample", "todo real"], [[2, "- [ ] real"]]],
+    ["deeply nested list items", ["- [ ] a", "  - [ ] b", "", "    todo c"], [[3, "    - [ ] c"]]],
+  ])("handles %s", (_name, lines, expected) => {
+    expect(converted(lines)).toEqual(expected);
+  });
+});
@@ -0,0 +1,69 @@
+import { frontmatterAndCodeLines, parseScheduleDates } from "./parser";
+import { parseNaturalDate, formatDateCompact, formatDueCompact } from "./dateParser";
+
+/** A "todo …" line and the checkbox task it becomes */
+export type Conversion = {
+  line: number; // 0-based
+  before: string;
+  after: string;
+};
+
+/** Undo log label for conversions, so undoing one can be told apart */
+export const CONVERT_LABEL = "Convert todo lines";
+
+/**
+ * The lines of a note that would be converted to checkbox tasks. Lines in
+ * frontmatter and fenced or indented code are left alone, so code samples
+ * that start with `todo` stay as written.
+ */
+export function findConversions(lines: string[]): Conversion[] {
+  const result: Conversion[] = [];
+  const skipped = frontmatterAndCodeLines(lines);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (skipped.has(i)) continue;
+
+    const after = normalizeToCheckboxFormat(line);
+    if (after !== line) result.push({ line: i, before: line, after });
+  }
+
+  return result;
+}
+
+/**
+ * Convert simple format "todo X tomorrow" to "- [ ] X 20260105"
+ * Removes the "todo" keyword and converts natural language dates to YYYYMMDD.
+ * Checkbox lines are left as written, even when their text starts with "todo".
+ */
+function normalizeToCheckboxFormat(line: string): string {
+  const trimmed = line.trim();
+
+  // Simple format - starts with "todo"
+  if (/^todo\s+\S/i.test(trimmed)) {
+    // Preserve leading whitespace
+    const leadingWhitespace = line.match(/^(\s*)/)?.[1] ?? "";
+    // Remove "todo" keyword
+    const withoutTodo = trimmed.replace(/^todo\s+/i, "");
+
+    // Start/scheduled phrases first, so "starts next monday" isn't read as the due date
+    const { startDate, scheduledDate, remainingText: afterSchedule } =
+      parseScheduleDates(withoutTodo);
+
+    // Try to parse and convert natural language date to YYYYMMDD
+    const { date, time, remainingText } = parseNaturalDate(afterSchedule);
+
+    if (!date && !startDate && !scheduledDate) {
+      // No date found, just convert to checkbox
+      return `${leadingWhitespace}- [ ] ${withoutTodo}`;
+    }
+
+    let converted = `${leadingWhitespace}- [ ] ${remainingText}`;
+    if (date) converted += ` ${formatDueCompact(date, time)}`;
+    if (startDate) converted += ` start:${formatDateCompact(startDate)}`;
+    if (scheduledDate) converted += ` scheduled:${formatDateCompact(scheduledDate)}`;
+    return converted;
+  }
+
+  return line;
+}
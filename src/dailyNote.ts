@@ -0,0 +1,56 @@
+import { normalizePath, TFile } from "obsidian";
+import type { App } from "obsidian";
+
+type DailyNoteOptions = {
+  folder?: string;
+  format?: string;
+};
+
+// The part of Obsidian's core plugin registry read here; it isn't in the public API
+type InternalPlugins = {
+  getPluginById?: (id: string) => { enabled: boolean; instance?: { options?: DailyNoteOptions } } | null;
+};
+
+/**
+ * Settings of the core Daily notes plugin, or its defaults when it is off.
+ */
+function getDailyNoteOptions(app: App): DailyNoteOptions {
+  const internal = (app as App & { internalPlugins?: InternalPlugins }).internalPlugins;
+  const plugin = internal?.getPluginById?.("daily-notes");
+  return plugin?.enabled ? plugin.instance?.options ?? {} : {};
+}
+
+/**
+ * Today's daily note, created (without a template) if it doesn't exist yet.
+ */
+export async function getOrCreateDailyNote(app: App): Promise<TFile> {
+  const options = getDailyNoteOptions(app);
+  const name = window.moment().format(options.format || "YYYY-MM-DD");
+  const folder = (options.folder ?? "").replace(/^\/+|\/+$/g, "");
+  const path = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) return existing;
+
+  // The date format may contain folders of its own (YYYY/MM/YYYY-MM-DD)
+  const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+  if (parent && !app.vault.getAbstractFileByPath(parent)) {
+    await app.vault.createFolder(parent);
+  }
+  return app.vault.create(path, "");
+}
+
+/**
+ * Append a section (heading plus lines) to today's daily note.
+ */
+export async function appendToDailyNote(
+  app: App,
+  heading: string,
+  lines: string[]
+): Promise<void> {
+  const file = await getOrCreateDailyNote(app);
+  const content = await app.vault.read(file);
+  const section = [`## ${heading}`, "", ...lines].join("\n");
+  const separator = content.trim() ? "\n\n" : "";
+  await app.vault.modify(file, content.trimEnd() + separator + section + "\n");
+}
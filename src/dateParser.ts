@@ -1,11 +1,14 @@
 /**
  * Natural language date parser for TaskMan.
  * Parses dates like "tomorrow", "next friday", "in 3 days", "dec 15", etc.
+ * A time of day may follow: "tomorrow 3pm", "friday at 9:30", "20260115T1430".
  */
 
 export type ParsedDate = {
   date: Date;
-  matchedText: string;
+  time: string | null; // HH:MM (24h) if a time of day was given
+  matchedText: string; // includes surrounding whitespace consumed by the match
+  index: number; // offset of matchedText in the (trimmed) input
 };
 
 const DAY_NAMES = [
@@ -54,13 +57,36 @@ const MONTH_ABBREVS = [
  */
 export function parseNaturalDate(text: string): {
   date: Date | null;
+  time: string | null;
   remainingText: string;
 } {
   const trimmed = text.trim();
+  const found = findNaturalDate(trimmed);
 
-  // Try YYYYMMDD format first (existing format) - anywhere in text
-  const yyyymmddMatch = trimmed.match(/(?:^|\s)(\d{8})(?:\s|$)/);
-  if (yyyymmddMatch) {
+  if (!found) {
+    return { date: null, time: null, remainingText: trimmed };
+  }
+
+  const remaining = (
+    trimmed.slice(0, found.index) +
+    " " +
+    trimmed.slice(found.index + found.matchedText.length)
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+  return { date: found.date, time: found.time, remainingText: remaining };
+}
+
+/**
+ * Locate the first date phrase in the text without removing it.
+ * With atStart, only a phrase at the very beginning of the text counts.
+ */
+export function findNaturalDate(text: string, atStart = false): ParsedDate | null {
+  const trimmed = text.trim();
+
+  // Try YYYYMMDD[THHMM] format first (existing format) - anywhere in text
+  const yyyymmddMatch = trimmed.match(/(?:^|\s)(\d{8})(?:T(\d{4}))?(?:\s|$)/);
+  if (yyyymmddMatch && (!atStart || yyyymmddMatch.index === 0)) {
     const dateStr = yyyymmddMatch[1];
     const y = parseInt(dateStr.slice(0, 4));
     const m = parseInt(dateStr.slice(4, 6)) - 1;
@@ -71,8 +97,11 @@ export function parseNaturalDate(text: string): {
       date.getMonth() === m &&
       date.getDate() === d
     ) {
-      const remaining = trimmed.replace(yyyymmddMatch[0], " ").replace(/\s+/g, " ").trim();
-      return { date, remainingText: remaining };
+      const hhmm = yyyymmddMatch[2];
+      const time = hhmm ? toTimeString(parseInt(hhmm.slice(0, 2)), parseInt(hhmm.slice(2))) : null;
+      if (!hhmm || time) {
+        return { date, time, matchedText: yyyymmddMatch[0], index: yyyymmddMatch.index! };
+      }
     }
   }
 
@@ -182,18 +211,59 @@ export function parseNaturalDate(text: string): {
 
   for (const { regex, parse } of patterns) {
     const match = trimmed.match(regex);
-    if (match) {
+    if (match && (!atStart || match.index === 0)) {
       const date = parse(match);
       if (date) {
-        // Remove the matched date phrase from text
-        const remaining = trimmed.replace(match[0], " ").replace(/\s+/g, " ").trim();
-        return { date, remainingText: remaining };
+        return withTrailingTime(trimmed, {
+          date,
+          time: null,
+          matchedText: match[0],
+          index: match.index!,
+        });
       }
     }
   }
 
   // No date found
-  return { date: null, remainingText: trimmed };
+  return null;
+}
+
+/**
+ * Extend a date match with a time of day that directly follows it:
+ * "3pm", "9:30", "at 9", "at 14:00". A bare number needs "at" or am/pm.
+ */
+function withTrailingTime(text: string, found: ParsedDate): ParsedDate {
+  const end = found.index + found.matchedText.length;
+  const rest = text.slice(end);
+  const m = rest.match(/^(at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?:\s|$)/i);
+  if (!m || (!m[1] && !m[3] && !m[4])) return found;
+
+  let hours = parseInt(m[2]);
+  const minutes = m[3] ? parseInt(m[3]) : 0;
+  const meridiem = m[4]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return found;
+    if (meridiem === "pm" && hours !== 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+  }
+
+  const time = toTimeString(hours, minutes);
+  if (!time) return found;
+
+  return { ...found, time, matchedText: found.matchedText + m[0] };
+}
+
+function toTimeString(hours: number, minutes: number): string | null {
+  if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) return null;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Format a due date (and optional HH:MM time) as YYYYMMDD or YYYYMMDDTHHMM.
+ */
+export function formatDueCompact(date: Date, time: string | null): string {
+  const compact = formatDateCompact(date);
+  return time ? `${compact}T${time.replace(":", "")}` : compact;
 }
 
 /**
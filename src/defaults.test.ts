@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { applyDefaults, inheritedRemoval, parseFolderDefaults, resolveDefaults } from "./defaults";
+import { parseTodoLine } from "./parser";
+import type { IndexedTask, KanbanMove } from "./types";
+
+function task(line: string, extra: Partial<IndexedTask> = {}): IndexedTask {
+  const parsed = parseTodoLine(line);
+  if (!parsed) throw new Error(`not a task: ${line}`);
+  return {
+    ...parsed,
+    ephemeralId: "Projects/Website/Plan.md:0:1",
+    filePath: "Projects/Website/Plan.md",
+    completedDate: null,
+    inherited: null,
+    seriesId: null,
+    prerequisiteIds: [],
+    blocked: false,
+    lineNoHint: 0,
+    rawLine: line,
+    headingPath: [],
+    indentLevel: 0,
+    parentId: null,
+    parentLabel: null,
+    childIds: [],
+    ...extra,
+  };
+}
+
+const folders = parseFolderDefaults(
+  ["/: @anywhere", "Projects: +general #work !", "Projects/Website/: +website #client", "Areas: #home"].join("\n")
+);
+
+describe("resolveDefaults", () => {
+  it.each([
+    // [note, frontmatter, expected defaults]
+    [
+      "Projects/Website/Plan.md",
+      undefined,
+      { project: "website", tags: ["work", "client"], contexts: ["anywhere"], priority: 1 },
+    ],
+    [
+      "Projects/Plan.md",
+      undefined,
+      { project: "general", tags: ["work"], contexts: ["anywhere"], priority: 1 },
+    ],
+    ["ProjectsOld/Plan.md", undefined, { project: null, tags: [], contexts: ["anywhere"], priority: null }],
+    [
+      "Projects/Website/Plan.md",
+      { "taskman-project": "+redesign", "taskman-tags": ["#urgent", "work"], "taskman-priority": "high" },
+      { project: "redesign", tags: ["work", "client", "urgent"], contexts: ["anywhere"], priority: 3 },
+    ],
+    [
+      "Areas/Home.md",
+      { "taskman-context": "home, @errands", "taskman-priority": "none" },
+      { project: null, tags: ["home"], contexts: ["anywhere", "home", "errands"], priority: 0 },
+    ],
+  ])("%s with %j", (path, frontmatter, expected) => {
+    expect(resolveDefaults(path, folders, frontmatter)).toEqual(expected);
+  });
+
+  it("lets a deeper folder win whatever order the settings list them in", () => {
+    expect(resolveDefaults("Projects/Website/Plan.md", [...folders].reverse(), undefined).project).toBe("website");
+  });
+});
+
+describe("applyDefaults", () => {
+  const defaults = resolveDefaults("Projects/Website/Plan.md", folders, undefined);
+
+  it("marks what the task inherits", () => {
+    const result = applyDefaults(task("- [ ] Draft copy #copy"), defaults);
+    expect(result).toMatchObject({
+      project: "website",
+      priority: 1,
+      tags: ["copy", "work", "client"],
+      contexts: ["anywhere"],
+      inherited: { project: true, priority: true, tags: ["work", "client"], contexts: ["anywhere"] },
+    });
+  });
+
+  it("keeps what the task says itself", () => {
+    const result = applyDefaults(task("- [ ] Draft copy +blog !!! #work @desk"), defaults);
+    expect(result).toMatchObject({
+      project: "blog",
+      priority: 3,
+      tags: ["work", "client"],
+      contexts: ["desk", "anywhere"],
+      inherited: { project: false, priority: false, tags: ["client"], contexts: ["anywhere"] },
+    });
+  });
+
+  it("leaves a task that already has everything alone", () => {
+    const t = task("- [ ] Draft copy +blog ! #work #client @anywhere");
+    expect(applyDefaults(t, defaults)).toBe(t);
+  });
+});
+
+describe("inheritedRemoval", () => {
+  const defaults = resolveDefaults("Projects/Website/Plan.md", folders, undefined);
+  const inherited = applyDefaults(task("- [ ] Draft copy #copy @desk"), defaults);
+  const own = applyDefaults(task("- [ ] Draft copy +website #work @anywhere"), defaults);
+
+  it.each<[string, KanbanMove, string | null, string | null]>([
+    // [move, refused for the inheriting task, refused for the one that says it itself]
+    ["removing a tag", { kind: "tag", add: "", remove: ["work"] }, "#work", null],
+    ["moving to another tag", { kind: "tag", add: "done", remove: ["copy", "client"] }, "#client", "#client"],
+    ["removing a context", { kind: "context", add: "", remove: ["anywhere"] }, "@anywhere", null],
+    ["removing a context of its own", { kind: "context", add: "", remove: ["desk"] }, null, null],
+    ["clearing the project", { kind: "project", project: null }, "+website", null],
+    ["changing the project", { kind: "project", project: "blog" }, null, null],
+    ["changing the priority", { kind: "priority", priority: 3 }, null, null],
+  ])("%s", (_name, move, forInherited, forOwn) => {
+    expect(inheritedRemoval(inherited, move)).toBe(forInherited);
+    expect(inheritedRemoval(own, move)).toBe(forOwn);
+  });
+});
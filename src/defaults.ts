@@ -0,0 +1,172 @@
+import type { FolderDefaults, IndexedTask, KanbanMove, Priority, TaskDefaults } from "./types";
+
+const PRIORITY_NAMES: Record<string, Priority> = { none: 0, low: 1, medium: 2, high: 3 };
+
+/**
+ * Defaults a note sets in its frontmatter:
+ *
+ *   taskman-project: website
+ *   taskman-tags: [work, client]
+ *   taskman-context: office
+ *   taskman-priority: high
+ */
+export function frontmatterDefaults(frontmatter: Record<string, unknown> | undefined): TaskDefaults {
+  if (!frontmatter) return emptyDefaults();
+  return {
+    project: listValue(frontmatter["taskman-project"], "+")[0] ?? null,
+    tags: listValue(frontmatter["taskman-tags"], "#"),
+    contexts: listValue(frontmatter["taskman-context"] ?? frontmatter["taskman-contexts"], "@"),
+    priority: priorityValue(frontmatter["taskman-priority"]),
+  };
+}
+
+/**
+ * Defaults for tasks in a note: those of each folder it's in, from the
+ * vault root down, then the note's own frontmatter. A deeper setting of
+ * project or priority wins; tags and contexts add up.
+ */
+export function resolveDefaults(
+  path: string,
+  folders: FolderDefaults[],
+  frontmatter: Record<string, unknown> | undefined
+): TaskDefaults {
+  const layers = folders
+    .filter((f) => isInFolder(path, f.folder))
+    .sort((a, b) => folderDepth(a.folder) - folderDepth(b.folder));
+
+  const result = emptyDefaults();
+  for (const layer of [...layers, frontmatterDefaults(frontmatter)]) {
+    if (layer.project !== null) result.project = layer.project;
+    if (layer.priority !== null) result.priority = layer.priority;
+    result.tags.push(...layer.tags.filter((t) => !result.tags.includes(t)));
+    result.contexts.push(...layer.contexts.filter((c) => !result.contexts.includes(c)));
+  }
+  return result;
+}
+
+/**
+ * Fill in what a task doesn't say itself. A project or priority written on
+ * the task line wins; inherited tags and contexts are added to its own.
+ */
+export function applyDefaults(task: IndexedTask, defaults: TaskDefaults): IndexedTask {
+  const tags = defaults.tags.filter((t) => !task.tags.includes(t));
+  const contexts = defaults.contexts.filter((c) => !task.contexts.includes(c));
+  const project = task.project === null && defaults.project !== null;
+  const priority = task.priority === 0 && !!defaults.priority;
+
+  if (tags.length === 0 && contexts.length === 0 && !project && !priority) return task;
+  return {
+    ...task,
+    tags: [...task.tags, ...tags],
+    contexts: [...task.contexts, ...contexts],
+    project: project ? defaults.project : task.project,
+    priority: priority && defaults.priority !== null ? defaults.priority : task.priority,
+    inherited: { project, priority, tags, contexts },
+  };
+}
+
+/**
+ * The inherited value (e.g. `#work`) a move would have to take off a task.
+ * It comes from the note's or folder's defaults, not the task's line, so
+ * the move can't be done by editing the line.
+ */
+export function inheritedRemoval(task: IndexedTask, move: KanbanMove): string | null {
+  switch (move.kind) {
+    case "tag": {
+      const tag = move.remove.find((v) => task.inherited?.tags.includes(v));
+      return tag ? `#${tag}` : null;
+    }
+    case "context": {
+      const ctx = move.remove.find((v) => task.inherited?.contexts.includes(v));
+      return ctx ? `@${ctx}` : null;
+    }
+    case "project":
+      return move.project === null && task.inherited?.project ? `+${task.project}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse folder defaults written one per line, e.g.
+ * `Projects/Website: +website #work @office !!`.
+ */
+export function parseFolderDefaults(text: string): FolderDefaults[] {
+  const result: FolderDefaults[] = [];
+  for (const raw of text.split("\n")) {
+    const idx = raw.lastIndexOf(":");
+    if (idx === -1) continue;
+    const folder = raw.slice(0, idx).trim();
+    if (!folder) continue;
+    result.push({ folder, ...parseDefaultTokens(raw.slice(idx + 1)) });
+  }
+  return result;
+}
+
+export function formatFolderDefaults(folders: FolderDefaults[]): string {
+  return folders
+    .map((f) => {
+      const tokens = [
+        f.project ? `+${f.project}` : "",
+        ...f.tags.map((t) => `#${t}`),
+        ...f.contexts.map((c) => `@${c}`),
+        f.priority ? "!".repeat(f.priority) : "",
+      ];
+      return `${f.folder}: ${tokens.filter(Boolean).join(" ")}`;
+    })
+    .join("\n");
+}
+
+function parseDefaultTokens(text: string): TaskDefaults {
+  const result = emptyDefaults();
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    if (token.startsWith("+")) result.project = token.slice(1);
+    else if (token.startsWith("#")) result.tags.push(token.slice(1));
+    else if (token.startsWith("@")) result.contexts.push(token.slice(1));
+    else if (/^!{1,3}$/.test(token)) result.priority = token.length as Priority;
+  }
+  return result;
+}
+
+function emptyDefaults(): TaskDefaults {
+  return { project: null, tags: [], contexts: [], priority: null };
+}
+
+/**
+ * A frontmatter value as a list: YAML lists, or text split on spaces and
+ * commas, with the given prefix (`#`, `@`, `+`) dropped.
+ */
+function listValue(value: unknown, prefix: string): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,]+/) : [];
+  return items
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => (v.startsWith(prefix) ? v.slice(prefix.length) : v).trim())
+    .filter(Boolean);
+}
+
+function priorityValue(value: unknown): Priority | null {
+  if (typeof value === "number" && value >= 0 && value <= 3) return Math.floor(value) as Priority;
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+  if (/^!{1,3}$/.test(text)) return text.length as Priority;
+  if (/^[0-3]$/.test(text)) return Number(text) as Priority;
+  return PRIORITY_NAMES[text] ?? null;
+}
+
+function isInFolder(path: string, folder: string): boolean {
+  const root = folderPath(folder);
+  return root === "" || path.startsWith(`${root}/`);
+}
+
+function folderDepth(folder: string): number {
+  const root = folderPath(folder);
+  return root === "" ? 0 : root.split("/").length;
+}
+
+/**
+ * A folder as written in settings, as a vault path without leading or
+ * trailing slashes. The vault root ("/") is "".
+ */
+function folderPath(folder: string): string {
+  return folder.trim().replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "");
+}
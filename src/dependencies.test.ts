@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { effectiveStatus, resolveDependencies } from "./dependencies";
+import { parseTodoLine } from "./parser";
+import type { IndexedTask } from "./types";
+
+let lineNo = 0;
+
+function task(line: string, extra: Partial<IndexedTask> = {}): IndexedTask {
+  const parsed = parseTodoLine(line);
+  if (!parsed) throw new Error(`not a task: ${line}`);
+  const n = lineNo++;
+  return {
+    ...parsed,
+    ephemeralId: `Notes/Test.md:${n}:1`,
+    filePath: "Notes/Test.md",
+    completedDate: null,
+    inherited: null,
+    seriesId: null,
+    prerequisiteIds: [],
+    blocked: false,
+    lineNoHint: n,
+    rawLine: line,
+    headingPath: [],
+    indentLevel: 0,
+    parentId: null,
+    parentLabel: null,
+    childIds: [],
+    ...extra,
+  };
+}
+
+const links: Record<string, string> = { Other: "Notes/Other.md" };
+const resolveLink = (linkpath: string) => links[linkpath] ?? null;
+
+describe("resolveDependencies", () => {
+  it.each([
+    // [first prerequisite done, second prerequisite done, blocked]
+    [false, false, true],
+    [true, false, true],
+    [false, true, true],
+    [true, true, false],
+  ])("with prerequisites done: %s, %s, is blocked: %s", (aDone, bDone, blocked) => {
+    const a = task(`- [${aDone ? "x" : " "}] Write spec`, { stableId: "aaa" });
+    const b = task(`- [${bDone ? "x" : " "}] Review spec`, { stableId: "bbb" });
+    const deploy = task("- [ ] Deploy !blocked:aaa,bbb");
+
+    expect(resolveDependencies([a, b, deploy], resolveLink)).toEqual([]);
+    expect(deploy.prerequisiteIds).toEqual(["aaa", "bbb"]);
+    expect(deploy.blocked).toBe(blocked);
+    expect(effectiveStatus(deploy)).toBe(blocked ? "blocked" : "active");
+  });
+
+  it.each([
+    ["another note", "- [ ] Build !blocked:[[Other#^spec]]", "Notes/Other.md"],
+    ["another note, with an alias", "- [ ] Build !blocked:[[Other#^spec|the spec]]", "Notes/Other.md"],
+    ["the same note", "- [ ] Build !blocked:[[#^spec]]", "Notes/Test.md"],
+  ])("follows a block link to %s", (_name, line, specPath) => {
+    const spec = task("- [ ] Draft spec ^spec", { filePath: specPath });
+    const build = task(line);
+
+    resolveDependencies([spec, build], resolveLink);
+    expect(build.prerequisiteIds).toEqual([spec.ephemeralId]);
+    expect(build.blocked).toBe(true);
+
+    spec.checked = true;
+    resolveDependencies([spec, build], resolveLink);
+    expect(build.blocked).toBe(false);
+  });
+
+  it.each([
+    ["an unknown ID", "- [ ] Deploy !blocked:nope"],
+    ["a link to a missing note", "- [ ] Deploy !blocked:[[Missing#^spec]]"],
+    ["a link to a missing block", "- [ ] Deploy !blocked:[[Other#^gone]]"],
+    ["free text", "- [ ] Deploy !blocked:legal"],
+    ["the task itself", "- [ ] Deploy !blocked:ddd"],
+    ["nothing", "- [ ] Deploy !blocked"],
+  ])("stays blocked on %s until edited", (_name, line) => {
+    const spec = task("- [x] Draft spec ^spec", { filePath: "Notes/Other.md" });
+    const deploy = task(line, { stableId: "ddd" });
+
+    resolveDependencies([spec, deploy], resolveLink);
+    expect(deploy.prerequisiteIds).toEqual([]);
+    expect(deploy.blocked).toBe(true);
+  });
+
+  it("stays blocked on an unresolved reference next to a done prerequisite", () => {
+    const spec = task("- [x] Write spec", { stableId: "aaa" });
+    const deploy = task("- [ ] Deploy !blocked:aaa,nope");
+
+    resolveDependencies([spec, deploy], resolveLink);
+    expect(deploy.prerequisiteIds).toEqual(["aaa"]);
+    expect(deploy.blocked).toBe(true);
+  });
+
+  it("never blocks a completed task", () => {
+    const spec = task("- [ ] Write spec", { stableId: "aaa" });
+    const deploy = task("- [x] Deploy !blocked:aaa");
+
+    resolveDependencies([spec, deploy], resolveLink);
+    expect(deploy.blocked).toBe(false);
+  });
+});
+
+describe("dependency cycles", () => {
+  const cycles = (tasks: IndexedTask[]) => resolveDependencies(tasks, resolveLink).map((e) => e.reason);
+
+  it("reports a cycle of three tasks once", () => {
+    const a = task("- [ ] A !blocked:bbb", { stableId: "aaa" });
+    const b = task("- [ ] B !blocked:ccc", { stableId: "bbb" });
+    const c = task("- [ ] C !blocked:aaa", { stableId: "ccc" });
+
+    const errors = resolveDependencies([a, b, c], resolveLink);
+    expect(errors).toEqual([
+      {
+        filePath: a.filePath,
+        lineNo: a.lineNoHint,
+        line: a.rawLine,
+        reason: 'Dependency cycle: "A" → "B" → "C" → "A"',
+      },
+    ]);
+  });
+
+  it("reports two tasks waiting on each other once", () => {
+    const a = task("- [ ] A !blocked:bbb", { stableId: "aaa" });
+    const b = task("- [ ] B !blocked:aaa", { stableId: "bbb" });
+    expect(cycles([a, b])).toEqual(['Dependency cycle: "A" → "B" → "A"']);
+  });
+
+  it("reports only the cycle when other tasks lead into it", () => {
+    const start = task("- [ ] Start !blocked:aaa");
+    const a = task("- [ ] A !blocked:bbb", { stableId: "aaa" });
+    const b = task("- [ ] B !blocked:aaa", { stableId: "bbb" });
+    expect(cycles([start, a, b])).toEqual(['Dependency cycle: "A" → "B" → "A"']);
+  });
+
+  it.each([
+    ["a chain", ["- [ ] A", "- [ ] B !blocked:aaa", "- [ ] C !blocked:bbb"]],
+    ["a diamond", ["- [ ] A", "- [ ] B !blocked:aaa", "- [ ] C !blocked:aaa", "- [ ] D !blocked:bbb,ccc"]],
+  ])("finds none in %s", (_name, lines) => {
+    const ids = ["aaa", "bbb", "ccc", "ddd"];
+    expect(cycles(lines.map((line, i) => task(line, { stableId: ids[i] })))).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import type { IndexedTask, ParseError, TaskStatus } from "./types";
+
+/**
+ * Key a task is indexed under: its stable ID if present, else its ephemeral ID.
+ */
+export function taskKey(task: IndexedTask): string {
+  return task.stableId ?? task.ephemeralId;
+}
+
+/**
+ * Status as shown to the user. A task declared !blocked whose prerequisites
+ * are all done counts as active again.
+ */
+export function effectiveStatus(task: IndexedTask): TaskStatus {
+  if (task.blocked) return "blocked";
+  return task.status === "blocked" ? "active" : task.status;
+}
+
+/**
+ * Whether a task waits on a prerequisite that isn't done yet. Unlike
+ * `blocked`, a bare or free-text `!blocked` doesn't count.
+ */
+export function waitsOnPrerequisites(
+  task: IndexedTask,
+  lookup: (key: string) => IndexedTask | undefined
+): boolean {
+  return task.prerequisiteIds.some((key) => lookup(key)?.checked === false);
+}
+
+/**
+ * Resolve dependency references and compute each task's effective blocked state.
+ *
+ * A reference is either a stable ID (`!blocked:abc123`) or a link to a block
+ * (`!blocked:[[Note#^block]]`). Anything else is kept as a free-text blocker,
+ * which (like a bare `!blocked`) stays blocked until removed by hand.
+ *
+ * Mutates `prerequisiteIds` and `blocked` on the given tasks and returns one
+ * error per dependency cycle.
+ */
+export function resolveDependencies(
+  tasks: IndexedTask[],
+  resolveLink: (linkpath: string, sourcePath: string) => string | null
+): ParseError[] {
+  const byKey = new Map<string, IndexedTask>();
+  const byStableId = new Map<string, IndexedTask>();
+  const byBlock = new Map<string, IndexedTask>();
+
+  for (const t of tasks) {
+    byKey.set(taskKey(t), t);
+    if (t.stableId && !byStableId.has(t.stableId)) byStableId.set(t.stableId, t);
+    if (t.blockId) byBlock.set(`${t.filePath}#^${t.blockId}`, t);
+  }
+
+  const resolveRef = (ref: string, source: IndexedTask): IndexedTask | null => {
+    const link = ref.match(/^\[\[([^\]|#]*)#\^([A-Za-z0-9-]+)(?:\|[^\]]*)?\]\]$/);
+    if (link) {
+      const path = link[1] ? resolveLink(link[1], source.filePath) : source.filePath;
+      return path ? byBlock.get(`${path}#^${link[2]}`) ?? null : null;
+    }
+    return byStableId.get(ref) ?? null;
+  };
+
+  for (const t of tasks) {
+    const prerequisites: string[] = [];
+    let unresolved = 0;
+
+    for (const ref of t.dependsOn) {
+      const target = resolveRef(ref, t);
+      if (target && target !== t) {
+        prerequisites.push(taskKey(target));
+      } else {
+        unresolved++;
+      }
+    }
+
+    t.prerequisiteIds = prerequisites;
+
+    const openPrerequisites = prerequisites.some((k) => !byKey.get(k)?.checked);
+    const manuallyBlocked =
+      t.status === "blocked" && (t.dependsOn.length === 0 || unresolved > 0);
+    t.blocked = !t.checked && (openPrerequisites || manuallyBlocked);
+  }
+
+  return findCycles(tasks, byKey);
+}
+
+/**
+ * Depth-first search over prerequisite edges, reporting each cycle once.
+ */
+function findCycles(tasks: IndexedTask[], byKey: Map<string, IndexedTask>): ParseError[] {
+  const errors: ParseError[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: IndexedTask[] = [];
+
+  const visit = (task: IndexedTask) => {
+    const key = taskKey(task);
+    state.set(key, "visiting");
+    stack.push(task);
+
+    for (const depKey of task.prerequisiteIds) {
+      const dep = byKey.get(depKey);
+      if (!dep) continue;
+
+      const depState = state.get(depKey);
+      if (depState === "visiting") {
+        const cycle = stack.slice(stack.indexOf(dep));
+        const path = [...cycle, dep].map((t) => `"${t.title}"`).join(" → ");
+        errors.push({
+          filePath: dep.filePath,
+          lineNo: dep.lineNoHint,
+          line: dep.rawLine,
+          reason: `Dependency cycle: ${path}`,
+        });
+      } else if (!depState) {
+        visit(dep);
+      }
+    }
+
+    stack.pop();
+    state.set(key, "done");
+  };
+
+  for (const t of tasks) {
+    if (!state.has(taskKey(t))) visit(t);
+  }
+
+  return errors;
+}
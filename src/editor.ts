@@ -1,17 +1,53 @@
 import { TFile } from "obsidian";
 import type { App } from "obsidian";
 import { FileWriteQueue } from "./writeQueue";
-import type { IndexedTask, RecurrenceRule } from "./types";
+import type {
+  BulkAction,
+  BulkResult,
+  EditHistory,
+  EditOperation,
+  EditResult,
+  EditStatus,
+  FileSnapshot,
+  HeadingRef,
+  IndexedTask,
+  KanbanMove,
+  LineChange,
+  ParsedTodoLine,
+  Priority,
+  RecurrenceRule,
+  SkippedTask,
+  TaskPatch,
+  TaskStatus,
+} from "./types";
 import { normalizeForMatch } from "./hash";
-import { formatTodoMeta, parseTodoMeta, stripTodoMeta } from "./parser";
+import { formatTodoLine, parseTodoLine, parseTodoMeta, stripTodoMeta, withTodoMeta } from "./parser";
+import { occurrencesOnCompletion, shiftYmd } from "./recurrence";
+import { collapseSeriesHistory } from "./series";
+import { MAX_HISTORY, diffLines, replayChanges } from "./history";
+import { assignTaskIds, collectIds, generateId } from "./ids";
+import type { IdAssignment, IdOptions } from "./ids";
+import { finishedParents } from "./hierarchy";
+import { inheritedRemoval } from "./defaults";
+import { CONVERT_LABEL } from "./converter";
+import type { Conversion } from "./converter";
 
-function generateId(): string {
-  // Short, locally unique ID
-  return (
-    Math.random().toString(36).slice(2, 8) +
-    Math.random().toString(36).slice(2, 6)
-  );
-}
+type ToggleOptions = {
+  collapseHistory?: boolean;
+  completeParents?: boolean; // complete a parent once its last open subtask is done
+};
+
+// Undo log labels for bulk toolbar actions
+const BULK_LABELS: Record<BulkAction["kind"], string> = {
+  complete: "Complete",
+  reschedule: "Reschedule",
+  priority: "Set priority",
+  addTag: "Add tag",
+  removeTag: "Remove tag",
+  project: "Set project",
+  move: "Move",
+  delete: "Delete",
+};
 
 function toggleCheckbox(line: string): string {
   return line.replace(/^(\s*- )\[( |x|X)\]/, (_m, prefix: string, check: string) =>
@@ -29,69 +65,111 @@ function findByStableId(lines: string[], stableId: string): number {
   return lines.findIndex((l) => l.includes(needle));
 }
 
-function findEphemeralMatch(lines: string[], task: IndexedTask): number | null {
-  const needle = normalizeForMatch(stripTodoMeta(task.rawLine));
-  const matches = lines
-    .map((l, i) => ({ i, l }))
-    .filter(
-      ({ l }) => isTodoLine(l) && normalizeForMatch(stripTodoMeta(l)) === needle
-    );
+const MATCH_ERRORS: Record<SkippedTask["status"], string> = {
+  not_found: "The task is no longer in its note.",
+  ambiguous: "More than one line in the note matches the task.",
+  changed_since_index: "The task's line was edited since TaskMan last read the note.",
+};
 
-  if (matches.length === 0) return null;
-  if (matches.length === 1) return matches[0].i;
+/**
+ * Find an indexed task's line in the current contents, checking it still
+ * reads exactly as it did when indexed. With several copies of the task,
+ * only the one still on its indexed line is trusted.
+ */
+function matchTaskLine(
+  lines: string[],
+  task: IndexedTask
+): { status: "found"; idx: number } | { status: SkippedTask["status"] } {
+  const needle = task.stableId ? null : normalizeForMatch(stripTodoMeta(task.rawLine));
+  let candidates = lines
+    .map((l, i) => ({ l, i }))
+    .filter(({ l }) =>
+      task.stableId
+        ? l.includes(`<!--todo:id=${task.stableId};`)
+        : isTodoLine(l) && normalizeForMatch(stripTodoMeta(l)) === needle
+    )
+    .map(({ i }) => i);
 
-  // Multiple matches: choose closest to prior line hint
-  return matches.reduce((best, cur) =>
-    Math.abs(cur.i - task.lineNoHint) < Math.abs(best.i - task.lineNoHint)
-      ? cur
-      : best
-  ).i;
+  if (candidates.length === 0) return { status: "not_found" };
+  if (candidates.length > 1) {
+    if (!candidates.includes(task.lineNoHint)) return { status: "ambiguous" };
+    candidates = [task.lineNoHint];
+  }
+
+  const idx = candidates[0];
+  if (lines[idx].trimEnd() !== task.rawLine.trimEnd()) return { status: "changed_since_index" };
+  return { status: "found", idx };
+}
+
+function groupByFile(tasks: IndexedTask[]): Map<string, IndexedTask[]> {
+  const byFile = new Map<string, IndexedTask[]>();
+  for (const t of tasks) {
+    byFile.set(t.filePath, [...(byFile.get(t.filePath) ?? []), t]);
+  }
+  return byFile;
 }
 
 /**
- * Calculate the next occurrence date for a recurring task.
+ * Merge inline edits into a parsed task. Leaving a status drops what it
+ * carried (the person waited on, the blockers).
  */
-function calculateNextOccurrence(
-  currentDate: string,
-  recurrence: RecurrenceRule
-): string {
-  const current = new Date(currentDate + "T00:00:00");
-
-  switch (recurrence.type) {
-    case "day":
-      current.setDate(current.getDate() + recurrence.interval);
-      break;
-    case "week":
-      current.setDate(current.getDate() + recurrence.interval * 7);
-      break;
-    case "month":
-      current.setMonth(current.getMonth() + recurrence.interval);
-      break;
-    case "year":
-      current.setFullYear(current.getFullYear() + recurrence.interval);
-      break;
-    case "weekday":
-      // Move to next weekday
-      do {
-        current.setDate(current.getDate() + 1);
-      } while (current.getDay() === 0 || current.getDay() === 6);
-      break;
-    case "custom":
-      if (recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
-        // Find next matching day of week
-        const startDay = current.getDay();
-        for (let i = 1; i <= 7; i++) {
-          const checkDay = (startDay + i) % 7;
-          if (recurrence.daysOfWeek.includes(checkDay)) {
-            current.setDate(current.getDate() + i);
-            break;
-          }
-        }
+function applyTaskPatch(parsed: ParsedTodoLine, patch: TaskPatch): ParsedTodoLine {
+  const next = { ...parsed, ...patch };
+  if (!next.dueYmd) next.dueTime = null;
+  if (next.status !== "waiting") next.waitingOn = null;
+  if (next.status !== "blocked") {
+    next.dependsOn = [];
+    next.blockedBy = null;
+  }
+  return next;
+}
+
+function indentWidth(line: string): number {
+  return (line.match(/^(\s*)/)?.[1] ?? "").replace(/\t/g, "  ").length;
+}
+
+/**
+ * Index just past a task's block: the task line plus the more deeply
+ * indented lines (subtasks, notes) directly under it.
+ */
+function blockEnd(lines: string[], idx: number): number {
+  const indent = indentWidth(lines[idx]);
+  let end = idx + 1;
+  while (end < lines.length && lines[end].trim() !== "" && indentWidth(lines[end]) > indent) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Insert lines at the end of a heading's section, or at the end of the
+ * note when there is no heading or it can't be found.
+ */
+function insertUnderHeading(lines: string[], block: string[], heading: HeadingRef | null): string[] {
+  const result = [...lines];
+  const start = heading
+    ? result.findIndex((l) => {
+        const m = l.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        return !!m && m[1].length === heading.level && m[2] === heading.text;
+      })
+    : -1;
+
+  let end = result.length;
+  if (start !== -1) {
+    for (let i = start + 1; i < result.length; i++) {
+      const m = result[i].match(/^(#{1,6})\s/);
+      if (m && m[1].length <= heading!.level) {
+        end = i;
+        break;
       }
-      break;
+    }
   }
 
-  return formatDate(current);
+  // After the section's last non-blank line
+  let at = end;
+  while (at > start + 1 && result[at - 1].trim() === "") at--;
+  result.splice(at, 0, ...block);
+  return result;
 }
 
 function formatDate(date: Date): string {
@@ -101,252 +179,1031 @@ function formatDate(date: Date): string {
   return `${y}-${m}-${d}`;
 }
 
-function formatDateCompact(date: string): string {
-  return date.replace(/-/g, "");
-}
-
 /**
- * Replace the date in a task line with a new date.
+ * Replace the due date in a task line with a new date.
+ * Only standalone dates match, so start:/scheduled: dates are left alone;
+ * a THHMM time suffix is kept.
  */
 function replaceDateInLine(line: string, oldDate: string, newDate: string): string {
   const oldCompact = oldDate.replace(/-/g, "");
   const newCompact = newDate.replace(/-/g, "");
-  return line.replace(oldCompact, newCompact);
+  return line.replace(
+    new RegExp(`(^|\\s)${oldCompact}(?=T\\d{4}|\\s|$)`),
+    `$1${newCompact}`
+  );
+}
+
+/**
+ * Set the due date on a task line, replacing the existing one or adding it.
+ */
+function setDueInLine(line: string, oldDate: string | null, newDate: string): string {
+  if (oldDate) return replaceDateInLine(line, oldDate, newDate);
+
+  const body = appendToken(stripTodoMeta(line), newDate.replace(/-/g, ""));
+  const meta = parseTodoMeta(line);
+  return meta ? withTodoMeta(body, meta) : body;
+}
+
+/**
+ * Append a token to a task body, keeping a trailing ^block-id last.
+ */
+function appendToken(body: string, token: string): string {
+  const m = body.match(/^(.*?)(\s+\^[A-Za-z0-9-]+)$/);
+  return m ? `${m[1]} ${token}${m[2]}` : `${body} ${token}`;
+}
+
+function removeTokens(body: string, pattern: string): string {
+  return body
+    .replace(new RegExp(`(^|\\s)${pattern}(?=\\s|$)`, "g"), "$1")
+    .replace(/(\S) {2,}/g, "$1 ")
+    .trimEnd();
+}
+
+function setStatusInBody(body: string, status: TaskStatus): string {
+  const stripped = removeTokens(body, "!(?:waiting|blocked)(?::(?:\\[\\[[^\\]]+\\]\\]|[^\\s])+)?");
+  return status === "active" ? stripped : appendToken(stripped, `!${status}`);
+}
+
+function setPriorityInBody(body: string, priority: Priority): string {
+  const stripped = removeTokens(body, "!{1,3}");
+  if (priority === 0) return stripped;
+  // Priority goes right after the checkbox, as addTask writes it
+  return stripped.replace(/^(\s*- \[( |x|X)\]\s+)/, `$1${"!".repeat(priority)} `);
+}
+
+/**
+ * Apply a Kanban column move to the task body (the line without its meta comment).
+ */
+function applyMoveToBody(body: string, task: IndexedTask, move: KanbanMove): string {
+  switch (move.kind) {
+    case "due":
+      return setDueInLine(body, task.dueYmd, move.date);
+    case "status":
+      return setStatusInBody(body, move.status);
+    case "priority":
+      return setPriorityInBody(body, move.priority);
+    case "tag":
+    case "context": {
+      const prefix = move.kind === "tag" ? "#" : "@";
+      let next = body;
+      for (const value of move.remove) {
+        next = removeTokens(next, `${prefix}${value}`);
+      }
+      const has = new RegExp(`(^|\\s)${prefix}${move.add}(?!\\w)`).test(next);
+      return has ? next : appendToken(next, `${prefix}${move.add}`);
+    }
+    case "project": {
+      const stripped = removeTokens(body, "\\+\\w+");
+      return move.project ? appendToken(stripped, `+${move.project}`) : stripped;
+    }
+    case "complete":
+      return body;
+  }
+}
+
+/**
+ * Open instance of a recurring task due on `dueYmd`. Everything but the
+ * dates is copied; start, scheduled and "at" reminder dates move with the due
+ * date, measured from `anchorYmd`.
+ */
+function nextInstance(
+  parsed: ParsedTodoLine,
+  anchorYmd: string,
+  dueYmd: string,
+  recurrence: RecurrenceRule | null,
+  blockId: string | null
+): ParsedTodoLine {
+  const shift = (ymd: string | null) => ymd && shiftYmd(ymd, anchorYmd, dueYmd);
+  return {
+    ...parsed,
+    checked: false,
+    dueYmd,
+    startYmd: shift(parsed.startYmd),
+    scheduledYmd: shift(parsed.scheduledYmd),
+    reminders: parsed.reminders.map((r) =>
+      r.type === "at" ? { ...r, at: shift(r.at.slice(0, 10)) + r.at.slice(10) } : r
+    ),
+    recurrence,
+    blockId,
+  };
+}
+
+/**
+ * Check or uncheck the task at `idx` in place. Completing a recurring task
+ * inserts its next instance(s) after it.
+ */
+function toggleInLines(
+  lines: string[],
+  idx: number,
+  task: Pick<IndexedTask, "checked" | "dueYmd" | "recurrence">,
+  options: ToggleOptions
+): void {
+  let line = lines[idx];
+
+  // Tag on interaction (add stable ID if missing)
+  let meta = parseTodoMeta(line);
+  if (!meta) {
+    meta = { id: generateId(), v: 1 };
+  }
+
+  // Check if completing or uncompleting
+  const isCompleting = !task.checked;
+  const hasRecurrence = task.recurrence !== null;
+
+  if (isCompleting) {
+    // Set completion date
+    meta.done = formatDate(new Date());
+  } else {
+    // Uncompleting - remove done date
+    delete meta.done;
+  }
+
+  const today = formatDate(new Date());
+  const parsed = parseTodoLine(line);
+  const next =
+    isCompleting && hasRecurrence && task.recurrence && parsed
+      ? occurrencesOnCompletion(task.recurrence, task.dueYmd, today)
+      : null;
+
+  // The first completed instance names the series
+  if (next && next.dates.length > 0 && !meta.series) {
+    meta.series = meta.id;
+  }
+
+  if (next && parsed && next.dates.length > 0) {
+    const series = meta.series;
+
+    // The ^block ID moves on to the open instance, so it stays unique in the note
+    let body = stripTodoMeta(line);
+    if (parsed.blockId) body = body.replace(/\s+\^[A-Za-z0-9-]+\s*$/, "");
+
+    // Toggle to complete
+    line = toggleCheckbox(withTodoMeta(body, meta));
+    lines[idx] = line;
+
+    // Create the next occurrence, preceded by any missed ones ("catch up").
+    // Only the last instance carries the recurrence and block ID on
+    // (with fewer occurrences left for "for N times").
+    const indent = line.match(/^(\s*)/)?.[1] ?? "";
+    const anchor = task.dueYmd ?? today;
+    const newLines = next.dates.map((date, i) => {
+      const last = i === next.dates.length - 1;
+      const instance = nextInstance(
+        parsed, anchor, date, last ? next.rule : null, last ? parsed.blockId : null
+      );
+      return withTodoMeta(formatTodoLine(instance, indent), { id: generateId(), v: 1, series });
+    });
+
+    // Insert after current line
+    lines.splice(idx + 1, 0, ...newLines);
+
+    if (options.collapseHistory && series) {
+      lines.splice(0, lines.length, ...collapseSeriesHistory(lines, series, idx));
+    }
+  } else {
+    // Normal toggle
+    line = toggleCheckbox(withTodoMeta(line, meta));
+    lines[idx] = line;
+  }
+}
+
+/**
+ * After the task at `idx` is completed, complete each parent above it whose
+ * subtasks are now all done (see finishedParents).
+ */
+function completeFinishedParents(lines: string[], idx: number, options: ToggleOptions): void {
+  // Only the last one can be recurring, so adding its next occurrence shifts no line still to do
+  for (const parent of finishedParents(lines, idx)) {
+    const parsed = parseTodoLine(lines[parent]);
+    if (parsed) toggleInLines(lines, parent, parsed, options);
+  }
+}
+
+/**
+ * Apply a bulk toolbar action to the task at `idx` in place. Returns false
+ * when there was nothing to do (e.g. completing a task that's already done,
+ * or removing a tag the task only inherits).
+ */
+function applyBulkInLines(
+  lines: string[],
+  idx: number,
+  task: IndexedTask,
+  action: Exclude<BulkAction, { kind: "move" }>,
+  options: ToggleOptions
+): boolean {
+  switch (action.kind) {
+    case "complete":
+      if (/^\s*- \[[xX]\]/.test(lines[idx])) return false;
+      toggleInLines(lines, idx, { ...task, checked: false }, options);
+      if (options.completeParents && !task.recurrence) completeFinishedParents(lines, idx, options);
+      return true;
+    case "delete":
+      lines.splice(idx, blockEnd(lines, idx) - idx);
+      return true;
+  }
+
+  const meta = parseTodoMeta(lines[idx]) ?? { id: generateId(), v: 1 };
+  const before = stripTodoMeta(lines[idx]).trimEnd();
+  let body = before;
+  switch (action.kind) {
+    case "reschedule":
+      body = applyMoveToBody(body, task, { kind: "due", date: action.date });
+      break;
+    case "priority":
+      body = applyMoveToBody(body, task, { kind: "priority", priority: action.priority });
+      break;
+    case "project":
+      if (inheritedRemoval(task, { kind: "project", project: action.project })) return false;
+      body = applyMoveToBody(body, task, { kind: "project", project: action.project });
+      break;
+    case "addTag":
+      body = applyMoveToBody(body, task, { kind: "tag", add: action.tag, remove: [] });
+      break;
+    case "removeTag":
+      if (inheritedRemoval(task, { kind: "tag", add: "", remove: [action.tag] })) return false;
+      body = removeTokens(body, `#${action.tag}`);
+      break;
+  }
+  if (body === before) return false;
+  lines[idx] = withTodoMeta(body, meta);
+  return true;
 }
 
 export class TaskEditor {
   private app: App;
   private queue = new FileWriteQueue();
+  private undoLog: EditOperation[] = [];
+  private redoLog: EditOperation[] = [];
+  private nextOperationId = 1;
 
   constructor(app: App) {
     this.app = app;
   }
 
+  /**
+   * Check or uncheck a task. Completing a recurring task creates its next
+   * instance in the same series and, with `collapseHistory`, folds older
+   * completed instances into the series' history line. With
+   * `completeParents`, parents whose subtasks are all done are completed in
+   * the same edit.
+   */
   async toggleTask(
-    task: IndexedTask
-  ): Promise<{ success: boolean; error?: string }> {
-    const file = this.app.vault.getAbstractFileByPath(task.filePath);
+    task: IndexedTask,
+    options: ToggleOptions = {}
+  ): Promise<EditResult> {
+    return this.editTaskLines(task, task.checked ? "Uncheck" : "Complete", (lines, idx) => {
+      toggleInLines(lines, idx, task, options);
+      if (options.completeParents && !task.checked && !task.recurrence) {
+        completeFinishedParents(lines, idx, options);
+      }
+    });
+  }
+
+  /**
+   * Reschedule a task to a new date (or add a date if none exists).
+   */
+  async rescheduleTask(
+    task: IndexedTask,
+    newDate: string // YYYY-MM-DD format
+  ): Promise<EditResult> {
+    return this.editTaskLines(task, "Reschedule", (lines, idx) => {
+      let line = setDueInLine(lines[idx], task.dueYmd, newDate);
+
+      // Add stable ID if missing
+      let meta = parseTodoMeta(line);
+      if (!meta) {
+        meta = { id: generateId(), v: 1 };
+        line = withTodoMeta(line, meta);
+      }
+
+      lines[idx] = line;
+    });
+  }
+
+  /**
+   * Skip this occurrence of a recurring task: move it to the next date of its
+   * series without completing it. Fails when the series has no next date.
+   */
+  async skipOccurrence(task: IndexedTask): Promise<EditResult & { nextDate?: string }> {
+    if (!task.recurrence) {
+      return { success: false, status: "error", error: "Task does not repeat." };
+    }
+
+    // The next scheduled instance, regardless of the catch-up policy
+    const next = occurrencesOnCompletion(
+      { ...task.recurrence, catchUp: undefined },
+      task.dueYmd,
+      formatDate(new Date())
+    );
+    const nextDate = next.dates[0];
+    if (!nextDate) {
+      return { success: false, status: "error", error: "This is the last occurrence." };
+    }
+
+    const result = await this.editTaskLines(task, "Skip", (lines, idx) => {
+      const meta = parseTodoMeta(lines[idx]) ?? { id: generateId(), v: 1 };
+      if (!meta.series) meta.series = meta.id;
+
+      let body = setDueInLine(stripTodoMeta(lines[idx]).trimEnd(), task.dueYmd, nextDate);
+      // One fewer occurrence left for "for N times"
+      body = body.replace(task.recurrence!.originalText, next.rule.originalText);
+
+      lines[idx] = withTodoMeta(body, meta);
+    });
+    return result.success ? { ...result, nextDate } : result;
+  }
+
+  /**
+   * Apply inline edits to a task, rebuilding its line in canonical form.
+   * Indentation, checkbox state and the metadata comment are kept.
+   */
+  async updateTask(task: IndexedTask, patch: TaskPatch): Promise<EditResult> {
+    return this.editTaskLines(task, "Edit", (lines, idx) => {
+      const parsed = parseTodoLine(lines[idx]);
+      if (!parsed) throw new Error("Not a task line.");
+
+      const meta = parseTodoMeta(lines[idx]) ?? { id: generateId(), v: 1 };
+      const indent = lines[idx].match(/^(\s*)/)?.[1] ?? "";
+      lines[idx] = withTodoMeta(formatTodoLine(applyTaskPatch(parsed, patch), indent), meta);
+    });
+  }
+
+  /**
+   * Rewrite a task for the Kanban column it was dropped into. A checked task
+   * dragged out of the Done column is reopened as part of the same edit.
+   * Completion itself goes through toggleTask so recurrence is honored.
+   * A move that would take off an inherited tag, context or project is
+   * refused, so the card stays in its column.
+   */
+  async moveTask(task: IndexedTask, move: KanbanMove): Promise<EditResult> {
+    const inherited = inheritedRemoval(task, move);
+    if (inherited) {
+      const error = `${inherited} comes from the note's or folder's defaults, so it can't be removed from the task.`;
+      return { success: false, status: "error", error };
+    }
+    return this.editTaskLines(task, "Move", (lines, idx) => {
+      const meta = parseTodoMeta(lines[idx]) ?? { id: generateId(), v: 1 };
+      let body = stripTodoMeta(lines[idx]).trimEnd();
+
+      if (task.checked) {
+        body = toggleCheckbox(body);
+        delete meta.done;
+      }
+
+      body = applyMoveToBody(body, task, move);
+      lines[idx] = withTodoMeta(body, meta);
+    });
+  }
+
+  /**
+   * Append a new task to the end of a note, as one entry in the undo log.
+   */
+  async appendTask(
+    filePath: string,
+    task: ParsedTodoLine
+  ): Promise<{ success: boolean; operationId?: number; error?: string }> {
+    const file = this.app.vault.getAbstractFileByPath(filePath);
     if (!(file instanceof TFile)) {
       return { success: false, error: "File not found." };
     }
 
+    let operationId: number | undefined;
     try {
-      await this.queue.enqueue(task.filePath, async () => {
+      await this.queue.enqueue(filePath, async () => {
         const content = await this.app.vault.read(file);
-        const lines = content.split("\n");
+        const newContent = content.trimEnd() + "\n" + formatTodoLine(task) + "\n";
+        await this.app.vault.modify(file, newContent);
+        operationId = this.record("Add", task.title, [{ path: filePath, before: content, after: newContent }]);
+      });
+
+      return { success: true, operationId };
+    } catch (e) {
+      return { success: false, error: String(e) };
+    }
+  }
 
-        let idx: number | null = null;
+  /**
+   * Move completed tasks into archive notes, keeping their stable IDs (a task
+   * without one is given one) and adding a link back to the source note. Subtasks and notes indented under
+   * a task go with it; a task with open subtasks stays in place and is
+   * counted as skipped. All notes are rewritten in one queued operation,
+   * archive notes first; if a write fails, the notes already written are
+   * restored. The whole run is one entry in the undo log.
+   */
+  async archiveTasks(
+    tasks: IndexedTask[],
+    targetFor: (task: IndexedTask) => string
+  ): Promise<{ success: boolean; archived: number; skipped: number; operationId?: number; error?: string }> {
+    const byFile = groupByFile(tasks);
+    const paths = [...new Set([...byFile.keys(), ...tasks.map(targetFor)])].sort();
 
-        if (task.stableId) {
-          const found = findByStableId(lines, task.stableId);
-          if (found === -1) {
-            // Task deleted or ID removed
-            return;
-          }
-          idx = found;
-        } else {
-          idx = findEphemeralMatch(lines, task);
-          if (idx === null) return;
+    let archived = 0;
+    let skipped = 0;
+    let operationId: number | undefined;
+    try {
+      await this.withQueuedFiles(paths, async () => {
+        const files = new Map<string, TFile>();
+        const before = new Map<string, string>();
+        const after = new Map<string, string>();
+        for (const path of paths) {
+          const file = this.app.vault.getAbstractFileByPath(path);
+          if (!(file instanceof TFile)) continue;
+          files.set(path, file);
+          before.set(path, await this.app.vault.read(file));
         }
 
-        let line = lines[idx];
+        const entriesByTarget = new Map<string, string[]>();
+        for (const [path, fileTasks] of byFile) {
+          const file = files.get(path);
+          if (!file) continue;
+          const lines = before.get(path)!.split("\n");
+
+          for (const t of [...fileTasks].sort((a, b) => a.lineNoHint - b.lineNoHint)) {
+            // Missing here is also how a subtask archived with its parent looks
+            const match = t.stableId ? { idx: findByStableId(lines, t.stableId) } : matchTaskLine(lines, t);
+            const idx = "idx" in match ? match.idx : -1;
+            if (idx === -1 || !/^\s*- \[[xX]\]/.test(lines[idx])) continue;
+
+            const end = blockEnd(lines, idx);
+            if (lines.slice(idx + 1, end).some((l) => /^\s*- \[ \]/.test(l))) {
+              skipped++;
+              continue;
+            }
 
-        // Tag on interaction (add stable ID if missing)
-        let meta = parseTodoMeta(line);
-        if (!meta) {
-          meta = { id: generateId(), v: 1 };
+            const target = targetFor(t);
+            const link = this.app.metadataCache.fileToLinktext(file, target, true);
+            const indent = lines[idx].match(/^(\s*)/)?.[1] ?? "";
+            const [first, ...nested] = lines
+              .splice(idx, end - idx)
+              .map((l) => (l.startsWith(indent) ? l.slice(indent.length) : l.trimStart()));
+            const body = appendToken(stripTodoMeta(first).trim(), `[[${link}]]`);
+            // A task without an ID gets one, so it can still be found once archived
+            const entry = withTodoMeta(body, parseTodoMeta(first) ?? { id: generateId(), v: 1 });
+
+            entriesByTarget.set(target, [...(entriesByTarget.get(target) ?? []), entry, ...nested]);
+            archived++;
+          }
+          after.set(path, lines.join("\n"));
         }
+        if (archived === 0) return;
 
-        // Check if completing or uncompleting
-        const isCompleting = !task.checked;
-        const hasRecurrence = task.recurrence !== null;
-
-        if (isCompleting) {
-          // Set completion date
-          const today = formatDate(new Date());
-          meta.done = today;
-        } else {
-          // Uncompleting - remove done date
-          delete meta.done;
+        for (const [target, entries] of entriesByTarget) {
+          const content = after.get(target) ?? before.get(target) ?? "";
+          const separator = content.trim() ? "\n" : "";
+          after.set(target, content.trimEnd() + separator + entries.join("\n") + "\n");
         }
 
-        // Update meta in line
-        const base = stripTodoMeta(line).trimEnd();
-        line = `${base} ${formatTodoMeta(meta)}`;
+        // Archive notes first, so an interrupted run leaves duplicates rather than losing tasks
+        const order = [...entriesByTarget.keys(), ...paths.filter((p) => !entriesByTarget.has(p))];
+        const written: FileSnapshot[] = [];
+        const created: TFile[] = [];
+        try {
+          for (const path of order) {
+            const content = after.get(path);
+            if (content === undefined || content === before.get(path)) continue;
+            const file = files.get(path);
+            if (file) await this.app.vault.modify(file, content);
+            else created.push(await this.createNote(path, content));
+            written.push({ path, before: before.get(path) ?? "", after: content });
+          }
+        } catch (e) {
+          // Roll back so no task is left in two notes
+          for (const w of written.reverse()) {
+            const file = files.get(w.path);
+            if (file) await this.app.vault.modify(file, w.before);
+          }
+          for (const file of created) await this.app.vault.delete(file);
+          archived = 0;
+          throw e;
+        }
+        operationId = this.record("Archive", null, written);
+      });
 
-        if (isCompleting && hasRecurrence && task.dueYmd && task.recurrence) {
-          // Toggle to complete
-          line = toggleCheckbox(line);
-          lines[idx] = line;
+      return { success: true, archived, skipped, operationId };
+    } catch (e) {
+      return { success: false, archived, skipped, error: String(e) };
+    }
+  }
 
-          // Create next occurrence
-          const nextDate = calculateNextOccurrence(task.dueYmd, task.recurrence);
-          const nextDateCompact = formatDateCompact(nextDate);
+  /**
+   * Move a task and its indented children under a heading in a note (or to
+   * the end of the note when no heading is given), keeping its stable ID.
+   */
+  async moveTaskToNote(
+    task: IndexedTask,
+    targetPath: string,
+    heading: HeadingRef | null
+  ): Promise<EditResult> {
+    const result = await this.moveTasksToNote([task], targetPath, heading);
+    if (!result.success) {
+      return { success: false, status: "error", error: result.error };
+    }
+    const skipped = result.skipped[0];
+    if (skipped) {
+      return { success: false, status: skipped.status, error: MATCH_ERRORS[skipped.status] };
+    }
+    return { success: true, status: "written", operationId: result.operationId };
+  }
 
-          // Build new task line
-          const leadingWhitespace = line.match(/^(\s*)/)?.[1] ?? "";
-          let newLine = `${leadingWhitespace}- [ ] ${task.title} ${nextDateCompact}`;
+  /**
+   * Move tasks (with their indented children) under a heading in one note.
+   * Every note involved is rewritten in one queued operation: the target
+   * first, then the sources. If a write fails, the notes already written
+   * are restored so no task ends up in two places. Tasks whose lines no
+   * longer match the index are skipped and listed.
+   */
+  async moveTasksToNote(
+    tasks: IndexedTask[],
+    targetPath: string,
+    heading: HeadingRef | null
+  ): Promise<BulkResult & { moved: number }> {
+    const target = this.app.vault.getAbstractFileByPath(targetPath);
+    if (!(target instanceof TFile)) {
+      return { success: false, moved: 0, skipped: [], error: "File not found." };
+    }
 
-          // Add recurrence back
-          newLine += ` ${task.recurrence.originalText}`;
+    const byFile = groupByFile(tasks);
+    const paths = [...new Set([...byFile.keys(), targetPath])].sort();
+    const files = new Map<string, TFile>();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) files.set(path, file);
+    }
 
-          // Add new stable ID
-          const newMeta = { id: generateId(), v: 1 };
-          newLine += ` ${formatTodoMeta(newMeta)}`;
+    let moved = 0;
+    let operationId: number | undefined;
+    let skipped: SkippedTask[] = [];
 
-          // Insert after current line
-          lines.splice(idx + 1, 0, newLine);
-        } else {
-          // Normal toggle
-          line = toggleCheckbox(line);
-          lines[idx] = line;
+    try {
+      await this.withQueuedFiles(paths, async () => {
+        const before = new Map<string, string>();
+        const after = new Map<string, string[]>();
+        for (const [path, file] of files) {
+          const content = await this.app.vault.read(file);
+          before.set(path, content);
+          after.set(path, content.split("\n"));
         }
 
-        const newContent = lines.join("\n");
+        // Cut each task's block, re-indented to the top level
+        const blocks: string[] = [];
+        skipped = [];
+        for (const [path, fileTasks] of byFile) {
+          const lines = after.get(path);
+          if (!lines) continue;
+
+          for (const t of [...fileTasks].sort((a, b) => a.lineNoHint - b.lineNoHint)) {
+            const match = matchTaskLine(lines, t);
+            if (match.status !== "found") {
+              // A subtask already moved with its parent isn't missing
+              const movedWithParent = blocks.some((l) => l.trim() === t.rawLine.trim());
+              if (match.status !== "not_found" || !movedWithParent) {
+                skipped.push({ task: t, status: match.status });
+              }
+              continue;
+            }
+            const idx = match.idx;
+
+            // Tag on interaction (add stable ID if missing)
+            if (!parseTodoMeta(lines[idx])) {
+              const meta = { id: generateId(), v: 1 };
+              lines[idx] = withTodoMeta(lines[idx], meta);
+            }
+
+            const indent = lines[idx].match(/^(\s*)/)?.[1] ?? "";
+            const block = lines
+              .splice(idx, blockEnd(lines, idx) - idx)
+              .map((l) => (l.startsWith(indent) ? l.slice(indent.length) : l.trimStart()));
+            blocks.push(...block);
+            moved++;
+          }
+        }
+        if (moved === 0) return;
+
+        after.set(targetPath, insertUnderHeading(after.get(targetPath)!, blocks, heading));
+
+        const order = [targetPath, ...paths.filter((p) => p !== targetPath)];
+        const written: FileSnapshot[] = [];
+        try {
+          for (const path of order) {
+            const content = after.get(path)!.join("\n");
+            if (content === before.get(path)) continue;
+            await this.app.vault.modify(files.get(path)!, content);
+            written.push({ path, before: before.get(path)!, after: content });
+          }
+        } catch (e) {
+          // Roll back so no task is left in two notes
+          for (const w of written.reverse()) {
+            await this.app.vault.modify(files.get(w.path)!, w.before);
+          }
+          moved = 0;
+          throw e;
+        }
+        const subject = tasks.length === 1 ? tasks[0].title : null;
+        operationId = this.record(`Move to ${targetPath}`, subject, written);
+      });
+
+      return { success: true, moved, skipped, operationId };
+    } catch (e) {
+      return { success: false, moved, skipped, error: String(e) };
+    }
+  }
+
+  /**
+   * What a bulk delete of these tasks would remove: the tasks still found in
+   * their notes, and the indented lines (subtasks, notes) under them that
+   * weren't selected themselves. Nothing is written.
+   */
+  async countDeletion(tasks: IndexedTask[]): Promise<{ tasks: number; nested: number }> {
+    let found = 0;
+    let nested = 0;
+    for (const [path, fileTasks] of groupByFile(tasks)) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+
+      const lines = (await this.app.vault.read(file)).split("\n");
+      const selected = new Set<number>();
+      const removed = new Set<number>();
+      for (const t of fileTasks) {
+        const match = matchTaskLine(lines, t);
+        if (match.status !== "found") continue;
+        selected.add(match.idx);
+        for (let i = match.idx; i < blockEnd(lines, match.idx); i++) removed.add(i);
+      }
+      found += selected.size;
+      nested += removed.size - selected.size;
+    }
+    return { tasks: found, nested };
+  }
+
+  /**
+   * Apply one action to many tasks, reading and writing each note once.
+   * The whole batch is one entry in the undo log.
+   */
+  async bulkEdit(
+    tasks: IndexedTask[],
+    action: Exclude<BulkAction, { kind: "move" }>,
+    options: ToggleOptions = {}
+  ): Promise<BulkResult & { changed: number }> {
+    let changed = 0;
+    const snapshots: FileSnapshot[] = [];
+    const skipped: SkippedTask[] = [];
 
+    try {
+      for (const [path, fileTasks] of groupByFile(tasks)) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) continue;
+
+        await this.queue.enqueue(path, async () => {
+          const content = await this.app.vault.read(file);
+          const lines = content.split("\n");
+
+          // Bottom-up, so deleting or adding lines doesn't move the rest
+          for (const t of [...fileTasks].sort((a, b) => b.lineNoHint - a.lineNoHint)) {
+            const match = matchTaskLine(lines, t);
+            if (match.status !== "found") {
+              skipped.push({ task: t, status: match.status });
+              continue;
+            }
+            if (applyBulkInLines(lines, match.idx, t, action, options)) changed++;
+          }
+
+          const newContent = lines.join("\n");
+          if (newContent !== content) {
+            await this.app.vault.modify(file, newContent);
+            snapshots.push({ path, before: content, after: newContent });
+          }
+        });
+      }
+
+      const operationId = this.record(BULK_LABELS[action.kind], null, snapshots);
+      return { success: true, changed, skipped, operationId };
+    } catch (e) {
+      // Notes already written stay undoable
+      const operationId = this.record(BULK_LABELS[action.kind], null, snapshots);
+      return { success: false, changed, skipped, operationId, error: String(e) };
+    }
+  }
+
+  /**
+   * Add missing stable IDs to a note's tasks and re-ID duplicates of
+   * `taken` (the IDs already used elsewhere, which this note's IDs are added
+   * to), as `options` allow. Used when indexing and by the vault-wide
+   * migration, so it isn't recorded for undo.
+   */
+  async assignIds(
+    path: string,
+    options: IdOptions & { taken: Set<string> }
+  ): Promise<{ success: boolean; added: number; repaired: number; error?: string }> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      return { success: false, added: 0, repaired: 0, error: "File not found." };
+    }
+
+    let result: IdAssignment | null = null;
+    try {
+      await this.queue.enqueue(path, async () => {
+        const content = await this.app.vault.read(file);
+        result = assignTaskIds(content.split("\n"), options);
+        collectIds(result.lines, options.taken);
+
+        const newContent = result.lines.join("\n");
         if (newContent !== content) {
           await this.app.vault.modify(file, newContent);
         }
       });
 
-      return { success: true };
+      const { added, repaired } = result ?? { added: 0, repaired: 0 };
+      return { success: true, added, repaired };
     } catch (e) {
-      return { success: false, error: String(e) };
+      return { success: false, added: 0, repaired: 0, error: String(e) };
     }
   }
 
   /**
-   * Reschedule a task to a new date (or add a date if none exists).
+   * Give one task a stable ID if it has none, so what's kept about it
+   * (snoozes, nags) outlives edits to its text. Not recorded for undo.
    */
-  async rescheduleTask(
-    task: IndexedTask,
-    newDate: string // YYYY-MM-DD format
-  ): Promise<{ success: boolean; error?: string }> {
+  async ensureStableId(task: IndexedTask): Promise<EditResult & { stableId?: string }> {
+    if (task.stableId) return { success: true, status: "written", stableId: task.stableId };
+
     const file = this.app.vault.getAbstractFileByPath(task.filePath);
     if (!(file instanceof TFile)) {
-      return { success: false, error: "File not found." };
+      return { success: false, status: "not_found", error: "File not found." };
     }
 
+    let status: EditStatus = "written";
+    let stableId: string | undefined;
     try {
       await this.queue.enqueue(task.filePath, async () => {
         const content = await this.app.vault.read(file);
         const lines = content.split("\n");
 
-        let idx: number | null = null;
-
-        if (task.stableId) {
-          const found = findByStableId(lines, task.stableId);
-          if (found === -1) return;
-          idx = found;
-        } else {
-          idx = findEphemeralMatch(lines, task);
-          if (idx === null) return;
+        const match = matchTaskLine(lines, task);
+        if (match.status !== "found") {
+          status = match.status;
+          return;
         }
 
-        let line = lines[idx];
-
-        if (task.dueYmd) {
-          // Replace existing date
-          line = replaceDateInLine(line, task.dueYmd, newDate);
-        } else {
-          // Add date to task that has none
-          const newDateCompact = newDate.replace(/-/g, "");
-          const meta = parseTodoMeta(line);
-          if (meta) {
-            // Insert date before the metadata comment
-            const metaStr = formatTodoMeta(meta);
-            line = line.replace(metaStr, `${newDateCompact} ${metaStr}`);
-          } else {
-            // Append date to end of line
-            line = `${line.trimEnd()} ${newDateCompact}`;
-          }
-        }
+        const meta = parseTodoMeta(lines[match.idx]) ?? { id: generateId(), v: 1 };
+        stableId = meta.id;
+        lines[match.idx] = withTodoMeta(lines[match.idx], meta);
+
+        const newContent = lines.join("\n");
+        if (newContent !== content) await this.app.vault.modify(file, newContent);
+      });
+    } catch (e) {
+      return { success: false, status: "error", error: String(e) };
+    }
 
-        // Add stable ID if missing
-        let meta = parseTodoMeta(line);
-        if (!meta) {
-          meta = { id: generateId(), v: 1 };
-          const base = stripTodoMeta(line).trimEnd();
-          line = `${base} ${formatTodoMeta(meta)}`;
+    if (status !== "written") {
+      return { success: false, status, error: MATCH_ERRORS[status] };
+    }
+    return { success: true, status, stableId };
+  }
+
+  /**
+   * Rewrite "todo …" lines of a note as checkbox tasks. A line that no
+   * longer reads as it did when the conversion was found is left alone.
+   * Recorded for undo as one edit per note.
+   */
+  async convertTodoLines(
+    path: string,
+    conversions: Conversion[]
+  ): Promise<{ success: boolean; converted: number; operationId?: number; error?: string }> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      return { success: false, converted: 0, error: "File not found." };
+    }
+
+    let converted = 0;
+    let operationId: number | undefined;
+    try {
+      await this.queue.enqueue(path, async () => {
+        const content = await this.app.vault.read(file);
+        const lines = content.split("\n");
+        for (const c of conversions) {
+          if (lines[c.line] !== c.before) continue;
+          lines[c.line] = c.after;
+          converted++;
         }
 
-        lines[idx] = line;
         const newContent = lines.join("\n");
-
         if (newContent !== content) {
           await this.app.vault.modify(file, newContent);
+          operationId = this.record(CONVERT_LABEL, file.basename, [
+            { path, before: content, after: newContent },
+          ]);
         }
       });
-
-      return { success: true };
     } catch (e) {
-      return { success: false, error: String(e) };
+      return { success: false, converted, error: String(e) };
     }
+    return { success: true, converted, operationId };
   }
 
   /**
-   * Add a new task to a file.
+   * Undo the latest edit in the log. With `operationId` (the Undo button on a
+   * notice), only undo if that edit is still the latest. An edit whose lines
+   * were changed by hand since is refused and stays on top of the log, to be
+   * retried once the lines are restored or dropped with `discard`.
    */
-  async addTask(
-    filePath: string,
-    title: string,
-    dueDate: string | null,
-    options?: {
-      priority?: number;
-      tags?: string[];
-      project?: string;
-      estimate?: string;
+  async undo(
+    operationId?: number
+  ): Promise<{ success: boolean; operation?: EditOperation; error?: string }> {
+    const op = this.undoLog[this.undoLog.length - 1];
+    if (!op) return { success: false, error: "Nothing to undo." };
+    if (operationId !== undefined && op.id !== operationId) {
+      return { success: false, error: "Newer edits must be undone first." };
     }
-  ): Promise<{ success: boolean; error?: string }> {
-    const file = this.app.vault.getAbstractFileByPath(filePath);
+
+    const result = await this.replay(op, "undo");
+    if (!result.success) return { success: false, operation: op, error: result.error };
+    this.undoLog = this.undoLog.slice(0, -1);
+    this.redoLog = [...this.redoLog, op].slice(-MAX_HISTORY);
+    return { success: true, operation: op };
+  }
+
+  /**
+   * Redo the latest undone edit. Like undo, a refused edit stays on top of
+   * the redo log.
+   */
+  async redo(): Promise<{ success: boolean; operation?: EditOperation; error?: string }> {
+    const op = this.redoLog[this.redoLog.length - 1];
+    if (!op) return { success: false, error: "Nothing to redo." };
+
+    const result = await this.replay(op, "redo");
+    if (!result.success) return { success: false, operation: op, error: result.error };
+    this.redoLog = this.redoLog.slice(0, -1);
+    this.undoLog = [...this.undoLog, op].slice(-MAX_HISTORY);
+    return { success: true, operation: op };
+  }
+
+  /**
+   * Drop a refused edit from the top of the undo or redo log without
+   * replaying it, so the edits below it can be reached. Returns false if it
+   * is no longer on top.
+   */
+  discard(direction: "undo" | "redo", operationId: number): boolean {
+    const log = direction === "undo" ? this.undoLog : this.redoLog;
+    if (log[log.length - 1]?.id !== operationId) return false;
+    if (direction === "undo") this.undoLog = log.slice(0, -1);
+    else this.redoLog = log.slice(0, -1);
+    return true;
+  }
+
+  /**
+   * The undo and redo logs, saved with the plugin data.
+   */
+  getHistory(): EditHistory {
+    return { undo: this.undoLog, redo: this.redoLog };
+  }
+
+  loadHistory(history: EditHistory | undefined) {
+    this.undoLog = history?.undo ?? [];
+    this.redoLog = history?.redo ?? [];
+    this.nextOperationId = Math.max(0, ...[...this.undoLog, ...this.redoLog].map((op) => op.id)) + 1;
+  }
+
+  /**
+   * Queued read-modify-write of one indexed task's line (plus any lines
+   * `edit` inserts or removes next to it). Nothing is written unless the
+   * line still reads as it did when indexed; the status says why not.
+   */
+  private async editTaskLines(
+    task: IndexedTask,
+    label: string,
+    edit: (lines: string[], idx: number) => void
+  ): Promise<EditResult> {
+    const file = this.app.vault.getAbstractFileByPath(task.filePath);
     if (!(file instanceof TFile)) {
-      return { success: false, error: "File not found." };
+      return { success: false, status: "not_found", error: "File not found." };
     }
 
+    let status: EditStatus = "written";
+    let operationId: number | undefined;
     try {
-      await this.queue.enqueue(filePath, async () => {
+      await this.queue.enqueue(task.filePath, async () => {
         const content = await this.app.vault.read(file);
+        const lines = content.split("\n");
 
-        // Build task line
-        let line = `- [ ] `;
-
-        // Priority at start
-        if (options?.priority && options.priority > 0) {
-          line += "!".repeat(options.priority) + " ";
+        const match = matchTaskLine(lines, task);
+        if (match.status !== "found") {
+          status = match.status;
+          return;
         }
 
-        line += title;
+        edit(lines, match.idx);
 
-        // Tags
-        if (options?.tags) {
-          for (const tag of options.tags) {
-            line += ` #${tag}`;
-          }
+        const newContent = lines.join("\n");
+        if (newContent !== content) {
+          await this.app.vault.modify(file, newContent);
+          operationId = this.record(label, task.title, [
+            { path: task.filePath, before: content, after: newContent },
+          ]);
         }
+      });
+    } catch (e) {
+      return { success: false, status: "error", error: String(e) };
+    }
 
-        // Project
-        if (options?.project) {
-          line += ` +${options.project}`;
-        }
+    if (status !== "written") {
+      return { success: false, status, error: MATCH_ERRORS[status] };
+    }
+    return { success: true, status, operationId };
+  }
 
-        // Due date
-        if (dueDate) {
-          const dateCompact = dueDate.replace(/-/g, "");
-          line += ` ${dateCompact}`;
-        }
+  /**
+   * Add an edit to the undo log. A new edit clears the redo log.
+   */
+  private record(label: string, subject: string | null, snapshots: FileSnapshot[]): number | undefined {
+    const changes = snapshots.flatMap((snap) => diffLines(snap.path, snap.before, snap.after));
+    if (changes.length === 0) return undefined;
 
-        // Time estimate
-        if (options?.estimate) {
-          line += ` ~${options.estimate}`;
+    const op: EditOperation = {
+      id: this.nextOperationId++,
+      label,
+      subject,
+      at: new Date().toISOString(),
+      changes,
+    };
+    this.undoLog = [...this.undoLog, op].slice(-MAX_HISTORY);
+    this.redoLog = [];
+    return op.id;
+  }
+
+  /**
+   * Revert or reapply an operation in every note it touched. All notes are
+   * checked before any is written, so a refusal leaves them all untouched.
+   */
+  private async replay(
+    op: EditOperation,
+    direction: "undo" | "redo"
+  ): Promise<{ success: boolean; error?: string }> {
+    const byPath = new Map<string, LineChange[]>();
+    for (const change of op.changes) {
+      byPath.set(change.path, [...(byPath.get(change.path) ?? []), change]);
+    }
+
+    let error: string | undefined;
+    try {
+      await this.withQueuedFiles([...byPath.keys()].sort(), async () => {
+        const files = new Map<string, TFile>();
+        const snapshots: FileSnapshot[] = [];
+        for (const [path, changes] of byPath) {
+          const file = this.app.vault.getAbstractFileByPath(path);
+          if (!(file instanceof TFile)) {
+            error = `${path} no longer exists`;
+            return;
+          }
+          const content = await this.app.vault.read(file);
+          const result = replayChanges(content, changes, direction);
+          if ("error" in result) {
+            error = result.error;
+            return;
+          }
+          files.set(path, file);
+          snapshots.push({ path, before: content, after: result.content });
         }
 
-        const newContent = content.trimEnd() + "\n" + line + "\n";
-        await this.app.vault.modify(file, newContent);
+        const written: FileSnapshot[] = [];
+        try {
+          for (const snap of snapshots) {
+            await this.app.vault.modify(files.get(snap.path)!, snap.after);
+            written.push(snap);
+          }
+        } catch (e) {
+          for (const w of written.reverse()) {
+            await this.app.vault.modify(files.get(w.path)!, w.before);
+          }
+          throw e;
+        }
       });
 
-      return { success: true };
+      return error ? { success: false, error } : { success: true };
     } catch (e) {
       return { success: false, error: String(e) };
     }
   }
+
+  /**
+   * Run an operation while holding the write queue of every given file.
+   * Paths are taken in sorted order so concurrent multi-file operations
+   * can't wait on each other.
+   */
+  private async withQueuedFiles(paths: string[], op: () => Promise<void>): Promise<void> {
+    if (paths.length === 0) return op();
+    const [first, ...rest] = paths;
+    await this.queue.enqueue(first, () => this.withQueuedFiles(rest, op));
+  }
+
+  /**
+   * Create a note (and its folder) with the given content.
+   */
+  private async createNote(path: string, content: string): Promise<TFile> {
+    const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    return this.app.vault.create(path, content);
+  }
 }
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { buildDependencyGraph } from "./graph";
+import { parseTodoLine } from "./parser";
+import type { IndexedTask } from "./types";
+
+/** A task with stable ID `id` waiting on the tasks with the given IDs */
+function task(id: string, line: string, prerequisiteIds: string[] = []): IndexedTask {
+  const parsed = parseTodoLine(line);
+  if (!parsed) throw new Error(`not a task: ${line}`);
+  return {
+    ...parsed,
+    stableId: id,
+    ephemeralId: `Notes/Test.md:${id}:1`,
+    filePath: "Notes/Test.md",
+    completedDate: null,
+    inherited: null,
+    seriesId: null,
+    prerequisiteIds,
+    blocked: false,
+    lineNoHint: 0,
+    rawLine: line,
+    headingPath: [],
+    indentLevel: 0,
+    parentId: null,
+    parentLabel: null,
+    childIds: [],
+  };
+}
+
+const layers = (tasks: IndexedTask[]) =>
+  Object.fromEntries(buildDependencyGraph(tasks).nodes.map((n) => [n.key, n.layer]));
+
+const chain = [
+  task("a", "- [ ] Outline ~30m"),
+  task("b", "- [ ] Draft ~2h", ["a"]),
+  task("c", "- [ ] Edit ~1h", ["b"]),
+];
+
+const diamond = [
+  task("a", "- [ ] Spec ~1h"),
+  task("b", "- [ ] Backend ~3h", ["a"]),
+  task("c", "- [ ] Frontend ~1h", ["a"]),
+  task("d", "- [ ] Launch ~30m", ["b", "c"]),
+];
+
+// "c" waits on "b" and "b" on "c"; "a" leads into the cycle
+const cycle = [task("a", "- [ ] Start"), task("b", "- [ ] Ping", ["a", "c"]), task("c", "- [ ] Pong", ["b"])];
+
+describe("buildDependencyGraph", () => {
+  it.each([
+    ["a chain", chain, { a: 0, b: 1, c: 2 }],
+    ["a diamond", diamond, { a: 0, b: 1, c: 1, d: 2 }],
+    ["a graph with a cycle", cycle, { a: 0, b: 1, c: 2 }],
+    ["tasks in any order", [...diamond].reverse(), { a: 0, b: 1, c: 1, d: 2 }],
+  ])("places %s in layers after their prerequisites", (_name, tasks, expected) => {
+    expect(layers(tasks)).toEqual(expected);
+  });
+
+  it.each([
+    ["a chain", chain, ["a", "b", "c"], 210],
+    ["a diamond", diamond, ["a", "b", "d"], 270],
+    ["a graph with a cycle", cycle, ["a", "b", "c"], 0],
+  ])("finds the critical path through %s", (_name, tasks, keys, minutes) => {
+    expect(buildDependencyGraph(tasks).criticalPaths).toEqual([{ project: null, keys, minutes }]);
+  });
+
+  it("marks only the critical path's tasks and edges", () => {
+    const graph = buildDependencyGraph(diamond);
+    expect(graph.nodes.filter((n) => n.critical).map((n) => n.key)).toEqual(["a", "b", "d"]);
+    expect(graph.edges.map((e) => `${e.from}->${e.to}${e.critical ? " critical" : ""}`)).toEqual([
+      "a->b critical",
+      "a->c",
+      "b->d critical",
+      "c->d",
+    ]);
+  });
+
+  it("breaks ties on the longer chain when nothing has an estimate", () => {
+    const tasks = [task("a", "- [ ] A"), task("b", "- [ ] B", ["a"]), task("c", "- [ ] C")];
+    tasks.push(task("d", "- [ ] D", ["b", "c"]));
+    expect(buildDependencyGraph(tasks).criticalPaths[0].keys).toEqual(["a", "b", "d"]);
+  });
+
+  it("still draws every task of a cycle with nothing leading into it", () => {
+    const graph = buildDependencyGraph([task("x", "- [ ] X", ["y"]), task("y", "- [ ] Y", ["x"])]);
+    expect(graph.nodes.map((n) => [n.key, n.layer])).toEqual([
+      ["x", 0],
+      ["y", 1],
+    ]);
+    expect(graph.edges).toHaveLength(2);
+  });
+
+  it("finds a critical path per project and leaves out unconnected tasks", () => {
+    const graph = buildDependencyGraph([
+      task("a", "- [ ] A +site ~1h"),
+      task("b", "- [ ] B +site ~1h", ["a"]),
+      task("c", "- [ ] C +app ~2h"),
+      task("d", "- [ ] D +app", ["c"]),
+      task("e", "- [ ] E +app ~8h"),
+    ]);
+    expect(graph.criticalPaths).toEqual([
+      { project: "site", keys: ["a", "b"], minutes: 120 },
+      { project: "app", keys: ["c", "d"], minutes: 120 },
+    ]);
+  });
+
+  it("stacks each layer by project, then due date", () => {
+    const graph = buildDependencyGraph([
+      task("a", "- [ ] A"),
+      task("b", "- [ ] B +web 20261105", ["a"]),
+      task("c", "- [ ] C +api", ["a"]),
+      task("d", "- [ ] D +web 20261101", ["a"]),
+    ]);
+    expect(graph.nodes.filter((n) => n.layer === 1).map((n) => [n.key, n.row])).toEqual([
+      ["c", 0],
+      ["d", 1],
+      ["b", 2],
+    ]);
+    expect([graph.layerCount, graph.rowCount]).toEqual([2, 3]);
+  });
+
+  it("ignores prerequisites that aren't in the graph", () => {
+    const graph = buildDependencyGraph([task("a", "- [ ] A", ["gone"])]);
+    expect(graph.edges).toEqual([]);
+    expect(graph.criticalPaths).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Dependency graph layout and critical path analysis for `view: graph`.
+ */
+
+import type { IndexedTask } from "./types";
+import { taskKey } from "./dependencies";
+
+export type GraphNode = {
+  key: string;
+  task: IndexedTask;
+  layer: number; // column: longest chain of prerequisites before this task
+  row: number; // position within the column
+  critical: boolean;
+};
+
+export type GraphEdge = {
+  from: string; // prerequisite key
+  to: string; // dependent key
+  critical: boolean;
+};
+
+export type CriticalPath = {
+  project: string | null;
+  keys: string[]; // first task → last task
+  minutes: number;
+};
+
+export type DependencyGraph = {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  criticalPaths: CriticalPath[];
+  layerCount: number;
+  rowCount: number;
+};
+
+/**
+ * Build a layered dependency graph from tasks.
+ * Edges only connect tasks that are both present in `tasks`.
+ */
+export function buildDependencyGraph(tasks: IndexedTask[]): DependencyGraph {
+  const byKey = new Map<string, IndexedTask>();
+  for (const t of tasks) byKey.set(taskKey(t), t);
+
+  const edges: GraphEdge[] = [];
+  const preds = new Map<string, string[]>();
+  const succs = new Map<string, string[]>();
+  for (const key of byKey.keys()) {
+    preds.set(key, []);
+    succs.set(key, []);
+  }
+
+  for (const [key, t] of byKey) {
+    for (const dep of t.prerequisiteIds) {
+      if (!byKey.has(dep)) continue;
+      edges.push({ from: dep, to: key, critical: false });
+      preds.get(key)!.push(dep);
+      succs.get(dep)!.push(key);
+    }
+  }
+
+  const order = topologicalOrder([...byKey.keys()], preds, succs);
+
+  // Layer = longest chain of prerequisites; earliest finish = longest weighted chain
+  const layer = new Map<string, number>();
+  const finish = new Map<string, { minutes: number; count: number }>();
+  const bestPred = new Map<string, string | null>();
+
+  for (const key of order) {
+    const task = byKey.get(key)!;
+    let l = 0;
+    let best: string | null = null;
+    for (const p of preds.get(key)!) {
+      if (!finish.has(p)) continue; // back edge of a cycle
+      l = Math.max(l, layer.get(p)! + 1);
+      if (best === null || compareFinish(finish.get(p)!, finish.get(best)!) > 0) {
+        best = p;
+      }
+    }
+    const base = best ? finish.get(best)! : { minutes: 0, count: 0 };
+    layer.set(key, l);
+    bestPred.set(key, best);
+    finish.set(key, {
+      minutes: base.minutes + (task.estimate?.minutes ?? 0),
+      count: base.count + 1,
+    });
+  }
+
+  // Critical path per project: walk back from the task that finishes last
+  const criticalPaths: CriticalPath[] = [];
+  const criticalKeys = new Set<string>();
+  const criticalEdges = new Set<string>();
+  const projects = new Set([...byKey.values()].map((t) => t.project));
+
+  for (const project of projects) {
+    const candidates = order.filter(
+      (k) => byKey.get(k)!.project === project && preds.get(k)!.length + succs.get(k)!.length > 0
+    );
+    if (candidates.length === 0) continue;
+
+    const last = candidates.reduce((a, b) =>
+      compareFinish(finish.get(b)!, finish.get(a)!) > 0 ? b : a
+    );
+
+    const keys: string[] = [];
+    for (let k: string | null = last; k; k = bestPred.get(k) ?? null) {
+      keys.unshift(k);
+    }
+    if (keys.length < 2) continue;
+
+    for (let i = 0; i < keys.length; i++) {
+      criticalKeys.add(keys[i]);
+      if (i > 0) criticalEdges.add(`${keys[i - 1]}->${keys[i]}`);
+    }
+    criticalPaths.push({ project, keys, minutes: finish.get(last)!.minutes });
+  }
+
+  for (const e of edges) {
+    e.critical = criticalEdges.has(`${e.from}->${e.to}`);
+  }
+
+  // Rows: stack each layer, grouped by project then due date
+  const layers = new Map<number, string[]>();
+  for (const key of order) {
+    const l = layer.get(key)!;
+    const list = layers.get(l) ?? [];
+    list.push(key);
+    layers.set(l, list);
+  }
+
+  const nodes: GraphNode[] = [];
+  let rowCount = 0;
+  for (const [l, keys] of layers) {
+    keys.sort((a, b) => {
+      const ta = byKey.get(a)!;
+      const tb = byKey.get(b)!;
+      const byProject = (ta.project ?? "").localeCompare(tb.project ?? "");
+      if (byProject !== 0) return byProject;
+      return (ta.dueYmd ?? "9999").localeCompare(tb.dueYmd ?? "9999");
+    });
+    keys.forEach((key, row) => {
+      nodes.push({ key, task: byKey.get(key)!, layer: l, row, critical: criticalKeys.has(key) });
+    });
+    rowCount = Math.max(rowCount, keys.length);
+  }
+
+  return {
+    nodes,
+    edges,
+    criticalPaths,
+    layerCount: layers.size === 0 ? 0 : Math.max(...layers.keys()) + 1,
+    rowCount,
+  };
+}
+
+function compareFinish(
+  a: { minutes: number; count: number },
+  b: { minutes: number; count: number }
+): number {
+  // Estimated minutes decide; chain length breaks ties (e.g. no estimates at all)
+  return a.minutes !== b.minutes ? a.minutes - b.minutes : a.count - b.count;
+}
+
+/**
+ * Kahn's algorithm. Tasks caught in a cycle are appended at the end so they
+ * still get drawn.
+ */
+function topologicalOrder(
+  keys: string[],
+  preds: Map<string, string[]>,
+  succs: Map<string, string[]>
+): string[] {
+  const remaining = new Map<string, number>();
+  for (const k of keys) remaining.set(k, preds.get(k)!.length);
+
+  const queue = keys.filter((k) => remaining.get(k) === 0);
+  const order: string[] = [];
+  const seen = new Set<string>();
+
+  while (queue.length > 0) {
+    const k = queue.shift()!;
+    order.push(k);
+    seen.add(k);
+    for (const s of succs.get(k)!) {
+      const n = remaining.get(s)! - 1;
+      remaining.set(s, n);
+      if (n === 0) queue.push(s);
+    }
+  }
+
+  for (const k of keys) {
+    if (!seen.has(k)) order.push(k);
+  }
+
+  return order;
+}
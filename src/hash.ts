@@ -13,13 +13,13 @@ export function fnv1a32(input: string): string {
 
 /**
  * Normalize a task line for matching purposes.
- * - Strips trailing HTML comment (<!--todo:...-->)
+ * - Strips the HTML comment (<!--todo:...-->) at the end, or before a ^block ID
  * - Normalizes checkbox state to unchecked
  * - Collapses whitespace
  * - Lowercases
  */
 export function normalizeForMatch(line: string): string {
-  const noComment = line.replace(/\s*<!--todo:.*?-->\s*$/i, "").trim();
+  const noComment = line.replace(/\s*<!--todo:.*?-->(?=(?:\s+\^[A-Za-z0-9-]+)?\s*$)/i, "").trim();
   const normalizedCheckbox = noComment.replace(/^- \[( |x|X)\]/, "- [ ]");
   return normalizedCheckbox.replace(/\s+/g, " ").trim().toLowerCase();
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { finishedParents, linkSubtasks, listTree, nestTasks, subtasksOf } from "./hierarchy";
+import { parseTodoLine } from "./parser";
+import type { IndexedTask } from "./types";
+
+/** Index a note's tasks the way the indexer does, keyed by line */
+function indexNote(lines: string[]): Map<number, IndexedTask> {
+  const tasks = new Map<number, IndexedTask>();
+  lines.forEach((line, i) => {
+    const parsed = parseTodoLine(line);
+    if (!parsed) return;
+    tasks.set(i, {
+      ...parsed,
+      ephemeralId: `Notes/Test.md:${i}:1`,
+      filePath: "Notes/Test.md",
+      completedDate: null,
+      inherited: null,
+      seriesId: null,
+      prerequisiteIds: [],
+      blocked: false,
+      lineNoHint: i,
+      rawLine: line,
+      headingPath: [],
+      indentLevel: 0,
+      parentId: null,
+      parentLabel: null,
+      childIds: [],
+    });
+  });
+  linkSubtasks(lines, [...tasks.values()]);
+  return tasks;
+}
+
+const lookupIn = (tasks: Map<number, IndexedTask>) => (key: string) =>
+  [...tasks.values()].find((t) => t.ephemeralId === key);
+
+describe("listTree", () => {
+  it.each([
+    // [note, parent line of each line]
+    [["- [ ] a", "  - [ ] b", "    - [ ] c"], [null, 0, 1]],
+    [["- [ ] a", "  - Groceries", "    - [ ] Milk"], [null, 0, 0]],
+    [["- [ ] a", "\t- [ ] b"], [null, 0]],
+    [["- [ ] a", "  1. step", "     - [ ] b"], [null, 0, 0]],
+    [["- [ ] a", "## Next", "  - [ ] b"], [null, null, null]],
+    [["- [ ] a", "Text", "  - [ ] b"], [null, null, null]],
+    [["- [ ] a", "  continued", "  - [ ] b"], [null, null, 0]],
+    [["- [ ] a", "- [ ] b", "  - [ ] c"], [null, null, 1]],
+  ])("%j", (lines, parents) => {
+    expect(listTree(lines).map((n) => n.parent)).toEqual(parents);
+  });
+});
+
+describe("linkSubtasks", () => {
+  const note = [
+    "- [ ] Trip",
+    "  - Packing",
+    "    - [x] Passport",
+    "    - [ ] Charger",
+    "  - [ ] Book hotel",
+    "    - [x] Compare prices",
+    "- [ ] Unrelated",
+  ];
+  const tasks = indexNote(note);
+  const key = (line: number) => tasks.get(line)!.ephemeralId;
+
+  it("links tasks to the task they're indented under, through plain bullets", () => {
+    expect([...tasks.values()].map((t) => [t.lineNoHint, t.parentId, t.parentLabel])).toEqual([
+      [0, null, null],
+      [2, key(0), "Packing"],
+      [3, key(0), "Packing"],
+      [4, key(0), null],
+      [5, key(4), null],
+      [6, null, null],
+    ]);
+    expect(tasks.get(0)!.childIds).toEqual([key(2), key(3), key(4)]);
+  });
+
+  it.each([
+    // [line, subtasks done, subtasks]
+    [0, 2, 4],
+    [4, 1, 1],
+    [6, 0, 0],
+  ])("counts the subtasks of line %i as %i of %i done", (line, done, total) => {
+    const subtasks = subtasksOf(tasks.get(line)!, lookupIn(tasks));
+    expect([subtasks.filter((s) => s.checked).length, subtasks.length]).toEqual([done, total]);
+  });
+
+  it("nests them under the nearest shown ancestor", () => {
+    const shown = [0, 5, 6].map((line) => tasks.get(line)!);
+    expect(nestTasks(shown, lookupIn(tasks)).map((r) => [r.task.title, r.depth, r.hasChildren])).toEqual([
+      ["Trip", 0, true],
+      ["Compare prices", 1, false],
+      ["Unrelated", 0, false],
+    ]);
+  });
+});
+
+describe("finishedParents", () => {
+  it.each([
+    // [note with the task at line 2 just completed, parents to complete]
+    ["completes a parent once its last subtask is done", ["- [ ] a", "  - [x] b", "  - [x] c"], [0]],
+    ["leaves a parent with an open subtask", ["- [ ] a", "  - [ ] b", "  - [x] c"], []],
+    ["completes a parent through a plain bullet", ["- [ ] a", "  - Group", "    - [x] c"], [0]],
+    ["goes up several levels", ["- [ ] a", "  - [ ] b", "    - [x] c"], [1, 0]],
+    ["passes a parent already done", ["- [ ] a", "  - [x] b", "    - [x] c"], [0]],
+    ["stops at a parent with an open subtask", ["- [ ] a", "  - [ ] b", "    - [x] c", "  - [ ] d"], [1]],
+    ["has nothing to do for a top-level task", ["- [ ] a", "", "- [x] c"], []],
+  ])("%s", (_name, lines, expected) => {
+    expect(finishedParents(lines, 2)).toEqual(expected);
+  });
+
+  it("stops at a recurring parent", () => {
+    const lines = ["- [ ] Project", "  - [ ] Weekly review every week", "    - [x] Inbox zero"];
+    expect(finishedParents(lines, 2)).toEqual([1]);
+  });
+});
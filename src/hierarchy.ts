@@ -0,0 +1,225 @@
+import type { IndexSnapshot, IndexedTask } from "./types";
+import { taskKey } from "./dependencies";
+import { parseTodoLine } from "./parser";
+
+export type TaskLookup = (key: string) => IndexedTask | undefined;
+
+/** Where a line sits in its note's list tree */
+export type ListNode = {
+  task: boolean;
+  parent: number | null; // line of the nearest task above at a shallower indent
+  label: string | null; // text of the direct parent, when it's a plain bullet
+};
+
+/** A task placed in a rendered tree */
+export type TreeRow = {
+  task: IndexedTask;
+  depth: number;
+  ancestors: string[]; // keys of the shown tasks above it, outermost first
+  hasChildren: boolean;
+};
+
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * The list tree of a note, one node per line. A task's parent is the
+ * nearest task it's indented under, through any plain bullets in between
+ * ("- Groceries" holding "- [ ] Milk"). Headings and unindented text end
+ * a list.
+ */
+export function listTree(lines: string[]): ListNode[] {
+  const nodes: ListNode[] = [];
+  const stack: Array<{ line: number; indent: number; task: boolean; text: string }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const m = line.match(LIST_ITEM);
+    if (!m) {
+      if (line.trim() && (/^#{1,6}\s/.test(line) || !/^\s/.test(line))) stack.length = 0;
+      nodes.push({ task: false, parent: null, label: null });
+      continue;
+    }
+
+    const indent = m[1].replace(/\t/g, "  ").length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    const direct = stack[stack.length - 1];
+    const taskAbove = [...stack].reverse().find((s) => s.task);
+    const task = parseTodoLine(line) !== null;
+    nodes.push({
+      task,
+      parent: taskAbove ? taskAbove.line : null,
+      label: direct && !direct.task ? direct.text : null,
+    });
+    stack.push({ line: i, indent, task, text: m[2].trim() });
+  }
+
+  return nodes;
+}
+
+/**
+ * The headings each line sits under, outermost first. Frontmatter and
+ * fenced code (where `# ` starts a comment) are skipped.
+ */
+export function headingPaths(lines: string[]): string[][] {
+  const paths: string[][] = [];
+  let current: Array<{ level: number; text: string }> = [];
+  let path: string[] = [];
+  let inFrontmatter = lines[0]?.trim() === "---";
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    paths.push(path);
+
+    if (inFrontmatter) {
+      if (i > 0 && line.trim() === "---") inFrontmatter = false;
+      continue;
+    }
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const m = line.match(HEADING);
+    if (!m) continue;
+    const level = m[1].length;
+    current = [...current.filter((h) => h.level < level), { level, text: m[2] }];
+    path = current.map((h) => h.text);
+  }
+
+  return paths;
+}
+
+export function formatHeadingPath(path: string[]): string {
+  return path.join(" > ");
+}
+
+/**
+ * Lines of the tasks nested under the task at `idx`, at any depth.
+ */
+export function subtaskLines(nodes: ListNode[], idx: number): number[] {
+  const result: number[] = [];
+  for (let j = idx + 1; j < nodes.length; j++) {
+    if (!nodes[j].task) continue;
+    let p = nodes[j].parent;
+    while (p !== null && p > idx) p = nodes[p].parent;
+    if (p === idx) result.push(j);
+  }
+  return result;
+}
+
+/**
+ * Parents to complete, innermost first, once the task at `idx` is done: each
+ * one whose subtasks are then all done, passing through parents already
+ * done. A recurring parent is the last: its next occurrence is a new open
+ * subtask, so the parents above it stay open.
+ */
+export function finishedParents(lines: string[], idx: number): number[] {
+  const nodes = listTree(lines);
+  const completed = new Set<number>();
+  const result: number[] = [];
+
+  let child = idx;
+  for (;;) {
+    const parent = nodes[child].parent;
+    if (parent === null) return result;
+
+    const parsed = parseTodoLine(lines[parent]);
+    if (!parsed) return result;
+    const open = (i: number) => !completed.has(i) && !parseTodoLine(lines[i])?.checked;
+    if (subtaskLines(nodes, parent).some(open)) return result;
+
+    if (!parsed.checked) {
+      result.push(parent);
+      completed.add(parent);
+      if (parsed.recurrence) return result;
+    }
+    child = parent;
+  }
+}
+
+/**
+ * Fill in `parentId`, `parentLabel` and `childIds` for one note's tasks.
+ */
+export function linkSubtasks(lines: string[], tasks: IndexedTask[]): void {
+  const byLine = new Map(tasks.map((t) => [t.lineNoHint, t]));
+  const nodes = listTree(lines);
+
+  for (const task of tasks) {
+    const node = nodes[task.lineNoHint];
+    const parent = node.parent === null ? undefined : byLine.get(node.parent);
+    task.parentId = parent ? taskKey(parent) : null;
+    task.parentLabel = node.label;
+    if (parent) parent.childIds.push(taskKey(task));
+  }
+}
+
+export function snapshotLookup(snapshot: IndexSnapshot): TaskLookup {
+  return (key) => snapshot.tasksByStableId.get(key) ?? snapshot.tasksByEphemeralId.get(key);
+}
+
+/**
+ * All tasks nested under a task, at any depth, in note order.
+ */
+export function subtasksOf(task: IndexedTask, lookup: TaskLookup): IndexedTask[] {
+  const result: IndexedTask[] = [];
+  const seen = new Set<string>([taskKey(task)]);
+
+  const visit = (t: IndexedTask) => {
+    for (const key of t.childIds) {
+      const child = lookup(key);
+      if (!child || seen.has(key)) continue;
+      seen.add(key);
+      result.push(child);
+      visit(child);
+    }
+  };
+  visit(task);
+
+  return result;
+}
+
+/**
+ * Arrange a list of tasks as a tree, keeping their order among siblings.
+ * A task whose parent isn't in the list goes under its nearest ancestor
+ * that is, or becomes a root.
+ */
+export function nestTasks(tasks: IndexedTask[], lookup: TaskLookup): TreeRow[] {
+  const shown = new Set(tasks.map(taskKey));
+  const children = new Map<string, IndexedTask[]>();
+  const roots: IndexedTask[] = [];
+
+  for (const t of tasks) {
+    let parentKey = t.parentId;
+    const seen = new Set<string>();
+    while (parentKey && !shown.has(parentKey) && !seen.has(parentKey)) {
+      seen.add(parentKey);
+      parentKey = lookup(parentKey)?.parentId ?? null;
+    }
+
+    if (parentKey && shown.has(parentKey)) {
+      const list = children.get(parentKey) ?? [];
+      list.push(t);
+      children.set(parentKey, list);
+    } else {
+      roots.push(t);
+    }
+  }
+
+  const rows: TreeRow[] = [];
+  const visit = (t: IndexedTask, ancestors: string[]) => {
+    const key = taskKey(t);
+    const kids = children.get(key) ?? [];
+    rows.push({ task: t, depth: ancestors.length, ancestors, hasChildren: kids.length > 0 });
+    for (const kid of kids) visit(kid, [...ancestors, key]);
+  };
+  for (const t of roots) visit(t, []);
+
+  return rows;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { describeOperation, diffLines, replayChanges } from "./history";
+
+const note = (...lines: string[]) => lines.join("\n");
+
+describe("diffLines", () => {
+  it.each([
+    // [before, after, changed runs as [line, before, after]]
+    [note("a", "b", "c"), note("a", "b", "c"), []],
+    [note("a", "b", "c"), note("a", "B", "c"), [[1, ["b"], ["B"]]]],
+    [note("a", "b", "c", "d"), note("A", "b", "c", "D"), [[0, ["a"], ["A"]], [3, ["d"], ["D"]]]],
+    [note("a", "b", "c"), note("a", "b", "x", "c"), [[2, [], ["x"]]]],
+    [note("a", "b", "c"), note("a", "c"), [[1, ["b"], []]]],
+    [note("a", "b", "c"), note("x", "a", "b", "c"), [[0, [], ["x"]]]],
+    // A completed recurring task and its next instance, with a kept line between two edits
+    [
+      note("- [ ] t", "keep", "- [x] old", "end"),
+      note("- [x] t", "- [ ] t next", "keep", "end"),
+      [[0, ["- [ ] t"], ["- [x] t", "- [ ] t next"]], [2, ["- [x] old"], []]],
+    ],
+  ])("%j → %j", (before, after, expected) => {
+    const changes = diffLines("n.md", before, after);
+    expect(changes.map((c) => [c.line, c.before, c.after])).toEqual(expected);
+  });
+
+  it("records the line above as the anchor and the first task ID", () => {
+    const [change] = diffLines("n.md", note("a", "b"), note("a", "- [ ] x <!--todo:id=abc;v=1-->", "b"));
+    expect(change).toMatchObject({ path: "n.md", anchor: "a", stableId: "abc" });
+  });
+});
+
+describe("replayChanges", () => {
+  const before = note("# Tasks", "- [ ] one", "notes", "- [ ] two", "- [x] done");
+  const after = note("# Tasks", "- [x] one", "- [ ] one again", "notes", "- [ ] two");
+  const changes = diffLines("n.md", before, after);
+
+  it("undoes and redoes an edit", () => {
+    expect(replayChanges(after, changes, "undo")).toEqual({ content: before });
+    expect(replayChanges(before, changes, "redo")).toEqual({ content: after });
+  });
+
+  it("finds moved lines after edits elsewhere in the note", () => {
+    const edited = note("Intro", "", after.replace("notes", "edited notes"));
+    expect(replayChanges(edited, changes, "undo")).toEqual({
+      content: note("Intro", "", before.replace("notes", "edited notes")),
+    });
+  });
+
+  it("refuses when a changed line was edited by hand", () => {
+    const edited = after.replace("- [ ] one again", "- [ ] one again, edited");
+    expect(replayChanges(edited, changes, "undo")).toEqual({
+      error: 'n.md line 2 was edited since ("- [x] one")',
+    });
+  });
+
+  it("puts a removed line back under its anchor", () => {
+    const removed = diffLines("n.md", note("a", "b", "c"), note("a", "c"));
+    expect(replayChanges(note("z", "a", "c"), removed, "undo")).toEqual({ content: note("z", "a", "b", "c") });
+  });
+});
+
+describe("describeOperation", () => {
+  const op = { id: 1, label: "Reschedule", at: "", changes: [] };
+
+  it.each([
+    [null, "Reschedule"],
+    ["Call Bob", 'Reschedule "Call Bob"'],
+    ["x".repeat(50), `Reschedule "${"x".repeat(40)}..."`],
+  ])("%j", (subject, expected) => {
+    expect(describeOperation({ ...op, subject })).toBe(expected);
+  });
+});
@@ -0,0 +1,149 @@
+import type { EditOperation, LineChange } from "./types";
+import { parseTodoMeta } from "./parser";
+
+/** Operations kept in each of the undo and redo logs */
+export const MAX_HISTORY = 100;
+
+/** Largest diff table worth computing; bigger edits are kept as one change */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * The line changes between two versions of a note: one change per run of
+ * edited, added or removed lines. Lines the edit kept aren't part of any
+ * change, so editing them by hand doesn't stand in the way of undo.
+ */
+export function diffLines(path: string, before: string, after: string): LineChange[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const change = ([fromA, toA, fromB, toB]: Range): LineChange => {
+    const removed = a.slice(fromA, toA);
+    const added = b.slice(fromB, toB);
+    const meta = [...removed, ...added].map(parseTodoMeta).find((m) => m !== null);
+    return {
+      path,
+      stableId: meta?.id ?? null,
+      line: fromA,
+      anchor: fromA > 0 ? a[fromA - 1] : null,
+      before: removed,
+      after: added,
+    };
+  };
+
+  return changedRanges(a, b, start, endA, endB).map(change);
+}
+
+/** Lines [fromA, toA) of the old version replaced by [fromB, toB) of the new */
+type Range = [number, number, number, number];
+
+/**
+ * Split the differing middle of two versions into runs of changed lines,
+ * using the longest common subsequence of lines to find the ones kept.
+ */
+function changedRanges(a: string[], b: string[], start: number, endA: number, endB: number): Range[] {
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 && m === 0) return [];
+  if (n === 0 || m === 0 || n * m > MAX_DIFF_CELLS) return [[start, endA, start, endB]];
+
+  // common[i * width + j]: length of the LCS of a[start + i..] and b[start + j..]
+  const width = m + 1;
+  const common = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      common[i * width + j] =
+        a[start + i] === b[start + j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const ranges: Range[] = [];
+  let i = 0;
+  let j = 0;
+  let fromI = 0;
+  let fromJ = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      if (fromI < i || fromJ < j) ranges.push([start + fromI, start + i, start + fromJ, start + j]);
+      i++;
+      j++;
+      fromI = i;
+      fromJ = j;
+    } else if (j < m && (i === n || common[i * width + j + 1] >= common[(i + 1) * width + j])) {
+      j++;
+    } else {
+      i++;
+    }
+  }
+  if (fromI < n || fromJ < m) ranges.push([start + fromI, endA, start + fromJ, endB]);
+  return ranges;
+}
+
+/**
+ * Revert (`undo`) or reapply (`redo`) one note's changes. Each change is
+ * found by its content, nearest to where it was made, so edits elsewhere in
+ * the note don't get in the way. If a changed line no longer reads as the
+ * edit left it, nothing is applied and the reason is returned instead.
+ */
+export function replayChanges(
+  content: string,
+  changes: LineChange[],
+  direction: "undo" | "redo"
+): { content: string } | { error: string } {
+  const lines = content.split("\n");
+
+  // Bottom-up, so earlier changes keep their line numbers
+  for (const change of [...changes].reverse()) {
+    const expected = direction === "undo" ? change.after : change.before;
+    const replacement = direction === "undo" ? change.before : change.after;
+
+    let idx: number | null;
+    if (expected.length > 0) {
+      idx = nearestMatch(lines, expected, change.line);
+    } else if (change.anchor === null) {
+      idx = 0;
+    } else {
+      const above = nearestMatch(lines, [change.anchor], change.line - 1);
+      idx = above === null ? null : above + 1;
+    }
+
+    if (idx === null) {
+      const shown = (expected[0] ?? change.anchor ?? "").trim();
+      const quote = shown ? ` ("${shorten(shown)}")` : "";
+      return { error: `${change.path} line ${change.line + 1} was edited since${quote}` };
+    }
+    lines.splice(idx, expected.length, ...replacement);
+  }
+
+  return { content: lines.join("\n") };
+}
+
+/**
+ * Short description of an operation for notices, e.g. `Reschedule "Call Bob"`.
+ */
+export function describeOperation(op: EditOperation): string {
+  return op.subject ? `${op.label} "${shorten(op.subject)}"` : op.label;
+}
+
+function nearestMatch(lines: string[], block: string[], hint: number): number | null {
+  let best: number | null = null;
+  for (let i = 0; i + block.length <= lines.length; i++) {
+    if (!block.every((l, k) => lines[i + k] === l)) continue;
+    if (best === null || Math.abs(i - hint) < Math.abs(best - hint)) best = i;
+  }
+  return best;
+}
+
+function shorten(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
@@ -1,4 +1,5 @@
 import type { IndexedTask } from "./types";
+import { toRRule } from "./recurrence";
 
 /**
  * Generate an ICS (iCalendar) file from tasks.
@@ -14,10 +15,12 @@ export function generateICS(tasks: IndexedTask[]): string {
   ];
 
   for (const task of tasks) {
-    if (!task.dueYmd) continue;
-
-    const event = generateVEvent(task);
-    lines.push(...event);
+    if (task.startYmd) {
+      // Tasks with a start date become to-dos: DTSTART = start, DUE = due
+      lines.push(...generateVTodo(task));
+    } else if (task.dueYmd) {
+      lines.push(...generateVEvent(task));
+    }
   }
 
   lines.push("END:VCALENDAR");
@@ -26,6 +29,7 @@ export function generateICS(tasks: IndexedTask[]): string {
 
 /**
  * Generate a VEVENT for a single task.
+ * Timed tasks get a DTSTART/DTEND pair using the time estimate as duration.
  */
 function generateVEvent(task: IndexedTask): string[] {
   const uid = task.stableId || task.ephemeralId;
@@ -37,10 +41,67 @@ function generateVEvent(task: IndexedTask): string[] {
     "BEGIN:VEVENT",
     `UID:${uid}@taskman.obsidian`,
     `DTSTAMP:${dtstamp}`,
-    `DTSTART;VALUE=DATE:${dateCompact}`,
-    `SUMMARY:${escapeICS(task.title)}`,
   ];
 
+  if (task.dueTime) {
+    lines.push(`DTSTART:${formatICSLocalDateTime(task.dueYmd!, task.dueTime, 0)}`);
+    if (task.estimate) {
+      lines.push(
+        `DTEND:${formatICSLocalDateTime(task.dueYmd!, task.dueTime, task.estimate.minutes)}`
+      );
+    }
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${dateCompact}`);
+  }
+
+  if (task.recurrence) {
+    lines.push(`RRULE:${toRRule(task.recurrence, task.dueTime !== null)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeICS(task.title)}`);
+  lines.push(...generateTaskProperties(task));
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+/**
+ * Generate a VTODO for a task with a start date. DTSTART and DUE must have the
+ * same value type, so with a due time the start is written as its midnight.
+ */
+function generateVTodo(task: IndexedTask): string[] {
+  const uid = task.stableId || task.ephemeralId;
+  const dtstamp = formatICSDateTime(new Date());
+
+  const lines: string[] = [
+    "BEGIN:VTODO",
+    `UID:${uid}@taskman.obsidian`,
+    `DTSTAMP:${dtstamp}`,
+  ];
+  const timed = task.dueYmd !== null && task.dueTime !== null;
+  if (timed) {
+    lines.push(`DTSTART:${formatICSLocalDateTime(task.startYmd!, "00:00", 0)}`);
+    lines.push(`DUE:${formatICSLocalDateTime(task.dueYmd!, task.dueTime!, 0)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${task.startYmd!.replace(/-/g, "")}`);
+    if (task.dueYmd) lines.push(`DUE;VALUE=DATE:${task.dueYmd.replace(/-/g, "")}`);
+  }
+  if (task.recurrence) {
+    lines.push(`RRULE:${toRRule(task.recurrence, timed)}`);
+  }
+  lines.push(`SUMMARY:${escapeICS(task.title)}`);
+  lines.push(...generateTaskProperties(task));
+  lines.push("END:VTODO");
+
+  return lines;
+}
+
+/**
+ * Description, priority, status and categories shared by VEVENT and VTODO.
+ */
+function generateTaskProperties(task: IndexedTask): string[] {
+  const lines: string[] = [];
+
   // Add description with metadata
   const descParts: string[] = [];
   if (task.priority > 0) {
@@ -80,7 +141,6 @@ function generateVEvent(task: IndexedTask): string[] {
     lines.push(`CATEGORIES:${task.tags.join(",")}`);
   }
 
-  lines.push("END:VEVENT");
   return lines;
 }
 
@@ -97,6 +157,20 @@ function formatICSDateTime(date: Date): string {
   return `${y}${m}${d}T${h}${min}${s}Z`;
 }
 
+/**
+ * Format a local (floating) date-time, optionally shifted by some minutes.
+ */
+function formatICSLocalDateTime(ymd: string, time: string, addMinutes: number): string {
+  const date = new Date(`${ymd}T${time}:00`);
+  date.setMinutes(date.getMinutes() + addMinutes);
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  const h = String(date.getHours()).padStart(2, "0");
+  const min = String(date.getMinutes()).padStart(2, "0");
+  return `${y}${m}${d}T${h}${min}00`;
+}
+
 /**
  * Escape special characters for ICS.
  */
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { assignTaskIds, collectIds } from "./ids";
+import { parseTodoMeta } from "./parser";
+
+const ids = (lines: string[]) => lines.map((l) => parseTodoMeta(l)?.id ?? null);
+
+describe("assignTaskIds", () => {
+  it("adds IDs only to tasks without one", () => {
+    const result = assignTaskIds(["# Tasks", "- [ ] a", "- [ ] b <!--todo:id=abc;v=1-->", "text"], {
+      assign: true,
+      repair: false,
+    });
+    expect(result).toMatchObject({ added: 1, repaired: 0 });
+    expect(ids(result.lines)).toEqual([null, expect.any(String), "abc", null]);
+  });
+
+  it("re-IDs repeats within the note and of taken IDs", () => {
+    const lines = [
+      "- [ ] a <!--todo:id=abc;v=1-->",
+      "- [ ] b <!--todo:id=abc;v=1-->",
+      "- [ ] c <!--todo:id=xyz;v=1-->",
+    ];
+    const result = assignTaskIds(lines, { assign: false, repair: true, taken: new Set(["xyz"]) });
+    expect(result).toMatchObject({ added: 0, repaired: 2 });
+    const [a, b, c] = ids(result.lines);
+    expect(a).toBe("abc");
+    expect(b).not.toBe("abc");
+    expect(c).not.toBe("xyz");
+  });
+
+  it.each([
+    ["fenced code", ["```md", "- [ ] sample", "```", "- [ ] real"]],
+    ["tilde fences", ["~~~", "- [ ] sample", "~~~", "- [ ] real"]],
+    ["frontmatter", ["---", "- [ ] sample", "---", "- [ ] real"]],
+  ])("leaves tasks in %s alone", (_name, lines) => {
+    const result = assignTaskIds(lines, { assign: true, repair: true });
+    expect(result.added).toBe(1);
+    expect(result.lines.slice(0, 3)).toEqual(lines.slice(0, 3));
+    expect(parseTodoMeta(result.lines[3])).not.toBeNull();
+  });
+
+  it("leaves skipped lines alone", () => {
+    const result = assignTaskIds(["- [ ] typing", "- [ ] done typing"], {
+      assign: true,
+      repair: true,
+      skip: new Set([0]),
+    });
+    expect(ids(result.lines)).toEqual([null, expect.any(String)]);
+  });
+});
+
+describe("collectIds", () => {
+  it("adds every ID in the lines", () => {
+    const taken = new Set(["old"]);
+    collectIds(
+      ["- [ ] a <!--todo:id=abc;v=1-->", "text", "- [x] b <!--todo:id=def;v=1;done=2026-01-01-->"],
+      taken
+    );
+    expect([...taken]).toEqual(["old", "abc", "def"]);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  frontmatterAndCodeLines,
+  isTodoLineCandidate,
+  parseTodoLine,
+  parseTodoMeta,
+  withTodoMeta,
+} from "./parser";
+
+export type IdAssignment = {
+  lines: string[];
+  added: number; // tasks that had no ID
+  repaired: number; // tasks whose ID was a duplicate and got a new one
+};
+
+export type IdOptions = {
+  assign: boolean;
+  repair: boolean;
+  taken?: Set<string>;
+  skip?: Set<number>;
+};
+
+export function generateId(): string {
+  // Short, locally unique ID
+  return (
+    Math.random().toString(36).slice(2, 8) +
+    Math.random().toString(36).slice(2, 6)
+  );
+}
+
+/**
+ * Give tasks in a note stable IDs. With `assign`, tasks without an ID get
+ * one; with `repair`, a task repeating an ID (seen earlier in the note, or
+ * `taken` elsewhere) gets a new one. Lines in `skip`, frontmatter and fenced
+ * code are left alone.
+ */
+export function assignTaskIds(lines: string[], options: IdOptions): IdAssignment {
+  const seen = new Set<string>();
+  const result = [...lines];
+  const code = frontmatterAndCodeLines(lines);
+  let added = 0;
+  let repaired = 0;
+
+  for (let i = 0; i < result.length; i++) {
+    const line = result[i];
+    if (code.has(i) || !isTodoLineCandidate(line) || !parseTodoLine(line)) continue;
+
+    const meta = parseTodoMeta(line);
+    if (meta) {
+      const duplicate = seen.has(meta.id) || options.taken?.has(meta.id);
+      seen.add(meta.id);
+      if (!duplicate || !options.repair || options.skip?.has(i)) continue;
+
+      const id = freshId(seen, options.taken);
+      seen.add(id);
+      result[i] = withTodoMeta(line, { ...meta, id });
+      repaired++;
+    } else if (options.assign && !options.skip?.has(i)) {
+      const id = freshId(seen, options.taken);
+      seen.add(id);
+      result[i] = withTodoMeta(line, { id, v: 1 });
+      added++;
+    }
+  }
+
+  return { lines: result, added, repaired };
+}
+
+/**
+ * Add the stable IDs used in a note's lines to `taken`.
+ */
+export function collectIds(lines: string[], taken: Set<string>): void {
+  for (const line of lines) {
+    const meta = parseTodoMeta(line);
+    if (meta) taken.add(meta.id);
+  }
+}
+
+function freshId(seen: Set<string>, taken?: Set<string>): string {
+  let id = generateId();
+  while (seen.has(id) || taken?.has(id)) id = generateId();
+  return id;
+}
@@ -1,52 +1,38 @@
 import { TFile } from "obsidian";
 import type { App } from "obsidian";
-import type { IndexSnapshot, IndexedTask, ParseError } from "./types";
+import type { FolderDefaults, IndexSnapshot, IndexedTask, ParseError, TaskDefaults } from "./types";
 import { fnv1a32, normalizeForMatch } from "./hash";
 import {
+  frontmatterAndCodeLines,
   parseTodoLine,
   parseTodoMeta,
   stripTodoMeta,
   isTodoLineCandidate,
 } from "./parser";
-import { parseNaturalDate, formatDateCompact } from "./dateParser";
 import type { TaskmanCache } from "./cache";
 import { CACHE_VERSION } from "./cache";
-
-/**
- * Convert simple format "todo X tomorrow" to "- [ ] X 20260105"
- * Removes the "todo" keyword and converts natural language dates to YYYYMMDD.
- */
-function normalizeToCheckboxFormat(line: string): string {
-  const trimmed = line.trim();
-
-  // Already has checkbox - check if it still has "todo" keyword to remove
-  if (/^- \[( |x|X)\]/.test(trimmed)) {
-    // Remove "todo" keyword if present
-    const withoutTodo = line.replace(/(\- \[( |x|X)\]\s+)todo\s+/i, "$1");
-    return withoutTodo;
-  }
-
-  // Simple format - starts with "todo"
-  if (/^todo\s+\S/i.test(trimmed)) {
-    // Preserve leading whitespace
-    const leadingWhitespace = line.match(/^(\s*)/)?.[1] ?? "";
-    // Remove "todo" keyword
-    const withoutTodo = trimmed.replace(/^todo\s+/i, "");
-
-    // Try to parse and convert natural language date to YYYYMMDD
-    const { date, remainingText } = parseNaturalDate(withoutTodo);
-
-    if (date) {
-      const dateStr = formatDateCompact(date);
-      return `${leadingWhitespace}- [ ] ${remainingText} ${dateStr}`;
-    }
-
-    // No date found, just convert to checkbox
-    return `${leadingWhitespace}- [ ] ${withoutTodo}`;
-  }
-
-  return line;
-}
+import { resolveDependencies } from "./dependencies";
+import { assignTaskIds } from "./ids";
+import type { IdOptions } from "./ids";
+import { headingPaths, linkSubtasks } from "./hierarchy";
+import { applyDefaults, resolveDefaults } from "./defaults";
+import { findConversions } from "./converter";
+import type { Conversion } from "./converter";
+
+export type IdPolicy = {
+  assign: boolean; // give every task a stable ID when its note is indexed
+  repair: boolean; // re-ID duplicated IDs instead of only flagging them
+  activeLine: (path: string) => number | null; // line being typed on, left alone
+  write: (path: string, options: IdOptions & { taken: Set<string> }) => Promise<boolean>; // true if written
+};
+
+export type ConversionPolicy = {
+  mode: "auto" | "suggest" | "off";
+  appliesTo: (path: string) => boolean; // notes in the conversion folders
+  declined: (path: string, line: string) => boolean; // lines the user chose to keep
+  convert: (path: string, conversions: Conversion[]) => Promise<boolean>; // true if the note was written
+  suggest: (path: string, conversions: Conversion[]) => void;
+};
 
 function isMarkdownFile(file: TFile): boolean {
   return file.extension.toLowerCase() === "md";
@@ -56,8 +42,18 @@ export class TaskIndexer {
   private app: App;
   private snapshot: IndexSnapshot;
   private errors: ParseError[] = [];
+  private dependencyErrors: ParseError[] = [];
   private fileDebounce = new Map<string, number>();
   private cache: TaskmanCache | null = null;
+  private pathFilter: (path: string) => boolean = () => true;
+  private idPolicy: IdPolicy = {
+    assign: false,
+    repair: false,
+    activeLine: () => null,
+    write: async () => false,
+  };
+  private folderDefaults: FolderDefaults[] = [];
+  private conversionPolicy: ConversionPolicy | null = null;
 
   /**
    * @param onIndexChange Called after any index mutation. Use to trigger UI rerenders.
@@ -79,7 +75,7 @@ export class TaskIndexer {
   }
 
   getErrors(): ParseError[] {
-    return this.errors.slice();
+    return [...this.errors, ...this.dependencyErrors];
   }
 
   setCache(cache: TaskmanCache | null) {
@@ -90,15 +86,86 @@ export class TaskIndexer {
     return this.cache;
   }
 
+  /**
+   * Restrict indexing to paths the filter accepts (e.g. to leave out the
+   * archive folder, or folders excluded in settings). Takes effect on the
+   * next full build.
+   */
+  setPathFilter(filter: (path: string) => boolean) {
+    this.pathFilter = filter;
+  }
+
+  /**
+   * Whether indexing adds missing stable IDs and repairs duplicated ones.
+   * Applies to notes as they are next parsed.
+   */
+  setIdPolicy(policy: IdPolicy) {
+    this.idPolicy = policy;
+  }
+
+  /**
+   * Whether "todo …" lines are rewritten as checkbox tasks, offered for
+   * review, or left alone, and where. Without a policy nothing is converted.
+   */
+  setConversionPolicy(policy: ConversionPolicy) {
+    this.conversionPolicy = policy;
+  }
+
+  /**
+   * Project, tags, contexts and priority that tasks in a folder inherit.
+   * Takes effect on the next full build.
+   */
+  setFolderDefaults(folders: FolderDefaults[]) {
+    this.folderDefaults = folders;
+  }
+
+  /**
+   * Defaults for tasks in a note, from its folders and its frontmatter.
+   * They're applied as tasks enter the index, so the cache keeps only
+   * what's written on each task line.
+   */
+  private defaultsFor(path: string): TaskDefaults {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    const frontmatter =
+      file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+    return resolveDefaults(path, this.folderDefaults, frontmatter);
+  }
+
+  /**
+   * "todo …" lines in a note that the conversion policy covers and that
+   * weren't declined (or undone) before.
+   */
+  private pendingConversions(path: string, lines: string[]): Conversion[] {
+    const policy = this.conversionPolicy;
+    if (!policy || policy.mode === "off" || !policy.appliesTo(path)) return [];
+    return findConversions(lines).filter((c) => !policy.declined(path, c.before));
+  }
+
+  /**
+   * Whether a note is indexed: a markdown file the path filter accepts,
+   * without `taskman: ignore` in its frontmatter.
+   */
+  isIndexed(file: TFile): boolean {
+    if (!isMarkdownFile(file) || !this.pathFilter(file.path)) return false;
+    const optOut = this.app.metadataCache.getFileCache(file)?.frontmatter?.["taskman"];
+    return String(optOut ?? "").toLowerCase() !== "ignore";
+  }
+
   async buildInitialIndex(
     loadFileTextHash: (file: TFile) => Promise<{ content: string; hash: string }>
   ): Promise<void> {
-    const files = this.app.vault.getMarkdownFiles();
+    const files = this.app.vault.getMarkdownFiles().filter((f) => this.isIndexed(f));
 
     if (!this.cache || this.cache.v !== CACHE_VERSION) {
       this.cache = { v: CACHE_VERSION, files: {} };
     }
 
+    // Drop notes that were deleted or are now excluded
+    const indexed = new Set(files.map((f) => f.path));
+    for (const path of Object.keys(this.cache.files)) {
+      if (!indexed.has(path)) delete this.cache.files[path];
+    }
+
     // Clear current index
     this.snapshot = {
       tasksByStableId: new Map(),
@@ -123,7 +190,7 @@ export class TaskIndexer {
     }
 
     // Single callback after full build
-    this.onIndexChange?.();
+    this.notifyIndexChange();
   }
 
   attachListeners(
@@ -132,17 +199,23 @@ export class TaskIndexer {
     const vault = this.app.vault;
 
     vault.on("modify", (file) => {
-      if (!(file instanceof TFile) || !isMarkdownFile(file)) return;
+      if (!(file instanceof TFile) || !this.isIndexed(file)) return;
       this.debouncedReindex(file, loadFileTextHash);
     });
 
     vault.on("create", (file) => {
-      if (!(file instanceof TFile) || !isMarkdownFile(file)) return;
+      if (!(file instanceof TFile) || !this.isIndexed(file)) return;
       this.debouncedReindex(file, loadFileTextHash);
     });
 
     vault.on("rename", (file, oldPath) => {
       if (!(file instanceof TFile) || !isMarkdownFile(file)) return;
+      if (!this.isIndexed(file)) {
+        // Moved out of the indexed paths
+        this.removeFile(oldPath);
+        this.notifyIndexChange();
+        return;
+      }
       this.handleRename(oldPath, file.path);
       this.debouncedReindex(file, loadFileTextHash);
     });
@@ -150,10 +223,35 @@ export class TaskIndexer {
     vault.on("delete", (file) => {
       if (!(file instanceof TFile) || !isMarkdownFile(file)) return;
       this.removeFile(file.path);
-      this.onIndexChange?.();
+      this.notifyIndexChange();
+    });
+
+    // Frontmatter defaults and `taskman: ignore` come from the metadata
+    // cache, which catches up after the file itself has changed
+    this.app.metadataCache.on("changed", (file) => {
+      if (this.isIndexed(file)) {
+        this.debouncedReindex(file, loadFileTextHash);
+      } else if (this.snapshot.fileToTaskIds.has(file.path) || this.cache?.files[file.path]) {
+        this.removeFile(file.path);
+        this.notifyIndexChange();
+      }
     });
   }
 
+  /**
+   * Recompute dependency state across the whole index, then notify listeners.
+   */
+  private notifyIndexChange() {
+    const tasks = [
+      ...this.snapshot.tasksByStableId.values(),
+      ...this.snapshot.tasksByEphemeralId.values(),
+    ];
+    this.dependencyErrors = resolveDependencies(tasks, (linkpath, sourcePath) =>
+      this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path ?? null
+    );
+    this.onIndexChange?.();
+  }
+
   private debouncedReindex(
     file: TFile,
     loadFileTextHash: (file: TFile) => Promise<{ content: string; hash: string }>
@@ -194,42 +292,51 @@ export class TaskIndexer {
     if (cached && cached.contentHash === hash) {
       cached.mtime = file.stat.mtime;
       this.applyCachedFile(cached);
-      if (fireCallback) this.onIndexChange?.();
+      if (fireCallback) this.notifyIndexChange();
       return;
     }
 
-   // Full parse
-    this.removeFile(file.path);
-
     const lines = content.split("\n");
-    let needsRewrite = false;
 
-    // Check if any lines need converting to checkbox format
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const normalized = normalizeToCheckboxFormat(line);
-      if (normalized !== line) {
-        lines[i] = normalized;
-        needsRewrite = true;
-      }
+    // Convert "todo …" lines to checkbox format, or offer to
+    const conversions = this.pendingConversions(file.path, lines);
+    if (conversions.length > 0 && this.conversionPolicy?.mode === "auto") {
+      // The editor writes them (so they can be undone); the modify will trigger another reindex
+      if (await this.conversionPolicy.convert(file.path, conversions)) return;
+    } else if (conversions.length > 0) {
+      this.conversionPolicy?.suggest(file.path, conversions);
     }
 
-    // Write back if we converted any simple format lines
-    if (needsRewrite) {
-      const newContent = lines.join("\n");
-      await this.app.vault.modify(file, newContent);
-      // Don't continue parsing - the modify will trigger another reindex
-      return;
+    // Add missing IDs and re-ID copies of tasks, if enabled
+    if (this.idPolicy.assign || this.idPolicy.repair) {
+      const taken = await this.idsTakenElsewhere(file.path, lines, loadFileTextHash);
+      const activeLine = this.idPolicy.activeLine(file.path);
+      const options = {
+        assign: this.idPolicy.assign,
+        repair: this.idPolicy.repair,
+        taken,
+        skip: new Set(activeLine === null ? [] : [activeLine]),
+      };
+      const ids = assignTaskIds(lines, options);
+      // The editor writes them through its queue; the modify will trigger another reindex
+      if ((ids.added > 0 || ids.repaired > 0) && (await this.idPolicy.write(file.path, options))) return;
     }
 
+    // Full parse. The note's old entries stay until here, so a write that triggers another
+    // reindex doesn't leave its tasks missing in between.
+    this.removeFile(file.path);
+
     const normalizedCount = new Map<string, number>();
     const tasks: IndexedTask[] = [];
     const fileErrors: ParseError[] = [];
+    const headings = headingPaths(lines);
+    // Task-like lines in code samples and frontmatter aren't tasks, as for IDs and conversion
+    const code = frontmatterAndCodeLines(lines);
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
-      if (!isTodoLineCandidate(line)) continue;
+      if (code.has(i) || !isTodoLineCandidate(line)) continue;
 
       const parsed = parseTodoLine(line);
       if (!parsed) {
@@ -261,24 +368,41 @@ export class TaskIndexer {
         title: parsed.title,
         dueRaw: parsed.dueRaw,
         dueYmd: parsed.dueYmd,
+        dueTime: parsed.dueTime,
+        startYmd: parsed.startYmd,
+        scheduledYmd: parsed.scheduledYmd,
         completedDate: meta?.done ?? null,
         priority: parsed.priority,
         tags: parsed.tags,
         contexts: parsed.contexts,
         project: parsed.project,
+        inherited: null,
         recurrence: parsed.recurrence,
+        seriesId: meta?.series ?? null,
         estimate: parsed.estimate,
         status: parsed.status,
         waitingOn: parsed.waitingOn,
         blockedBy: parsed.blockedBy,
+        dependsOn: parsed.dependsOn,
+        blockId: parsed.blockId,
+        prerequisiteIds: [],
+        blocked: parsed.status === "blocked",
+        reminders: parsed.reminders,
         lineNoHint: i,
         rawLine: line,
+        headingPath: headings[i],
         indentLevel,
+        parentId: null,
+        parentLabel: null,
+        childIds: [],
       };
       tasks.push(task);
     }
 
-    for (const t of tasks) this.addTask(t);
+    linkSubtasks(lines, tasks);
+
+    const defaults = this.defaultsFor(file.path);
+    for (const t of tasks) this.addTask(applyDefaults(t, defaults));
     for (const e of fileErrors) this.errors.push(e);
 
     // Update cache
@@ -294,48 +418,98 @@ export class TaskIndexer {
           title: t.title,
           dueRaw: t.dueRaw,
           dueYmd: t.dueYmd,
+          dueTime: t.dueTime,
+          startYmd: t.startYmd,
+          scheduledYmd: t.scheduledYmd,
           completedDate: t.completedDate,
           priority: t.priority,
           tags: t.tags,
           contexts: t.contexts,
           project: t.project,
           recurrence: t.recurrence,
+          seriesId: t.seriesId,
           estimate: t.estimate,
           status: t.status,
           waitingOn: t.waitingOn,
           blockedBy: t.blockedBy,
+          dependsOn: t.dependsOn,
+          blockId: t.blockId,
+          reminders: t.reminders,
           lineNoHint: t.lineNoHint,
           rawLine: t.rawLine,
+          headingPath: t.headingPath,
           filePath: t.filePath,
           indentLevel: t.indentLevel,
+          parentId: t.parentId,
+          parentLabel: t.parentLabel,
+          childIds: t.childIds,
         })),
         errors: fileErrors,
       };
     }
 
-    if (fireCallback) this.onIndexChange?.();
+    if (fireCallback) this.notifyIndexChange();
+  }
+
+  /**
+   * IDs in this note that another indexed note still uses. The other note is
+   * re-read first, so a task cut from it and pasted here before it was
+   * re-indexed keeps its ID.
+   */
+  private async idsTakenElsewhere(
+    path: string,
+    lines: string[],
+    loadFileTextHash: (file: TFile) => Promise<{ content: string; hash: string }>
+  ): Promise<Set<string>> {
+    const taken = new Set<string>();
+    for (const line of lines) {
+      const meta = parseTodoMeta(line);
+      const other = meta ? this.snapshot.tasksByStableId.get(meta.id) : undefined;
+      if (!meta || !other || other.filePath === path) continue;
+
+      const otherFile = this.app.vault.getAbstractFileByPath(other.filePath);
+      if (!(otherFile instanceof TFile)) continue;
+      const { content } = await loadFileTextHash(otherFile);
+      if (content.includes(`<!--todo:id=${meta.id};`)) taken.add(meta.id);
+    }
+    return taken;
   }
 
   private applyCachedFile(cached: TaskmanCache["files"][string]) {
     this.removeFile(cached.path);
+    const defaults = this.defaultsFor(cached.path);
 
     for (const t of cached.tasks) {
       const task: IndexedTask = {
         ...t,
         filePath: cached.path,
         indentLevel: t.indentLevel ?? 0,
+        headingPath: t.headingPath ?? [],
+        parentId: t.parentId ?? null,
+        parentLabel: t.parentLabel ?? null,
+        childIds: t.childIds ?? [],
+        dueTime: t.dueTime ?? null,
+        startYmd: t.startYmd ?? null,
+        scheduledYmd: t.scheduledYmd ?? null,
         completedDate: t.completedDate ?? null,
         priority: t.priority ?? 0,
         tags: t.tags ?? [],
         contexts: t.contexts ?? [],
         project: t.project ?? null,
+        inherited: null,
         recurrence: t.recurrence ?? null,
+        seriesId: t.seriesId ?? null,
         estimate: t.estimate ?? null,
         status: t.status ?? "active",
         waitingOn: t.waitingOn ?? null,
         blockedBy: t.blockedBy ?? null,
+        dependsOn: t.dependsOn ?? [],
+        blockId: t.blockId ?? null,
+        prerequisiteIds: [],
+        blocked: t.status === "blocked",
+        reminders: t.reminders ?? [],
       };
-      this.addTask(task);
+      this.addTask(applyDefaults(task, defaults));
     }
 
     for (const e of cached.errors) {
@@ -354,11 +528,12 @@ export class TaskIndexer {
         this.snapshot.tasksByStableId.set(task.stableId, task);
         fileSet.add(task.stableId);
       } else {
+        const original = this.snapshot.tasksByStableId.get(task.stableId)!;
         this.errors.push({
           filePath: task.filePath,
           lineNo: task.lineNoHint,
           line: task.rawLine,
-          reason: `Duplicate stable id: ${task.stableId}`,
+          reason: `Duplicate stable id: ${task.stableId} (also in ${original.filePath})`,
         });
         // Still index via ephemeral so task is visible
         this.snapshot.tasksByEphemeralId.set(task.ephemeralId, task);
@@ -371,8 +546,8 @@ export class TaskIndexer {
   }
 
   private removeFile(path: string) {
-    const ids = this.snapshot.fileToTaskIds.get(path);
-    if (!ids) return;
+    // A note with only errors, or no tasks at all, has no task IDs to clear
+    const ids = this.snapshot.fileToTaskIds.get(path) ?? new Set<string>();
 
     for (const id of ids) {
       // id may be stableId or ephemeralId; delete from both maps (no-op if not present)
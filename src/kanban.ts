@@ -0,0 +1,239 @@
+/**
+ * Kanban column configuration and card placement for `view: kanban`.
+ */
+
+import type { IndexedTask, KanbanColumnSpec, KanbanMove, Priority } from "./types";
+import type { TaskLookup } from "./hierarchy";
+import { effectiveStatus, waitsOnPrerequisites } from "./dependencies";
+import { formatDateYmd } from "./dateParser";
+
+export type KanbanColumn = {
+  id: string; // key for wip limits
+  label: string;
+  tasks: IndexedTask[];
+  move: KanbanMove; // applied to cards dropped here
+  wip: number | null;
+  done: boolean;
+};
+
+const DONE_LIMIT = 10;
+
+const PRIORITY_COLUMNS: { id: string; label: string; priority: Priority }[] = [
+  { id: "high", label: "🔴 High", priority: 3 },
+  { id: "medium", label: "🟠 Medium", priority: 2 },
+  { id: "low", label: "🟡 Low", priority: 1 },
+  { id: "none", label: "No priority", priority: 0 },
+];
+
+const FIELD_PREFIX = { tag: "#", context: "@", project: "+" } as const;
+
+/**
+ * Parse `columns: status`, `columns: tag:#todo,#doing` and similar.
+ */
+export function parseKanbanColumns(val: string): KanbanColumnSpec | null {
+  const idx = val.indexOf(":");
+  const field = (idx === -1 ? val : val.slice(0, idx)).trim().toLowerCase();
+  const rest = idx === -1 ? "" : val.slice(idx + 1);
+
+  if (field === "due" || field === "status" || field === "priority") {
+    return idx === -1 ? { field } : null;
+  }
+
+  if (field === "tag" || field === "context" || field === "project") {
+    const values = rest
+      .split(",")
+      .map((v) => stripPrefix(v.trim()))
+      .filter((v) => /^\w+$/.test(v));
+    // Tag and context boards need their column list; projects can be discovered
+    if (values.length === 0 && field !== "project") return null;
+    return { field, values };
+  }
+
+  return null;
+}
+
+/**
+ * Parse `wip: 3` (every column) or `wip: doing=3, review=2`.
+ */
+export function parseWipLimits(val: string): Record<string, number> | null {
+  const limits: Record<string, number> = {};
+
+  for (const part of val.split(",")) {
+    const entry = part.trim();
+    if (!entry) continue;
+
+    const m = entry.match(/^(?:([#@+]?\w+)\s*=\s*)?(\d+)$/);
+    if (!m) return null;
+    limits[m[1] ? stripPrefix(m[1]).toLowerCase() : "*"] = parseInt(m[2], 10);
+  }
+
+  return Object.keys(limits).length > 0 ? limits : null;
+}
+
+/**
+ * Sort tasks into the board's columns. Open tasks go to the field columns,
+ * checked ones to a trailing Done column.
+ */
+export function buildKanbanColumns(
+  tasks: IndexedTask[],
+  spec: KanbanColumnSpec,
+  wip: Record<string, number> | undefined,
+  today: string,
+  lookup: TaskLookup
+): KanbanColumn[] {
+  const open = tasks.filter((t) => !t.checked);
+  const columns: Omit<KanbanColumn, "wip" | "done">[] = [];
+
+  switch (spec.field) {
+    case "due": {
+      const weekFromNow = addDays(today, 7);
+      // Cards waiting on open prerequisites stay off the board until they're done
+      const active = open.filter((t) => !waitsOnPrerequisites(t, lookup));
+      columns.push(
+        {
+          id: "today",
+          label: "📅 Today",
+          tasks: active.filter((t) => !t.dueYmd || t.dueYmd <= today),
+          move: { kind: "due", date: today },
+        },
+        {
+          id: "week",
+          label: "📆 This Week",
+          tasks: active.filter((t) => t.dueYmd && t.dueYmd > today && t.dueYmd <= weekFromNow),
+          move: { kind: "due", date: weekFromNow },
+        },
+        {
+          id: "backlog",
+          label: "📋 Backlog",
+          tasks: active.filter((t) => t.dueYmd && t.dueYmd > weekFromNow),
+          move: { kind: "due", date: addDays(today, 14) },
+        }
+      );
+      break;
+    }
+
+    case "status":
+      columns.push(
+        {
+          id: "active",
+          label: "▶️ Active",
+          tasks: open.filter((t) => effectiveStatus(t) === "active"),
+          move: { kind: "status", status: "active" },
+        },
+        {
+          id: "waiting",
+          label: "⏳ Waiting",
+          tasks: open.filter((t) => effectiveStatus(t) === "waiting"),
+          move: { kind: "status", status: "waiting" },
+        },
+        {
+          id: "blocked",
+          label: "🚫 Blocked",
+          tasks: open.filter((t) => effectiveStatus(t) === "blocked"),
+          move: { kind: "status", status: "blocked" },
+        }
+      );
+      break;
+
+    case "priority":
+      for (const c of PRIORITY_COLUMNS) {
+        columns.push({
+          id: c.id,
+          label: c.label,
+          tasks: open.filter((t) => t.priority === c.priority),
+          move: { kind: "priority", priority: c.priority },
+        });
+      }
+      break;
+
+    case "tag":
+    case "context": {
+      const field = spec.field;
+      const valuesOf = (t: IndexedTask) => (field === "tag" ? t.tags : t.contexts);
+      for (const value of spec.values) {
+        columns.push({
+          id: value.toLowerCase(),
+          label: `${FIELD_PREFIX[field]}${value}`,
+          // A task carrying several column values shows in the first one
+          tasks: open.filter(
+            (t) => spec.values.find((v) => valuesOf(t).includes(v)) === value
+          ),
+          move: {
+            kind: field,
+            add: value,
+            remove: spec.values.filter((v) => v !== value),
+          },
+        });
+      }
+      break;
+    }
+
+    case "project": {
+      const listed = spec.values.length > 0;
+      const projects = listed
+        ? spec.values
+        : [...new Set(open.map((t) => t.project).filter((p): p is string => !!p))].sort();
+      for (const project of projects) {
+        columns.push({
+          id: project.toLowerCase(),
+          label: `+${project}`,
+          tasks: open.filter((t) => t.project === project),
+          move: { kind: "project", project },
+        });
+      }
+      if (!listed) {
+        columns.push({
+          id: "none",
+          label: "No project",
+          tasks: open.filter((t) => !t.project),
+          move: { kind: "project", project: null },
+        });
+      }
+      break;
+    }
+  }
+
+  const doneTasks = tasks
+    .filter((t) => t.checked && belongsToBoard(t, spec))
+    .sort((a, b) => (b.completedDate ?? "").localeCompare(a.completedDate ?? ""))
+    .slice(0, DONE_LIMIT);
+
+  return [
+    ...columns.map((c) => ({ ...c, wip: wip?.[c.id] ?? wip?.["*"] ?? null, done: false })),
+    {
+      id: "done",
+      label: "✅ Done",
+      tasks: doneTasks,
+      move: { kind: "complete" },
+      wip: null,
+      done: true,
+    },
+  ];
+}
+
+/**
+ * Whether a checked task would have had a column on this board, so a
+ * tag board's Done column only lists tasks carrying one of its tags.
+ */
+function belongsToBoard(task: IndexedTask, spec: KanbanColumnSpec): boolean {
+  switch (spec.field) {
+    case "tag":
+      return spec.values.some((v) => task.tags.includes(v));
+    case "context":
+      return spec.values.some((v) => task.contexts.includes(v));
+    case "project":
+      return spec.values.length === 0 || (!!task.project && spec.values.includes(task.project));
+    default:
+      return true;
+  }
+}
+
+function stripPrefix(value: string): string {
+  return value.replace(/^[#@+]/, "");
+}
+
+function addDays(ymd: string, days: number): string {
+  const d = new Date(ymd + "T00:00:00");
+  d.setDate(d.getDate() + days);
+  return formatDateYmd(d);
+}
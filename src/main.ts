@@ -2,6 +2,7 @@ import {
   Plugin,
   TFile,
   MarkdownRenderChild,
+  MarkdownView,
   Notice,
   type MarkdownPostProcessorContext,
 } from "obsidian";
@@ -9,9 +10,22 @@ import {
 import { TaskIndexer } from "./indexer";
 import { TaskEditor } from "./editor";
 import { parseTaskmanOptions, renderTaskmanBlock } from "./render";
-import type { TaskmanOptions, IndexedTask, StatsStore } from "./types";
+import { parseTodoLine, parseTodoMeta } from "./parser";
+import type {
+  TaskmanOptions,
+  IndexedTask,
+  BulkAction,
+  EditHistory,
+  EditOperation,
+  EditResult,
+  HeadingRef,
+  KanbanMove,
+  ParsedTodoLine,
+  StatsStore,
+  TaskPatch,
+} from "./types";
 import type { TaskmanCache } from "./cache";
-import { fnv1a32 } from "./hash";
+import { fnv1a32, normalizeForMatch } from "./hash";
 import {
   TaskmanSettingTab,
   DEFAULT_SETTINGS,
@@ -19,24 +33,77 @@ import {
 } from "./settings";
 import {
   getAllUpcomingReminders,
+  getPendingReminders,
+  prunePendingReminders,
+  computeSnoozeTime,
+  deferForQuietHours,
+  computeDigestCounts,
+  formatDigestCounts,
+  getNextDigest,
   getNextReminder,
   getMissedReminders,
-  showTaskNotification,
-  showDigestNotification,
   cleanupFiredRegistry,
+  type PendingReminder,
   type ReminderState,
+  type ScheduledReminder,
+  type SnoozeOption,
+  type DigestKind,
 } from "./reminders";
+import { showDigestNotification, showTaskNotification } from "./notifications";
+import { appendToDailyNote } from "./dailyNote";
+import { formatDateYmd } from "./dateParser";
 import {
   AddTaskModal,
   QuickCaptureModal,
   TemplatePickerModal,
   DailyPlanningModal,
   WeeklyReviewModal,
+  SeriesHistoryModal,
+  MoveTargetModal,
+  IdMigrationModal,
+  OpenSubtasksModal,
+  DeleteTasksModal,
+  ConversionPreviewModal,
 } from "./modal";
+import type { IdMigrationReport } from "./modal";
+import { collectSeriesEntries } from "./series";
+import { describeOperation } from "./history";
+import { assignTaskIds, collectIds } from "./ids";
+import { snapshotLookup, subtasksOf } from "./hierarchy";
+import { archivePathFor, isInArchive, selectTasksToArchive } from "./archive";
+import { isPathIncluded, matchesGlob } from "./pathRules";
+import { CONVERT_LABEL, findConversions } from "./converter";
+import type { Conversion } from "./converter";
 import { createDefaultStats, recordCompletion, cleanupOldStats } from "./stats";
 import { DEFAULT_TEMPLATES, parseTemplates, expandTemplate } from "./templates";
 import { generateICS, downloadICS } from "./icsExport";
 
+// Notice wording per bulk action, e.g. "Completed 3 tasks"
+const BULK_LABELS: Record<BulkAction["kind"], string> = {
+  complete: "Completed",
+  reschedule: "Rescheduled",
+  priority: "Set priority on",
+  addTag: "Tagged",
+  removeTag: "Untagged",
+  project: "Set project on",
+  move: "Moved",
+  delete: "Deleted",
+};
+
+// Notes updated between pauses by the ID migration
+const ID_MIGRATION_BATCH = 20;
+
+// "todo" lines remembered as kept, so they aren't converted or offered again
+const MAX_DECLINED_CONVERSIONS = 500;
+
+function conversionKey(path: string, line: string): string {
+  return `${path}\n${line}`;
+}
+
+function conversionMessage(count: number): string {
+  return `TaskMan: converted ${count} todo line${count === 1 ? "" : "s"} to tasks`;
+}
+
 type RenderedBlock = {
   container: HTMLElement;
   options: TaskmanOptions;
@@ -49,6 +116,9 @@ interface TaskmanData {
   reminders: ReminderState;
   stats: StatsStore;
   lastDailyPrompt?: string;
+  lastArchived?: string; // YYYY-MM-DD of the last automatic archive run
+  history?: EditHistory; // undo/redo log of task edits
+  declinedConversions?: string[]; // "todo" lines kept as written, keyed by note
 }
 
 export default class TaskManPlugin extends Plugin {
@@ -60,7 +130,12 @@ export default class TaskManPlugin extends Plugin {
   private reminderState!: ReminderState;
   private statsStore!: StatsStore;
   private reminderTimer: ReturnType<typeof setTimeout> | null = null;
+  private digestTimer: ReturnType<typeof setTimeout> | null = null;
+  private archiveTimer: ReturnType<typeof setTimeout> | null = null;
   private lastDailyPrompt?: string;
+  private lastArchived?: string;
+  private declinedConversions = new Set<string>();
+  private suggestedConversions = new Set<string>(); // "path:line" already offered this session
 
   // Helper: cached read for initial index build (fast)
   private loadFileTextHashCached = async (file: TFile) => {
@@ -79,10 +154,13 @@ export default class TaskManPlugin extends Plugin {
 
     // Load saved data
     const saved = (await this.loadData()) as TaskmanData | null;
-    this.settings = saved?.settings ?? { ...DEFAULT_SETTINGS };
-    this.reminderState = saved?.reminders ?? { fired: {} };
+    // Merge over defaults so settings added in newer versions get a value
+    this.settings = { ...DEFAULT_SETTINGS, ...saved?.settings };
+    this.reminderState = { fired: {}, pending: {}, digests: {}, ...saved?.reminders };
     this.statsStore = saved?.stats ?? createDefaultStats();
     this.lastDailyPrompt = saved?.lastDailyPrompt;
+    this.lastArchived = saved?.lastArchived;
+    this.declinedConversions = new Set(saved?.declinedConversions ?? []);
 
     // Clean up old data
     this.reminderState.fired = cleanupFiredRegistry(this.reminderState.fired);
@@ -94,10 +172,17 @@ export default class TaskManPlugin extends Plugin {
       this.rescheduleReminders();
     });
     this.editor = new TaskEditor(this.app);
+    this.editor.loadHistory(saved?.history);
 
     // Set cache from saved data
     this.indexer.setCache(saved?.cache ?? null);
 
+    // Leave the archive folder out unless archived tasks should show
+    this.indexer.setPathFilter((path) => this.isIndexedPath(path));
+    this.indexer.setFolderDefaults(this.settings.folderDefaults);
+    this.applyIdPolicy();
+    this.applyConversionPolicy();
+
     // Initial index build: cached reads for speed
     await this.indexer.buildInitialIndex(this.loadFileTextHashCached);
 
@@ -112,17 +197,14 @@ export default class TaskManPlugin extends Plugin {
       this.renderedBlocks.push(block);
 
       // Ensure cleanup when block is unloaded
-      const plugin = this;
+      const removeBlock = () => {
+        const idx = this.renderedBlocks.findIndex((b) => b.container === el);
+        if (idx !== -1) this.renderedBlocks.splice(idx, 1);
+      };
       ctx.addChild(
         new (class extends MarkdownRenderChild {
-          constructor(containerEl: HTMLElement) {
-            super(containerEl);
-          }
           onunload() {
-            const idx = plugin.renderedBlocks.findIndex(
-              (b) => b.container === this.containerEl
-            );
-            if (idx !== -1) plugin.renderedBlocks.splice(idx, 1);
+            removeBlock();
           }
         })(el)
       );
@@ -139,8 +221,10 @@ export default class TaskManPlugin extends Plugin {
     // Check for missed reminders on startup
     this.checkMissedReminders();
 
-    // Start reminder scheduler
+    // Start reminder and digest schedulers
     this.rescheduleReminders();
+    this.rescheduleDigests();
+    this.rescheduleArchive();
 
     // Check for daily planning prompt
     this.checkDailyPlanningPrompt();
@@ -157,14 +241,71 @@ export default class TaskManPlugin extends Plugin {
       id: "taskman-rebuild-index",
       name: "Rebuild index",
       callback: async () => {
-        await this.indexer.buildInitialIndex(this.loadFileTextHashCached);
-        this.rerenderAllBlocks();
-        this.rescheduleReminders();
-        await this.saveAllData();
+        await this.rebuildIndex();
         new Notice("TaskMan: Index rebuilt");
       },
     });
 
+    // Undo / redo task edits
+    this.addCommand({
+      id: "taskman-undo",
+      name: "Undo last task edit",
+      callback: () => {
+        void this.undoEdit();
+      },
+    });
+
+    this.addCommand({
+      id: "taskman-redo",
+      name: "Redo task edit",
+      callback: () => {
+        void this.redoEdit();
+      },
+    });
+
+    // Move the task under the cursor to another note
+    this.addCommand({
+      id: "taskman-move-task",
+      name: "Move task to…",
+      editorCheckCallback: (checking, editor, ctx) => {
+        const lineNo = editor.getCursor().line;
+        const task = ctx.file ? this.findTaskAtLine(ctx.file.path, lineNo, editor.getLine(lineNo)) : null;
+        if (!task) return false;
+        if (!checking) this.pickMoveTarget(task);
+        return true;
+      },
+    });
+
+    // Give every task a stable ID
+    this.addCommand({
+      id: "taskman-migrate-ids",
+      name: "Add IDs to all tasks",
+      callback: () => {
+        void this.planIdMigration();
+      },
+    });
+
+    // Review the todo lines in the current note
+    this.addCommand({
+      id: "taskman-convert-todo-lines",
+      name: "Convert todo lines in this note",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== "md") return false;
+        if (!checking) void this.reviewConversions(file);
+        return true;
+      },
+    });
+
+    // Archive completed tasks
+    this.addCommand({
+      id: "taskman-archive-completed",
+      name: "Archive completed tasks",
+      callback: () => {
+        void this.archiveCompleted(true);
+      },
+    });
+
     // Add todo (original)
     this.addCommand({
       id: "taskman-add-todo",
@@ -280,6 +421,12 @@ export default class TaskManPlugin extends Plugin {
     if (this.reminderTimer) {
       clearTimeout(this.reminderTimer);
     }
+    if (this.digestTimer) {
+      clearTimeout(this.digestTimer);
+    }
+    if (this.archiveTimer) {
+      clearTimeout(this.archiveTimer);
+    }
     await this.saveAllData();
     console.log("TaskMan: Plugin unloaded");
   }
@@ -295,10 +442,199 @@ export default class TaskManPlugin extends Plugin {
       reminders: this.reminderState,
       stats: this.statsStore,
       lastDailyPrompt: this.lastDailyPrompt,
+      lastArchived: this.lastArchived,
+      history: this.editor.getHistory(),
+      declinedConversions: [...this.declinedConversions],
     };
     await this.saveData(data);
   }
 
+  /**
+   * Apply the include/exclude patterns, and leave the archive folder out
+   * unless archived tasks should show.
+   */
+  private isIndexedPath(path: string): boolean {
+    const rules = { include: this.settings.indexInclude, exclude: this.settings.indexExclude };
+    if (!isPathIncluded(path, rules)) return false;
+    return this.settings.indexArchive || !isInArchive(path, this.settings.archiveFolder);
+  }
+
+  /**
+   * Apply the task ID settings to the indexer. The line under the cursor is
+   * left alone so a task isn't rewritten while it's being typed.
+   */
+  applyIdPolicy() {
+    this.indexer.setIdPolicy({
+      assign: this.settings.autoAssignIds,
+      repair: this.settings.repairDuplicateIds,
+      activeLine: (path) => {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        return view?.file?.path === path ? view.editor.getCursor().line : null;
+      },
+      write: async (path, options) => {
+        const result = await this.editor.assignIds(path, options);
+        return result.added > 0 || result.repaired > 0;
+      },
+    });
+  }
+
+  /**
+   * Apply the todo conversion settings to the indexer. Conversions are
+   * written by the editor, so each note's is an undoable edit.
+   */
+  applyConversionPolicy() {
+    this.indexer.setConversionPolicy({
+      mode: this.settings.todoConversion,
+      appliesTo: (path) => {
+        const folders = this.settings.todoConversionFolders;
+        return folders.length === 0 || folders.some((p) => matchesGlob(path, p));
+      },
+      declined: (path, line) => this.declinedConversions.has(conversionKey(path, line)),
+      convert: async (path, conversions) => {
+        const result = await this.editor.convertTodoLines(path, conversions);
+        if (result.converted === 0) return false;
+        this.showUndoNotice(conversionMessage(result.converted), result.operationId);
+        return true;
+      },
+      suggest: (path, conversions) => this.suggestConversions(path, conversions),
+    });
+  }
+
+  /**
+   * Offer to convert todo lines in the note being edited. Each line is
+   * offered once a session; other notes wait for the command.
+   */
+  private suggestConversions(path: string, conversions: Conversion[]) {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.path !== path) return;
+
+    const fresh = conversions.filter((c) => !this.suggestedConversions.has(`${path}:${c.line}`));
+    if (fresh.length === 0) return;
+    for (const c of fresh) this.suggestedConversions.add(`${path}:${c.line}`);
+
+    const n = conversions.length;
+    this.noticeWithButton(
+      `TaskMan: ${n} todo line${n === 1 ? "" : "s"} in this note can become tasks.`,
+      "Review",
+      () => this.reviewConversions(file)
+    );
+  }
+
+  /**
+   * Preview every todo line in a note, wherever conversion applies, and
+   * convert the ones kept checked. Unchecked lines aren't offered again.
+   */
+  private async reviewConversions(file: TFile) {
+    const conversions = findConversions((await this.app.vault.read(file)).split("\n"));
+    if (conversions.length === 0) {
+      new Notice("TaskMan: no todo lines to convert in this note");
+      return;
+    }
+
+    new ConversionPreviewModal(this.app, file.path, conversions, (accepted, declined) => {
+      void this.applyReviewedConversions(file.path, accepted, declined);
+    }).open();
+  }
+
+  private async applyReviewedConversions(path: string, accepted: Conversion[], declined: Conversion[]) {
+    for (const c of accepted) this.declinedConversions.delete(conversionKey(path, c.before));
+    this.declineConversions(path, declined.map((c) => c.before));
+
+    if (accepted.length > 0) {
+      const result = await this.editor.convertTodoLines(path, accepted);
+      if (!result.success) new Notice(`TaskMan: conversion failed. ${result.error ?? ""}`.trim());
+      else this.showUndoNotice(conversionMessage(result.converted), result.operationId);
+    }
+    await this.saveAllData();
+  }
+
+  private declineConversions(path: string, lines: string[]) {
+    for (const line of lines) this.declinedConversions.add(conversionKey(path, line));
+    // Drop the oldest once there are too many
+    const kept = [...this.declinedConversions].slice(-MAX_DECLINED_CONVERSIONS);
+    this.declinedConversions = new Set(kept);
+  }
+
+  /**
+   * Dry run of the ID migration: which notes have tasks without an ID or
+   * with a duplicate one. Nothing is written until the report is confirmed.
+   */
+  private async planIdMigration() {
+    const files = this.app.vault.getMarkdownFiles().filter((f) => this.indexer.isIndexed(f));
+    const taken = new Set<string>();
+    const report: IdMigrationReport = { files: [], scanned: files.length };
+
+    for (const file of files) {
+      const content = await this.app.vault.cachedRead(file);
+      const { lines, added, repaired } = assignTaskIds(content.split("\n"), {
+        assign: true,
+        repair: true,
+        taken,
+      });
+      collectIds(lines, taken);
+      if (added > 0 || repaired > 0) report.files.push({ path: file.path, added, repaired });
+    }
+
+    new IdMigrationModal(this.app, report, () => {
+      void this.runIdMigration(files, new Set(report.files.map((f) => f.path)));
+    }).open();
+  }
+
+  /**
+   * Add IDs note by note, a batch at a time, so a large vault doesn't stall
+   * the app. Notes are walked in the same order as the dry run, and the IDs
+   * of notes that don't change are read from them the same way, so which
+   * copy of a duplicate keeps its ID matches the report.
+   */
+  private async runIdMigration(files: TFile[], changing: Set<string>) {
+    const taken = new Set<string>();
+    const progress = new Notice("TaskMan: adding task IDs…", 0);
+    let added = 0;
+    let repaired = 0;
+    let done = 0;
+    const failed: string[] = [];
+
+    for (const file of files) {
+      if (!changing.has(file.path)) {
+        collectIds((await this.app.vault.cachedRead(file)).split("\n"), taken);
+        continue;
+      }
+
+      const result = await this.editor.assignIds(file.path, { assign: true, repair: true, taken });
+      if (!result.success) failed.push(file.path);
+      added += result.added;
+      repaired += result.repaired;
+
+      done++;
+      if (done % ID_MIGRATION_BATCH === 0 || done === changing.size) {
+        progress.setMessage(`TaskMan: adding task IDs… ${done}/${changing.size} notes`);
+        // Let the app breathe between batches
+        await new Promise((resolve) => window.setTimeout(resolve, 50));
+      }
+    }
+
+    progress.hide();
+    new Notice(
+      `TaskMan: added ${added} IDs and repaired ${repaired} duplicates` +
+        (failed.length > 0 ? `; couldn't update ${failed.join(", ")}` : "")
+    );
+  }
+
+  /**
+   * Re-index with the folder defaults from settings.
+   */
+  async applyFolderDefaults() {
+    this.indexer.setFolderDefaults(this.settings.folderDefaults);
+    await this.rebuildIndex();
+  }
+
+  async rebuildIndex() {
+    await this.indexer.buildInitialIndex(this.loadFileTextHashCached);
+    this.rerenderAllBlocks();
+    this.rescheduleReminders();
+    await this.saveAllData();
+  }
+
   private renderBlock(container: HTMLElement, options: TaskmanOptions) {
     renderTaskmanBlock({
       app: this.app,
@@ -309,6 +645,12 @@ export default class TaskManPlugin extends Plugin {
       stats: this.statsStore,
       onToggle: (task) => void this.handleToggle(task),
       onReschedule: (task, newDate) => void this.handleReschedule(task, newDate),
+      onSkip: (task) => void this.handleSkip(task),
+      onMoveToNote: (task) => this.pickMoveTarget(task),
+      onUpdate: (task, patch) => void this.handleUpdate(task, patch),
+      onShowHistory: (task) => void this.showSeriesHistory(task),
+      onMove: (task, move) => void this.handleMove(task, move),
+      onBulk: (tasks, action) => this.handleBulk(tasks, action),
     });
   }
 
@@ -318,12 +660,31 @@ export default class TaskManPlugin extends Plugin {
     }
   }
 
-  private async handleToggle(task: IndexedTask) {
+  private async handleToggle(task: IndexedTask, confirmed = false) {
     const wasChecked = task.checked;
-    const result = await this.editor.toggleTask(task);
+
+    if (!wasChecked && !confirmed && this.settings.warnOpenSubtasks) {
+      const lookup = snapshotLookup(this.indexer.getSnapshot());
+      const open = subtasksOf(task, lookup).filter((t) => !t.checked);
+      if (open.length > 0) {
+        new OpenSubtasksModal(this.app, task.title, open, () => {
+          void this.handleToggle(task, true);
+        }).open();
+        return;
+      }
+    }
+
+    const result = await this.editor.toggleTask(task, {
+      collapseHistory: this.settings.collapseSeriesHistory,
+      completeParents: this.settings.autoCompleteParents,
+    });
 
     if (!result.success) {
-      new Notice(`TaskMan: toggle failed. ${result.error ?? ""}`.trim());
+      this.reportEditFailure("toggle", task, result, async (fresh) => {
+        // Done (or undone) by hand in the meantime
+        if (fresh.checked !== task.checked) new Notice("TaskMan: task is already updated");
+        else await this.handleToggle(fresh, true);
+      });
       return;
     }
 
@@ -338,53 +699,375 @@ export default class TaskManPlugin extends Plugin {
       await this.saveAllData();
     }
 
-    // Show undo notice
     const action = wasChecked ? "unchecked" : "completed";
+    this.showUndoNotice(
+      `Task ${action}: "${task.title.slice(0, 30)}${task.title.length > 30 ? "..." : ""}"`,
+      result.operationId
+    );
+  }
+
+  /**
+   * Notice with an Undo button for an edit, shown for 15 seconds.
+   */
+  private showUndoNotice(message: string, operationId: number | undefined) {
+    if (operationId === undefined) {
+      new Notice(message);
+      return;
+    }
+    this.noticeWithButton(message, "Undo", () => this.undoEdit(operationId));
+  }
+
+  /**
+   * Explain why an edit to a task wasn't written. When the note may simply
+   * have changed since it was indexed, offer to re-index it and try again.
+   */
+  private reportEditFailure(
+    action: string,
+    task: IndexedTask,
+    result: EditResult,
+    retry: (fresh: IndexedTask) => Promise<void>
+  ) {
+    if (result.status === "error") {
+      new Notice(`TaskMan: ${action} failed. ${result.error ?? ""}`.trim());
+      return;
+    }
+
+    const message = `TaskMan: couldn't ${action}. ${result.error ?? ""}`.trim();
+    this.noticeWithButton(message, "Re-index and retry", async () => {
+      const fresh = await this.refreshTask(task);
+      if (fresh) await retry(fresh);
+      else new Notice("TaskMan: the task is no longer in its note");
+    });
+  }
+
+  /**
+   * Notice with a one-shot action button, shown for 15 seconds.
+   */
+  private noticeWithButton(message: string, label: string, onClick: () => Promise<void>) {
     const fragment = document.createDocumentFragment();
-    fragment.appendText(`Task ${action}: "${task.title.slice(0, 30)}${task.title.length > 30 ? "..." : ""}" `);
-
-    const undoBtn = document.createElement("button");
-    undoBtn.textContent = "Undo";
-    undoBtn.className = "mod-warning";
-    undoBtn.style.marginLeft = "8px";
-    undoBtn.style.cursor = "pointer";
-
-    let undoClicked = false;
-    undoBtn.addEventListener("click", async () => {
-      if (undoClicked) return;
-      undoClicked = true;
-
-      // Toggle back
-      const undoResult = await this.editor.toggleTask({
-        ...task,
-        checked: !wasChecked, // Now it's the opposite, so toggle back
-      });
+    fragment.appendText(`${message} `);
+
+    const btn = document.createElement("button");
+    btn.textContent = label;
+    btn.className = "mod-warning";
+    btn.style.marginLeft = "8px";
+    btn.style.cursor = "pointer";
+
+    let clicked = false;
+    btn.addEventListener("click", () => {
+      if (clicked) return;
+      clicked = true;
+      void onClick();
+    });
 
-      if (undoResult.success) {
-        new Notice("Undone!");
-        const file = this.app.vault.getAbstractFileByPath(task.filePath);
-        if (file instanceof TFile) {
-          await this.indexer.reindexFile(file, this.loadFileTextHashFresh);
-          await this.saveAllData();
-        }
-      } else {
-        new Notice("Undo failed");
+    fragment.appendChild(btn);
+    new Notice(fragment, 15000);
+  }
+
+  /**
+   * Re-index a task's note and look the task up again: by stable ID, or for
+   * an untagged task, the one with the same text on the same line (or the
+   * only one with that text).
+   */
+  private async refreshTask(task: IndexedTask): Promise<IndexedTask | null> {
+    const f = this.app.vault.getAbstractFileByPath(task.filePath);
+    if (!(f instanceof TFile)) return null;
+    await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+
+    const snapshot = this.indexer.getSnapshot();
+    if (task.stableId) return snapshot.tasksByStableId.get(task.stableId) ?? null;
+
+    const text = normalizeForMatch(task.rawLine);
+    const sameText = [...(snapshot.fileToTaskIds.get(task.filePath) ?? [])]
+      .map((key) => snapshot.tasksByEphemeralId.get(key))
+      .filter((t): t is IndexedTask => !!t && normalizeForMatch(t.rawLine) === text);
+    const onSameLine = sameText.find((t) => t.lineNoHint === task.lineNoHint);
+    return onSameLine ?? (sameText.length === 1 ? sameText[0] : null);
+  }
+
+  private async undoEdit(operationId?: number) {
+    const result = await this.editor.undo(operationId);
+    if (!result.success) {
+      this.reportRefusedReplay("undo", result);
+      return;
+    }
+    new Notice(`Undone: ${describeOperation(result.operation!)}`);
+    // An undone conversion stays as written instead of being converted again
+    if (result.operation!.label === CONVERT_LABEL) {
+      for (const c of result.operation!.changes) {
+        this.declineConversions(c.path, c.before.filter((l) => !c.after.includes(l)));
+      }
+    }
+    await this.reindexAfterReplay(result.operation);
+  }
+
+  private async redoEdit() {
+    const result = await this.editor.redo();
+    if (!result.success) {
+      this.reportRefusedReplay("redo", result);
+      return;
+    }
+    new Notice(`Redone: ${describeOperation(result.operation!)}`);
+    if (result.operation!.label === CONVERT_LABEL) {
+      for (const c of result.operation!.changes) {
+        for (const line of c.before) this.declinedConversions.delete(conversionKey(c.path, line));
+      }
+    }
+    await this.reindexAfterReplay(result.operation);
+  }
+
+  /**
+   * Say why an undo or redo was refused. An edit whose lines changed by hand
+   * stays in the log: restore them and try again, or discard it to reach the
+   * edits below.
+   */
+  private reportRefusedReplay(
+    direction: "undo" | "redo",
+    result: { operation?: EditOperation; error?: string }
+  ) {
+    const op = result.operation;
+    if (!op) {
+      new Notice(`TaskMan: can't ${direction}. ${result.error ?? ""}`.trim());
+      return;
+    }
+    const message =
+      `TaskMan: can't ${direction} ${describeOperation(op)}: ${result.error ?? "its lines changed"}. ` +
+      `Restore the line and ${direction} again, or discard this edit from the log.`;
+    this.noticeWithButton(message, "Discard", async () => {
+      if (this.editor.discard(direction, op.id)) {
+        new Notice(`Discarded: ${describeOperation(op)}`);
+        await this.saveAllData();
       }
     });
+  }
 
-    fragment.appendChild(undoBtn);
-    new Notice(fragment, 15000);
+  /**
+   * Reindex the notes an undone or redone edit touched and save the log.
+   */
+  private async reindexAfterReplay(operation: EditOperation | undefined) {
+    for (const path of new Set(operation?.changes.map((c) => c.path))) {
+      const f = this.app.vault.getAbstractFileByPath(path);
+      if (f instanceof TFile) await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+    }
+    await this.saveAllData();
   }
 
   private async handleReschedule(task: IndexedTask, newDate: string) {
     const result = await this.editor.rescheduleTask(task, newDate);
 
     if (!result.success) {
-      new Notice(`TaskMan: reschedule failed. ${result.error ?? ""}`.trim());
+      this.reportEditFailure("reschedule", task, result, (fresh) => this.handleReschedule(fresh, newDate));
+      return;
+    }
+
+    this.showUndoNotice(`Rescheduled to ${newDate}`, result.operationId);
+
+    const f = this.app.vault.getAbstractFileByPath(task.filePath);
+    if (f instanceof TFile) {
+      await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+      await this.saveAllData();
+    }
+  }
+
+  private async handleUpdate(task: IndexedTask, patch: TaskPatch) {
+    const result = await this.editor.updateTask(task, patch);
+
+    if (!result.success) {
+      this.reportEditFailure("update", task, result, (fresh) => this.handleUpdate(fresh, patch));
+      return;
+    }
+
+    const f = this.app.vault.getAbstractFileByPath(task.filePath);
+    if (f instanceof TFile) {
+      await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+      await this.saveAllData();
+    }
+  }
+
+  private async handleSkip(task: IndexedTask) {
+    const result = await this.editor.skipOccurrence(task);
+
+    if (!result.success) {
+      this.reportEditFailure("skip", task, result, (fresh) => this.handleSkip(fresh));
+      return;
+    }
+
+    this.showUndoNotice(`Skipped to ${result.nextDate}`, result.operationId);
+
+    const f = this.app.vault.getAbstractFileByPath(task.filePath);
+    if (f instanceof TFile) {
+      await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+      await this.saveAllData();
+    }
+  }
+
+  /**
+   * Open the history of the recurring series a task belongs to. Collapsed
+   * history lines are read from every file holding an instance.
+   */
+  private async showSeriesHistory(task: IndexedTask) {
+    const snapshot = this.indexer.getSnapshot();
+    const tasks = [...snapshot.tasksByStableId.values(), ...snapshot.tasksByEphemeralId.values()];
+    const series = task.seriesId;
+    const instances = series ? tasks.filter((t) => t.seriesId === series) : [task];
+
+    const contents: string[] = [];
+    for (const path of new Set(instances.map((t) => t.filePath))) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) contents.push(await this.app.vault.cachedRead(file));
+    }
+
+    const upcoming = instances
+      .filter((t) => !t.checked && t.dueYmd)
+      .map((t) => t.dueYmd!)
+      .sort()[0];
+
+    new SeriesHistoryModal(this.app, {
+      title: task.title,
+      entries: series ? collectSeriesEntries(tasks, series, contents) : [],
+      upcoming: upcoming ?? null,
+    }).open();
+  }
+
+  /**
+   * The indexed task on a line of a note, by stable ID or line number.
+   */
+  private findTaskAtLine(filePath: string, lineNo: number, line: string): IndexedTask | null {
+    const snapshot = this.indexer.getSnapshot();
+    const meta = parseTodoMeta(line);
+    if (meta) return snapshot.tasksByStableId.get(meta.id) ?? null;
+
+    for (const key of snapshot.fileToTaskIds.get(filePath) ?? []) {
+      const task = snapshot.tasksByStableId.get(key) ?? snapshot.tasksByEphemeralId.get(key);
+      if (task?.filePath === filePath && task.lineNoHint === lineNo) return task;
+    }
+    return null;
+  }
+
+  private pickMoveTarget(task: IndexedTask) {
+    new MoveTargetModal(this.app, (file, heading) => {
+      void this.handleMoveToNote(task, file.path, heading);
+    }).open();
+  }
+
+  private async handleMoveToNote(task: IndexedTask, targetPath: string, heading: HeadingRef | null) {
+    const result = await this.editor.moveTaskToNote(task, targetPath, heading);
+
+    if (!result.success) {
+      this.reportEditFailure("move", task, result, (fresh) =>
+        this.handleMoveToNote(fresh, targetPath, heading)
+      );
+      return;
+    }
+
+    this.showUndoNotice(
+      `Moved to ${heading ? `${targetPath} › ${heading.text}` : targetPath}`,
+      result.operationId
+    );
+
+    for (const path of new Set([task.filePath, targetPath])) {
+      const f = this.app.vault.getAbstractFileByPath(path);
+      if (f instanceof TFile) await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+    }
+    await this.saveAllData();
+  }
+
+  private handleBulk(tasks: IndexedTask[], action: BulkAction) {
+    if (action.kind === "move") {
+      new MoveTargetModal(this.app, (file, heading) => {
+        void this.applyBulk(tasks, action, file.path, heading);
+      }).open();
       return;
     }
+    if (action.kind === "delete") {
+      void this.confirmBulkDelete(tasks, action);
+      return;
+    }
+    void this.applyBulk(tasks, action);
+  }
 
-    new Notice(`Rescheduled to ${newDate}`);
+  private async confirmBulkDelete(tasks: IndexedTask[], action: BulkAction) {
+    const counts = await this.editor.countDeletion(tasks);
+    if (counts.tasks === 0) {
+      new Notice("TaskMan: the selected tasks changed since the last index. Nothing was deleted.");
+      return;
+    }
+    new DeleteTasksModal(this.app, counts, () => void this.applyBulk(tasks, action)).open();
+  }
+
+  /**
+   * Run a bulk action, then offer to undo the whole batch at once.
+   */
+  private async applyBulk(
+    tasks: IndexedTask[],
+    action: BulkAction,
+    targetPath?: string,
+    heading: HeadingRef | null = null
+  ) {
+    let result;
+    if (action.kind === "move") {
+      if (!targetPath) return;
+      result = await this.editor.moveTasksToNote(tasks, targetPath, heading);
+    } else {
+      result = await this.editor.bulkEdit(tasks, action, {
+        collapseHistory: this.settings.collapseSeriesHistory,
+        completeParents: this.settings.autoCompleteParents,
+      });
+    }
+
+    if (!result.success) {
+      new Notice(`TaskMan: bulk edit failed. ${result.error ?? ""}`.trim());
+    }
+
+    const count = "moved" in result ? result.moved : result.changed;
+    if (action.kind === "complete" && this.settings.statsEnabled) {
+      for (let i = 0; i < count; i++) this.statsStore = recordCompletion(this.statsStore);
+    }
+
+    for (const path of new Set([...tasks.map((t) => t.filePath), ...(targetPath ? [targetPath] : [])])) {
+      const f = this.app.vault.getAbstractFileByPath(path);
+      if (f instanceof TFile) await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+    }
+    await this.saveAllData();
+
+    // One undo for the whole batch
+    if (count > 0) {
+      const message = `${BULK_LABELS[action.kind]} ${count} task${count === 1 ? "" : "s"}`;
+      this.showUndoNotice(message, result.operationId);
+    } else if (result.success && (action.kind === "removeTag" || (action.kind === "project" && !action.project))) {
+      new Notice("TaskMan: nothing changed. Tags and projects a task inherits can't be removed from it.");
+    }
+
+    const skipped = result.skipped;
+    if (skipped.length > 0) {
+      const n = skipped.length;
+      this.noticeWithButton(
+        `TaskMan: skipped ${n} task${n === 1 ? "" : "s"} that changed since the last index.`,
+        "Re-index and retry",
+        async () => {
+          const fresh: IndexedTask[] = [];
+          for (const { task } of skipped) {
+            const t = await this.refreshTask(task);
+            if (t) fresh.push(t);
+          }
+          if (fresh.length > 0) await this.applyBulk(fresh, action, targetPath, heading);
+        }
+      );
+    }
+  }
+
+  private async handleMove(task: IndexedTask, move: KanbanMove) {
+    if (move.kind === "complete") {
+      if (!task.checked) await this.handleToggle(task);
+      return;
+    }
+
+    const result = await this.editor.moveTask(task, move);
+
+    if (!result.success) {
+      this.reportEditFailure("move", task, result, (fresh) => this.handleMove(fresh, move));
+      return;
+    }
 
     const f = this.app.vault.getAbstractFileByPath(task.filePath);
     if (f instanceof TFile) {
@@ -397,26 +1080,24 @@ export default class TaskManPlugin extends Plugin {
 
   private showAddTaskModal() {
     const modal = new AddTaskModal(this.app, async (title, dueDate) => {
-      await this.addTaskToDestination(title, dueDate);
+      const task = parseTodoLine(`- [ ] ${title}`);
+      if (!task) {
+        new Notice("Please enter a task title");
+        return;
+      }
+      await this.addTaskToDestination({ ...task, dueYmd: dueDate, dueRaw: dueDate.replace(/-/g, "") });
     });
     modal.open();
   }
 
   private showQuickCaptureModal() {
-    const modal = new QuickCaptureModal(
-      this.app,
-      async (title, dueDate, priority, tags) => {
-        await this.addTaskToDestination(title, dueDate, { priority, tags });
-      }
-    );
+    const modal = new QuickCaptureModal(this.app, async (task) => {
+      await this.addTaskToDestination(task);
+    });
     modal.open();
   }
 
-  private async addTaskToDestination(
-    title: string,
-    dueDate: string | null,
-    options?: { priority?: number; tags?: string[]; project?: string }
-  ) {
+  private async addTaskToDestination(task: ParsedTodoLine) {
     // Determine destination file
     let file = this.app.workspace.getActiveFile();
 
@@ -437,30 +1118,12 @@ export default class TaskManPlugin extends Plugin {
       await this.app.workspace.openLinkText(file.path, "", false);
     }
 
-    // Build task line
-    let line = `- [ ] `;
-    if (options?.priority && options.priority > 0) {
-      line += "!".repeat(options.priority) + " ";
-    }
-    line += title;
-    if (options?.tags) {
-      for (const tag of options.tags) {
-        line += ` #${tag}`;
-      }
-    }
-    if (options?.project) {
-      line += ` +${options.project}`;
-    }
-    if (dueDate) {
-      const dateCompact = dueDate.replace(/-/g, "");
-      line += ` ${dateCompact}`;
+    const result = await this.editor.appendTask(file.path, task);
+    if (!result.success) {
+      new Notice(`TaskMan: couldn't add the task. ${result.error ?? ""}`.trim());
+      return;
     }
-
-    // Append to file
-    const content = await this.app.vault.read(file);
-    await this.app.vault.modify(file, content.trimEnd() + "\n" + line + "\n");
-
-    new Notice(`Added: ${title}`);
+    this.showUndoNotice(`Added: ${task.title}`, result.operationId);
   }
 
   private async showTemplatePickerModal() {
@@ -597,7 +1260,7 @@ export default class TaskManPlugin extends Plugin {
       ...snapshot.tasksByEphemeralId.values(),
     ];
 
-    const tasksWithDates = allTasks.filter((t) => t.dueYmd);
+    const tasksWithDates = allTasks.filter((t) => t.dueYmd || t.startYmd);
 
     if (tasksWithDates.length === 0) {
       new Notice("No tasks with dates to export");
@@ -619,19 +1282,7 @@ export default class TaskManPlugin extends Plugin {
 
     if (!this.settings.remindersEnabled) return;
 
-    const snapshot = this.indexer.getSnapshot();
-    const allTasks: IndexedTask[] = [
-      ...snapshot.tasksByStableId.values(),
-      ...snapshot.tasksByEphemeralId.values(),
-    ];
-
-    const firedKeys = new Set(Object.keys(this.reminderState.fired));
-
-    const reminders = getAllUpcomingReminders(
-      allTasks,
-      this.settings,
-      firedKeys
-    );
+    const reminders = this.collectReminders();
 
     const next = getNextReminder(reminders);
     if (!next) return;
@@ -649,35 +1300,117 @@ export default class TaskManPlugin extends Plugin {
     }, delay);
   }
 
-  private fireReminder(reminder: { task: IndexedTask; key: string }) {
-    showTaskNotification(
-      reminder.task,
-      this.settings.useSystemNotifications,
-      "Reminder"
+  /**
+   * Reminders from task lines plus pending snoozes and nags, moved out of
+   * quiet hours and sorted by time.
+   */
+  private collectReminders(): ScheduledReminder[] {
+    const snapshot = this.indexer.getSnapshot();
+    const allTasks: IndexedTask[] = [
+      ...snapshot.tasksByStableId.values(),
+      ...snapshot.tasksByEphemeralId.values(),
+    ];
+
+    this.reminderState.pending = prunePendingReminders(
+      this.reminderState.pending,
+      allTasks,
+      Date.now() - this.settings.missedReminderWindowHours * 60 * 60 * 1000
     );
 
+    const firedKeys = new Set(Object.keys(this.reminderState.fired));
+
+    const reminders = [
+      ...getAllUpcomingReminders(allTasks, this.settings, firedKeys),
+      ...getPendingReminders(allTasks, this.reminderState.pending),
+    ].map((r) => ({ ...r, fireAt: deferForQuietHours(r.fireAt, r.task, this.settings) }));
+    reminders.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+
+    return reminders;
+  }
+
+  private fireReminder(reminder: ScheduledReminder) {
+    const prefix = reminder.pending === "snooze" ? "Snoozed" : "Reminder";
+    this.notifyReminder(reminder, prefix);
+
     this.reminderState.fired[reminder.key] = Date.now();
     void this.saveAllData();
 
     this.rescheduleReminders();
   }
 
-  private checkMissedReminders() {
-    if (!this.settings.remindersEnabled) return;
+  /**
+   * Show a reminder with its actions and arm the nag for high-priority tasks.
+   */
+  private notifyReminder(reminder: ScheduledReminder, prefix: string) {
+    const { task } = reminder;
+
+    delete this.reminderState.pending[task.stableId || task.ephemeralId];
+    if (this.settings.nagHighPriority && task.priority === 3) {
+      void this.setPendingReminder(task, {
+        fireAt: Date.now() + this.settings.nagIntervalMinutes * 60 * 1000,
+        kind: "nag",
+      });
+    }
 
-    const snapshot = this.indexer.getSnapshot();
-    const allTasks: IndexedTask[] = [
-      ...snapshot.tasksByStableId.values(),
-      ...snapshot.tasksByEphemeralId.values(),
-    ];
+    showTaskNotification(task, this.settings.useSystemNotifications, prefix, {
+      onSnooze: (option) => void this.snoozeReminder(task, option),
+      onComplete: () => {
+        this.acknowledgeReminder(task);
+        if (!task.checked) void this.handleToggle(task);
+      },
+      onOpen: () => {
+        this.acknowledgeReminder(task);
+        void this.app.workspace.openLinkText("", task.filePath, false, {
+          eState: { line: task.lineNoHint },
+        });
+      },
+    });
+  }
 
-    const firedKeys = new Set(Object.keys(this.reminderState.fired));
+  private async snoozeReminder(task: IndexedTask, option: SnoozeOption) {
+    const until = computeSnoozeTime(option, this.settings);
+    await this.setPendingReminder(task, { fireAt: until.getTime(), kind: "snooze" });
 
-    const reminders = getAllUpcomingReminders(
-      allTasks,
-      this.settings,
-      firedKeys
-    );
+    new Notice(`Snoozed until ${until.toLocaleString([], { dateStyle: "short", timeStyle: "short" })}`);
+  }
+
+  /**
+   * Keep a snooze or nag for a task under its stable ID, adding one to the
+   * task if it has none: the ephemeral ID changes with any edit to the line.
+   */
+  private async setPendingReminder(task: IndexedTask, pending: PendingReminder) {
+    let taskId = task.stableId;
+    if (!taskId) {
+      const result = await this.editor.ensureStableId(task);
+      taskId = result.stableId ?? task.ephemeralId;
+      // Re-index now, so the task is found under its new ID before pending reminders are pruned
+      const f = this.app.vault.getAbstractFileByPath(task.filePath);
+      if (result.stableId && f instanceof TFile) {
+        await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+      }
+    }
+
+    this.reminderState.pending[taskId] = pending;
+    await this.saveAllData();
+    this.rescheduleReminders();
+  }
+
+  /**
+   * Stop any nag for the task. Snoozes are replaced by the action itself.
+   */
+  private acknowledgeReminder(task: IndexedTask) {
+    const taskId = task.stableId || task.ephemeralId;
+    if (this.reminderState.pending[taskId]?.kind !== "nag") return;
+
+    delete this.reminderState.pending[taskId];
+    void this.saveAllData();
+    this.rescheduleReminders();
+  }
+
+  private checkMissedReminders() {
+    if (!this.settings.remindersEnabled) return;
+
+    const reminders = this.collectReminders();
 
     const missed = getMissedReminders(
       reminders,
@@ -689,20 +1422,127 @@ export default class TaskManPlugin extends Plugin {
     for (const r of missed) {
       this.reminderState.fired[r.key] = Date.now();
     }
-    void this.saveAllData();
 
     if (missed.length <= this.settings.missedDigestThreshold) {
       for (const r of missed) {
-        showTaskNotification(
-          r.task,
-          this.settings.useSystemNotifications,
-          "Missed"
-        );
+        this.notifyReminder(r, "Missed");
       }
     } else {
+      for (const r of missed) {
+        delete this.reminderState.pending[r.task.stableId || r.task.ephemeralId];
+      }
       const tasks = missed.map((r) => r.task);
       showDigestNotification(tasks, this.settings.useSystemNotifications);
     }
+    void this.saveAllData();
+  }
+
+  rescheduleDigests() {
+    if (this.digestTimer) {
+      clearTimeout(this.digestTimer);
+      this.digestTimer = null;
+    }
+
+    const next = getNextDigest(this.settings, this.reminderState.digests);
+    if (!next) return;
+
+    // Long timeouts overflow; wake up daily and re-check if needed
+    const delay = Math.min(next.fireAt.getTime() - Date.now(), 24 * 60 * 60 * 1000);
+
+    this.digestTimer = setTimeout(() => {
+      if (Date.now() >= next.fireAt.getTime()) {
+        void this.showDigest(next.kind);
+      } else {
+        this.rescheduleDigests();
+      }
+    }, Math.max(0, delay));
+  }
+
+  /**
+   * Run the automatic archive once a day, checking again after midnight.
+   */
+  rescheduleArchive() {
+    if (this.archiveTimer) {
+      clearTimeout(this.archiveTimer);
+      this.archiveTimer = null;
+    }
+    if (!this.settings.autoArchive) return;
+
+    const today = formatDateYmd(new Date());
+    if (this.lastArchived !== today) {
+      this.lastArchived = today;
+      void this.archiveCompleted(false);
+    }
+
+    const tomorrow = new Date();
+    tomorrow.setHours(24, 1, 0, 0);
+    this.archiveTimer = setTimeout(() => this.rescheduleArchive(), tomorrow.getTime() - Date.now());
+  }
+
+  /**
+   * Move tasks completed more than the configured number of days ago into
+   * the archive. The command reports a result even when nothing was moved.
+   */
+  private async archiveCompleted(manual: boolean) {
+    const snapshot = this.indexer.getSnapshot();
+    const allTasks = [...snapshot.tasksByStableId.values(), ...snapshot.tasksByEphemeralId.values()];
+    const options = {
+      folder: this.settings.archiveFolder,
+      afterDays: this.settings.archiveAfterDays,
+      byProject: this.settings.archiveByProject,
+    };
+    const tasks = selectTasksToArchive(allTasks, options, formatDateYmd(new Date()));
+
+    if (tasks.length === 0) {
+      if (manual) new Notice("TaskMan: No completed tasks to archive");
+      await this.saveAllData();
+      return;
+    }
+
+    const result = await this.editor.archiveTasks(tasks, (t) => archivePathFor(t, options));
+    if (!result.success) {
+      new Notice(`TaskMan: archive failed. ${result.error ?? ""}`.trim());
+    } else if (manual || result.archived > 0) {
+      const left = result.skipped > 0 ? `; ${result.skipped} with open subtasks left in place` : "";
+      new Notice(`TaskMan: Archived ${result.archived} tasks to ${options.folder}${left}`);
+    }
+
+    for (const path of new Set(tasks.map((t) => t.filePath))) {
+      const f = this.app.vault.getAbstractFileByPath(path);
+      if (f instanceof TFile) await this.indexer.reindexFile(f, this.loadFileTextHashFresh);
+    }
+    await this.saveAllData();
+  }
+
+  private async showDigest(kind: DigestKind) {
+    const snapshot = this.indexer.getSnapshot();
+    const allTasks: IndexedTask[] = [
+      ...snapshot.tasksByStableId.values(),
+      ...snapshot.tasksByEphemeralId.values(),
+    ];
+
+    const today = formatDateYmd(new Date());
+    const counts = computeDigestCounts(allTasks, today);
+    const label = kind === "morning" ? "Morning digest" : "Evening digest";
+
+    showDigestNotification(allTasks, this.settings.useSystemNotifications, { label, counts });
+
+    if (this.settings.digestToDailyNote) {
+      try {
+        await appendToDailyNote(this.app, `TaskMan ${label.toLowerCase()}`, [
+          `- Overdue: ${counts.overdue}`,
+          `- Due today: ${counts.dueToday}`,
+          `- Waiting: ${counts.waiting}`,
+        ]);
+      } catch (e) {
+        console.error("TaskMan: failed to write digest to daily note", e);
+        new Notice(`TaskMan: ${formatDigestCounts(counts)} (could not write daily note)`);
+      }
+    }
+
+    this.reminderState.digests[kind] = today;
+    await this.saveAllData();
+    this.rescheduleDigests();
   }
 
   sendTestNotification() {
@@ -714,18 +1554,33 @@ export default class TaskManPlugin extends Plugin {
       title: "Test Task",
       dueRaw: "20260115",
       dueYmd: "2026-01-15",
+      dueTime: null,
+      startYmd: null,
+      scheduledYmd: null,
+      completedDate: null,
       priority: 2,
       tags: ["test"],
       contexts: [],
       project: null,
+      inherited: null,
       recurrence: null,
+      seriesId: null,
       estimate: { minutes: 30, display: "30m" },
       status: "active",
       waitingOn: null,
       blockedBy: null,
+      dependsOn: [],
+      blockId: null,
+      prerequisiteIds: [],
+      blocked: false,
+      reminders: [],
       lineNoHint: 0,
       rawLine: "- [ ] Test Task 20260115",
+      headingPath: [],
       indentLevel: 0,
+      parentId: null,
+      parentLabel: null,
+      childIds: [],
     };
 
     showTaskNotification(
@@ -1,7 +1,9 @@
-import { App, Modal, Setting, Notice, TextComponent } from "obsidian";
-import { parseNaturalDate, formatDateYmd } from "./dateParser";
+import { App, FuzzySuggestModal, Modal, Setting, Notice, TFile } from "obsidian";
+import { formatTodoLine, parseTodoLine } from "./parser";
 import type { TaskTemplate } from "./templates";
-import type { Priority } from "./types";
+import type { HeadingRef, IndexedTask, ParsedTodoLine, SeriesEntry } from "./types";
+import { computeSeriesStats } from "./series";
+import type { Conversion } from "./converter";
 
 export class AddTaskModal extends Modal {
   private title = "";
@@ -81,22 +83,9 @@ export class AddTaskModal extends Modal {
 export class QuickCaptureModal extends Modal {
   private input = "";
   private previewEl: HTMLElement | null = null;
-  private onSubmit: (
-    title: string,
-    dueDate: string | null,
-    priority: Priority,
-    tags: string[]
-  ) => void;
+  private onSubmit: (task: ParsedTodoLine) => void;
 
-  constructor(
-    app: App,
-    onSubmit: (
-      title: string,
-      dueDate: string | null,
-      priority: Priority,
-      tags: string[]
-    ) => void
-  ) {
+  constructor(app: App, onSubmit: (task: ParsedTodoLine) => void) {
     super(app);
     this.onSubmit = onSubmit;
   }
@@ -111,11 +100,9 @@ export class QuickCaptureModal extends Modal {
     // Single input field
     const inputSetting = new Setting(contentEl)
       .setName("Task")
-      .setDesc("Type naturally: 'Buy milk tomorrow #errands !'");
+      .setDesc("Type naturally: 'Call Bob friday 3pm +sales @phone ~30m every monday !'");
 
-    let textComponent: TextComponent;
     inputSetting.addText((text) => {
-      textComponent = text;
       text
         .setPlaceholder("Buy groceries tomorrow #personal")
         .onChange((value) => {
@@ -167,17 +154,36 @@ export class QuickCaptureModal extends Modal {
 
     // Title
     preview.createEl("div", {
-      text: `📝 ${parsed.title || "(no title)"}`,
+      text: `📝 ${parsed?.title || "(no title)"}`,
       cls: "taskman-preview-title",
     });
 
-    // Date
-    if (parsed.dueDate) {
+    if (!parsed) return;
+
+    // Dates
+    if (parsed.dueYmd) {
       preview.createEl("div", {
-        text: `📅 ${parsed.dueDate}`,
+        text: `📅 ${parsed.dueYmd}${parsed.dueTime ? ` ${parsed.dueTime}` : ""}`,
         cls: "taskman-preview-date",
       });
     }
+    if (parsed.startYmd) {
+      preview.createEl("div", { text: `🛫 Starts ${parsed.startYmd}`, cls: "taskman-preview-date" });
+    }
+    if (parsed.scheduledYmd) {
+      preview.createEl("div", {
+        text: `🗓️ Scheduled ${parsed.scheduledYmd}`,
+        cls: "taskman-preview-date",
+      });
+    }
+
+    // Recurrence
+    if (parsed.recurrence) {
+      preview.createEl("div", {
+        text: `🔁 ${parsed.recurrence.originalText}`,
+        cls: "taskman-preview-recurrence",
+      });
+    }
 
     // Priority
     if (parsed.priority > 0) {
@@ -189,60 +195,64 @@ export class QuickCaptureModal extends Modal {
       });
     }
 
-    // Tags
+    // Status
+    if (parsed.status === "waiting") {
+      preview.createEl("div", {
+        text: `⏳ Waiting${parsed.waitingOn ? ` on ${parsed.waitingOn}` : ""}`,
+        cls: "taskman-preview-status",
+      });
+    } else if (parsed.status === "blocked") {
+      preview.createEl("div", {
+        text: `🚫 Blocked${parsed.blockedBy ? ` by ${parsed.blockedBy}` : ""}`,
+        cls: "taskman-preview-status",
+      });
+    }
+
+    // Estimate
+    if (parsed.estimate) {
+      preview.createEl("div", {
+        text: `⏱️ ${parsed.estimate.display}`,
+        cls: "taskman-preview-estimate",
+      });
+    }
+
+    // Tags, contexts, project
     if (parsed.tags.length > 0) {
       preview.createEl("div", {
         text: `🏷️ ${parsed.tags.map((t) => "#" + t).join(" ")}`,
         cls: "taskman-preview-tags",
       });
     }
-  }
-
-  private parseInput(): {
-    title: string;
-    dueDate: string | null;
-    priority: Priority;
-    tags: string[];
-  } {
-    let text = this.input.trim();
-    let priority: Priority = 0;
-    const tags: string[] = [];
-
-    // Extract priority
-    const priorityMatch = text.match(/\s*(!!!|!!|!)\s*$/);
-    if (priorityMatch) {
-      priority = priorityMatch[1].length as Priority;
-      text = text.slice(0, -priorityMatch[0].length).trim();
+    if (parsed.contexts.length > 0) {
+      preview.createEl("div", {
+        text: `📍 ${parsed.contexts.map((c) => "@" + c).join(" ")}`,
+        cls: "taskman-preview-tags",
+      });
     }
-
-    // Extract tags
-    const tagMatches = text.matchAll(/#(\w+)/g);
-    for (const m of tagMatches) {
-      tags.push(m[1]);
+    if (parsed.project) {
+      preview.createEl("div", { text: `📁 +${parsed.project}`, cls: "taskman-preview-tags" });
     }
-    text = text.replace(/#\w+/g, "").trim();
 
-    // Parse natural date
-    const { date, remainingText } = parseNaturalDate(text);
+    // Line that will be written
+    preview.createEl("code", { text: formatTodoLine(parsed), cls: "taskman-preview-line" });
+  }
 
-    return {
-      title: remainingText.replace(/\s+/g, " ").trim(),
-      dueDate: date ? formatDateYmd(date) : null,
-      priority,
-      tags,
-    };
+  private parseInput(): ParsedTodoLine | null {
+    const text = this.input.trim().replace(/^- \[( |x|X)\]\s*/, "");
+    if (!text) return null;
+    return parseTodoLine(`- [ ] ${text}`);
   }
 
   private submit() {
     const parsed = this.parseInput();
 
-    if (!parsed.title) {
+    if (!parsed) {
       new Notice("Please enter a task title");
       return;
     }
 
     this.close();
-    this.onSubmit(parsed.title, parsed.dueDate, parsed.priority, parsed.tags);
+    this.onSubmit(parsed);
   }
 
   onClose() {
@@ -459,3 +469,332 @@ export class WeeklyReviewModal extends Modal {
     contentEl.empty();
   }
 }
+
+/**
+ * History of a recurring series: streaks, on-time rate and past completions.
+ */
+export class SeriesHistoryModal extends Modal {
+  private title: string;
+  private entries: SeriesEntry[];
+  private upcoming: string | null;
+
+  constructor(
+    app: App,
+    series: { title: string; entries: SeriesEntry[]; upcoming: string | null }
+  ) {
+    super(app);
+    this.title = series.title;
+    this.entries = series.entries;
+    this.upcoming = series.upcoming;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("taskman-series-history");
+
+    contentEl.createEl("h2", { text: `🔁 ${this.title}` });
+
+    const stats = computeSeriesStats(this.entries);
+    const summary = contentEl.createEl("div", { cls: "taskman-review-stats" });
+    summary.createEl("div", { text: `✅ Completed: ${stats.completed}` });
+    summary.createEl("div", {
+      text: `⏱️ On time: ${stats.onTimeRate === null ? "—" : `${Math.round(stats.onTimeRate * 100)}%`}`,
+    });
+    summary.createEl("div", {
+      text: `🔥 Streak: ${stats.currentStreak} (best ${stats.longestStreak})`,
+    });
+    if (this.upcoming) {
+      summary.createEl("div", { text: `📅 Next: ${this.upcoming}` });
+    }
+
+    contentEl.createEl("h3", { text: "Completions" });
+    if (this.entries.length === 0) {
+      contentEl.createEl("p", { text: "No completed instances yet.", cls: "taskman-hint" });
+      return;
+    }
+
+    const list = contentEl.createEl("div", { cls: "taskman-series-list" });
+    for (const entry of [...this.entries].reverse()) {
+      const late = !!entry.due && (!entry.done || entry.done > entry.due);
+      const row = list.createEl("div", { cls: "taskman-series-entry" });
+      if (late) row.addClass("taskman-series-late");
+      row.createEl("span", { text: late ? "⚠️" : "✅" });
+      row.createEl("span", { text: `Due ${entry.due ?? "—"}` });
+      row.createEl("span", { text: `Done ${entry.done ?? "—"}` });
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+type MoveTarget = {
+  file: TFile;
+  heading: HeadingRef | null;
+};
+
+/**
+ * Fuzzy picker over every note and its headings, for moving a task.
+ */
+export class MoveTargetModal extends FuzzySuggestModal<MoveTarget> {
+  private onChoose: (file: TFile, heading: HeadingRef | null) => void;
+
+  constructor(app: App, onChoose: (file: TFile, heading: HeadingRef | null) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Move task to note or heading...");
+  }
+
+  getItems(): MoveTarget[] {
+    const items: MoveTarget[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      items.push({ file, heading: null });
+      for (const h of this.app.metadataCache.getFileCache(file)?.headings ?? []) {
+        items.push({ file, heading: { text: h.heading, level: h.level } });
+      }
+    }
+    return items;
+  }
+
+  getItemText(item: MoveTarget): string {
+    return item.heading ? `${item.file.path} › ${item.heading.text}` : item.file.path;
+  }
+
+  onChooseItem(item: MoveTarget): void {
+    this.onChoose(item.file, item.heading);
+  }
+}
+
+export type IdMigrationReport = {
+  files: { path: string; added: number; repaired: number }[];
+  scanned: number;
+};
+
+/**
+ * Dry-run report of the stable ID migration, with a button to run it.
+ */
+export class IdMigrationModal extends Modal {
+  private report: IdMigrationReport;
+  private onConfirm: () => void;
+
+  constructor(app: App, report: IdMigrationReport, onConfirm: () => void) {
+    super(app);
+    this.report = report;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("taskman-id-migration");
+
+    contentEl.createEl("h2", { text: "Add task IDs" });
+
+    const added = this.report.files.reduce((sum, f) => sum + f.added, 0);
+    const repaired = this.report.files.reduce((sum, f) => sum + f.repaired, 0);
+    const summary = contentEl.createEl("div", { cls: "taskman-review-stats" });
+    summary.createEl("div", { text: `📄 Notes scanned: ${this.report.scanned}` });
+    summary.createEl("div", { text: `🆔 Tasks without an ID: ${added}` });
+    summary.createEl("div", { text: `♊ Duplicate IDs to repair: ${repaired}` });
+
+    if (this.report.files.length === 0) {
+      contentEl.createEl("p", { text: "Every task already has a unique ID.", cls: "taskman-hint" });
+      return;
+    }
+
+    contentEl.createEl("p", {
+      text: `${this.report.files.length} notes will change. Nothing has been written yet.`,
+      cls: "taskman-hint",
+    });
+    const list = contentEl.createEl("div", { cls: "taskman-id-migration-list" });
+    for (const f of this.report.files) {
+      const row = list.createEl("div", { cls: "taskman-id-migration-file" });
+      row.createEl("span", { text: f.path });
+      const counts = [f.added > 0 ? `+${f.added} IDs` : "", f.repaired > 0 ? `${f.repaired} repaired` : ""];
+      row.createEl("span", { text: counts.filter(Boolean).join(", "), cls: "taskman-hint" });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Add IDs")
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+/**
+ * Asks before completing a task whose subtasks aren't all done.
+ */
+export class OpenSubtasksModal extends Modal {
+  private title: string;
+  private subtasks: IndexedTask[];
+  private onConfirm: () => void;
+
+  constructor(app: App, title: string, open: IndexedTask[], onConfirm: () => void) {
+    super(app);
+    this.title = title;
+    this.subtasks = open;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("taskman-open-subtasks");
+
+    contentEl.createEl("h2", { text: "Complete task?" });
+    const n = this.subtasks.length;
+    contentEl.createEl("p", {
+      text: `"${this.title}" still has ${n} open subtask${n === 1 ? "" : "s"}:`,
+    });
+
+    const list = contentEl.createEl("ul");
+    for (const t of this.subtasks) list.createEl("li", { text: t.title });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Complete anyway")
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+/**
+ * Asks before the bulk toolbar deletes tasks, saying how many indented lines
+ * under them go too.
+ */
+export class DeleteTasksModal extends Modal {
+  private counts: { tasks: number; nested: number };
+  private onConfirm: () => void;
+
+  constructor(app: App, counts: { tasks: number; nested: number }, onConfirm: () => void) {
+    super(app);
+    this.counts = counts;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("taskman-delete-tasks");
+
+    const { tasks, nested } = this.counts;
+    contentEl.createEl("h2", { text: `Delete ${tasks} task${tasks === 1 ? "" : "s"}?` });
+    if (nested > 0) {
+      contentEl.createEl("p", {
+        text: `This also deletes ${nested} indented line${nested === 1 ? "" : "s"} (subtasks and notes) under them.`,
+      });
+    }
+    contentEl.createEl("p", { text: "You can undo this from the notice or the undo command.", cls: "taskman-hint" });
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Delete")
+          .setWarning()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+/**
+ * Preview of the "todo …" lines in a note that can become checkbox tasks.
+ * Checked lines are converted; unchecked ones are kept and not offered again.
+ */
+export class ConversionPreviewModal extends Modal {
+  private path: string;
+  private conversions: Conversion[];
+  private onConfirm: (accepted: Conversion[], declined: Conversion[]) => void;
+
+  constructor(
+    app: App,
+    path: string,
+    conversions: Conversion[],
+    onConfirm: (accepted: Conversion[], declined: Conversion[]) => void
+  ) {
+    super(app);
+    this.path = path;
+    this.conversions = conversions;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("taskman-conversion-preview");
+
+    contentEl.createEl("h2", { text: "Convert todo lines" });
+    contentEl.createEl("p", {
+      text: `${this.path}: uncheck any line that isn't a task. Nothing has been written yet.`,
+      cls: "taskman-hint",
+    });
+
+    const selected = new Set(this.conversions);
+    const list = contentEl.createEl("div", { cls: "taskman-conversion-list" });
+    for (const c of this.conversions) {
+      const row = list.createEl("label", { cls: "taskman-conversion-row" });
+      const checkbox = row.createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) selected.add(c);
+        else selected.delete(c);
+      });
+
+      const text = row.createEl("div", { cls: "taskman-conversion-text" });
+      text.createEl("div", { text: `${c.line + 1}: ${c.before.trim()}`, cls: "taskman-conversion-before" });
+      text.createEl("div", { text: `→ ${c.after.trim()}`, cls: "taskman-conversion-after" });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) =>
+        btn
+          .setButtonText("Convert")
+          .setCta()
+          .onClick(() => {
+            this.close();
+            const accepted = this.conversions.filter((c) => selected.has(c));
+            this.onConfirm(accepted, this.conversions.filter((c) => !selected.has(c)));
+          })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,79 @@
+import { Notice } from "obsidian";
+import type { IndexedTask } from "./types";
+import { formatDigestCounts } from "./reminders";
+import type { DigestCounts, ReminderActions } from "./reminders";
+
+/**
+ * Show a notification for a task. With actions, the in-app notice carries
+ * snooze/complete/open buttons and clicking the system notification opens
+ * the note.
+ */
+export function showTaskNotification(
+  task: IndexedTask,
+  useSystemNotification: boolean,
+  prefix: string = "",
+  actions?: ReminderActions
+): void {
+  const title = prefix ? `${prefix}: ${task.title}` : task.title;
+  const body = task.dueYmd
+    ? `Due: ${task.dueYmd}${task.dueTime ? ` ${task.dueTime}` : ""}`
+    : "No due date";
+
+  // Always show in-app notice
+  if (actions) {
+    const fragment = document.createDocumentFragment();
+    fragment.appendText(`📋 ${title}\n${body}`);
+
+    const buttons = fragment.createDiv({ cls: "taskman-reminder-actions" });
+    const addButton = (text: string, onClick: () => void) => {
+      const btn = buttons.createEl("button", { text });
+      btn.addEventListener("click", onClick);
+    };
+    addButton("10 min", () => actions.onSnooze("10m"));
+    addButton("1 hour", () => actions.onSnooze("1h"));
+    addButton("Tomorrow", () => actions.onSnooze("tomorrow"));
+    addButton("Complete", actions.onComplete);
+    addButton("Open", actions.onOpen);
+
+    new Notice(fragment, 30000);
+  } else {
+    new Notice(`📋 ${title}\n${body}`, 10000);
+  }
+
+  // Also show system notification if enabled
+  if (useSystemNotification && "Notification" in window) {
+    if (Notification.permission === "granted") {
+      const notification = new Notification(`TaskMan: ${title}`, {
+        body,
+        icon: "📋",
+        tag: task.stableId || task.ephemeralId, // prevents duplicates
+      });
+      if (actions) notification.onclick = actions.onOpen;
+    }
+  }
+}
+
+/**
+ * Show a digest notification for multiple tasks: missed reminders, or a
+ * scheduled digest with its counts.
+ */
+export function showDigestNotification(
+  tasks: IndexedTask[],
+  useSystemNotification: boolean,
+  digest?: { label: string; counts: DigestCounts }
+): void {
+  const message = digest
+    ? `${digest.label}: ${formatDigestCounts(digest.counts)}`
+    : `You have ${tasks.length} overdue/upcoming tasks`;
+
+  new Notice(`📋 ${message}`, 10000);
+
+  if (useSystemNotification && "Notification" in window) {
+    if (Notification.permission === "granted") {
+      new Notification("TaskMan", {
+        body: message,
+        icon: "📋",
+      });
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatTodoLine,
+  parseScheduleDates,
+  parseTodoLine,
+  parseTodoMeta,
+  stripTodoMeta,
+  withTodoMeta,
+} from "./parser";
+import { formatDateYmd } from "./dateParser";
+
+function ymd(date: Date | null): string | null {
+  return date ? formatDateYmd(date) : null;
+}
+
+describe("parseScheduleDates", () => {
+  it.each([
+    ["Plan trip start:20260110", "2026-01-10", null, "Plan trip"],
+    ["Plan trip scheduled:20260112", null, "2026-01-12", "Plan trip"],
+    ["Plan trip start:20260110 scheduled:20260112", "2026-01-10", "2026-01-12", "Plan trip"],
+    ["Start the report", null, null, "Start the report"],
+    ["Starting lineup review", null, null, "Starting lineup review"],
+    ["Scheduled maintenance notes", null, null, "Scheduled maintenance notes"],
+    ["Start the report start:20260110", "2026-01-10", null, "Start the report"],
+    ["Start start:20260110", "2026-01-10", null, "Start"],
+  ])("%s", (text, start, scheduled, remaining) => {
+    const result = parseScheduleDates(text);
+    expect(ymd(result.startDate)).toBe(start);
+    expect(ymd(result.scheduledDate)).toBe(scheduled);
+    expect(result.remainingText).toBe(remaining);
+  });
+
+  it("takes the start date from a later keyword when an earlier one is part of the title", () => {
+    const result = parseScheduleDates("Start the report starts tomorrow");
+    expect(result.startDate).not.toBeNull();
+    expect(result.remainingText).toBe("Start the report");
+  });
+
+  it("does the same for scheduled", () => {
+    const result = parseScheduleDates("Scheduled backup check scheduled for tomorrow");
+    expect(result.scheduledDate).not.toBeNull();
+    expect(result.remainingText).toBe("Scheduled backup check");
+  });
+});
+
+describe("parseTodoLine", () => {
+  it("keeps a title starting with Start and reads the start date after it", () => {
+    const parsed = parseTodoLine("- [ ] Start the report starts tomorrow 20260301");
+    expect(parsed?.title).toBe("Start the report");
+    expect(parsed?.startYmd).not.toBeNull();
+    expect(parsed?.dueYmd).toBe("2026-03-01");
+  });
+
+  it.each([
+    ["- [ ] Buy milk", { title: "Buy milk", checked: false, dueYmd: null }],
+    ["- [x] Buy milk", { title: "Buy milk", checked: true }],
+    ["- [ ] Call bank 20260115T1430", { title: "Call bank", dueYmd: "2026-01-15", dueTime: "14:30" }],
+    ["- [ ] Fix bug !!! #work @desk +site", { priority: 3, tags: ["work"], contexts: ["desk"], project: "site" }],
+    ["- [ ] Write report !! ~2h", { title: "Write report", priority: 2, estimate: { minutes: 120, display: "2h" } }],
+    ["- [ ] Contract !waiting:legal", { status: "waiting", waitingOn: "legal" }],
+    ["- [ ] Deploy !blocked:abc123", { status: "blocked", dependsOn: ["abc123"] }],
+    ["- [ ] Draft spec ^spec-1", { title: "Draft spec", blockId: "spec-1" }],
+    ["- [ ] Draft spec ^spec-1 <!--todo:id=abc123;v=1-->", { title: "Draft spec", blockId: "spec-1" }],
+  ])("%s", (line, expected) => {
+    expect(parseTodoLine(line)).toMatchObject(expected);
+  });
+
+  it.each(["Buy milk", "- [ ]", "- Buy milk", "# Heading"])("rejects %j", (line) => {
+    expect(parseTodoLine(line)).toBeNull();
+  });
+});
+
+describe("formatTodoLine", () => {
+  it.each([
+    "- [ ] Buy milk",
+    "- [x] Buy milk 20260115",
+    "- [ ] !!! Fix bug #work @desk +site ~30m 20260115T0930",
+    "- [ ] Water plants every 3 days when done 20260115",
+    "- [ ] Launch start:20260101 scheduled:20260105 20260110",
+    "- [ ] Deploy !blocked:abc123",
+    "- [ ] Review !waiting:legal",
+    "- [ ] Draft spec 20260115 ^spec-1",
+  ])("reads back %s unchanged", (line) => {
+    expect(formatTodoLine(parseTodoLine(line)!)).toBe(line);
+  });
+});
+
+describe("todo metadata", () => {
+  const meta = { id: "abc123", v: 1 };
+
+  it.each([
+    ["- [ ] Draft spec", "- [ ] Draft spec <!--todo:id=abc123;v=1-->"],
+    ["- [ ] Draft spec ^spec-1", "- [ ] Draft spec <!--todo:id=abc123;v=1--> ^spec-1"],
+    ["- [ ] Draft spec <!--todo:id=old;v=1--> ^spec-1", "- [ ] Draft spec <!--todo:id=abc123;v=1--> ^spec-1"],
+    // Lines written before the comment moved in front of the block ID are fixed up
+    ["- [ ] Draft spec ^spec-1 <!--todo:id=old;v=1-->", "- [ ] Draft spec <!--todo:id=abc123;v=1--> ^spec-1"],
+  ])("sets the comment on %s", (line, expected) => {
+    expect(withTodoMeta(line, meta)).toBe(expected);
+  });
+
+  it.each([
+    ["- [ ] Draft spec <!--todo:id=abc123;v=1-->", "- [ ] Draft spec"],
+    ["- [ ] Draft spec <!--todo:id=abc123;v=1--> ^spec-1", "- [ ] Draft spec ^spec-1"],
+    ["- [ ] Draft spec ^spec-1 <!--todo:id=abc123;v=1-->", "- [ ] Draft spec ^spec-1"],
+  ])("strips the comment from %s", (line, expected) => {
+    expect(stripTodoMeta(line)).toBe(expected);
+  });
+
+  it("reads the comment wherever it is", () => {
+    expect(parseTodoMeta("- [ ] Draft spec <!--todo:id=abc123;v=1;done=2026-01-02--> ^spec-1")).toEqual({
+      id: "abc123",
+      v: 1,
+      series: undefined,
+      done: "2026-01-02",
+    });
+  });
+});
@@ -2,23 +2,33 @@ import type {
   ParsedTodoLine,
   TodoMeta,
   Priority,
-  RecurrenceRule,
   TimeEstimate,
   TaskStatus,
+  TaskReminder,
 } from "./types";
-import { parseNaturalDate, formatDateCompact, formatDateYmd } from "./dateParser";
+import {
+  parseNaturalDate,
+  findNaturalDate,
+  formatDateCompact,
+  formatDateYmd,
+} from "./dateParser";
+import { parseRecurrence } from "./recurrence";
 
 /**
  * Parse the hidden metadata comment from a task line.
  * Format: <!--todo:id=abc123;v=1--> or <!--todo:id=abc123;v=1;done=2026-01-01-->
  */
 export function parseTodoMeta(line: string): TodoMeta | null {
-  const m = line.match(/<!--todo:id=([a-z0-9]+);v=(\d+)(?:;done=([0-9-]+))?-->/i);
+  const m = line.match(/<!--todo:id=([a-z0-9]+);v=(\d+)((?:;[a-z]+=[a-z0-9-]+)*)-->/i);
   if (!m) return null;
+  const fields = new Map(
+    m[3].split(";").filter(Boolean).map((f) => f.split("=") as [string, string])
+  );
   return {
     id: m[1],
     v: Number(m[2]) || 1,
-    done: m[3] || undefined,
+    series: fields.get("series") || undefined,
+    done: fields.get("done") || undefined,
   };
 }
 
@@ -27,6 +37,9 @@ export function parseTodoMeta(line: string): TodoMeta | null {
  */
 export function formatTodoMeta(meta: TodoMeta): string {
   let s = `<!--todo:id=${meta.id};v=${meta.v}`;
+  if (meta.series) {
+    s += `;series=${meta.series}`;
+  }
   if (meta.done) {
     s += `;done=${meta.done}`;
   }
@@ -35,10 +48,79 @@ export function formatTodoMeta(meta: TodoMeta): string {
 }
 
 /**
- * Remove the metadata comment from a line.
+ * Remove the metadata comment from a line. It ends the line, or comes just
+ * before a trailing ^block ID.
  */
 export function stripTodoMeta(line: string): string {
-  return line.replace(/\s*<!--todo:.*?-->\s*$/i, "").trimEnd();
+  return line.replace(/\s*<!--todo:.*?-->(?=(?:\s+\^[A-Za-z0-9-]+)?\s*$)/i, "").trimEnd();
+}
+
+/**
+ * A task line with its metadata comment set. The comment goes before a
+ * trailing ^block ID, which has to end the line for [[note#^block]] links
+ * to resolve.
+ */
+export function withTodoMeta(line: string, meta: TodoMeta): string {
+  const body = stripTodoMeta(line);
+  const comment = formatTodoMeta(meta);
+  const block = body.match(/\s+\^[A-Za-z0-9-]+$/);
+  return block ? `${body.slice(0, block.index)} ${comment}${block[0]}` : `${body} ${comment}`;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * Lines of a note that hold frontmatter or code: fenced, or indented by four
+ * spaces or a tab after a blank line outside a list. Task-like text there
+ * (code samples, YAML) is left as written.
+ */
+export function frontmatterAndCodeLines(lines: string[]): Set<number> {
+  const result = new Set<number>();
+  let inFrontmatter = lines[0]?.trim() === "---";
+  let fence: string | null = null;
+  let inList = false;
+  let inIndentedCode = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (inFrontmatter) {
+      if (i > 0 && line.trim() === "---") inFrontmatter = false;
+      result.add(i);
+      continue;
+    }
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      result.add(i);
+      continue;
+    }
+    if (fence !== null) {
+      result.add(i);
+      continue;
+    }
+
+    // Indented lines continue a list or code block; otherwise they start code after a blank line
+    const blank = line.trim() === "";
+    const indented = INDENTED_CODE.test(line);
+    if (blank) {
+      if (inIndentedCode) result.add(i);
+      continue;
+    }
+    if (indented && (inIndentedCode || (!inList && (i === 0 || lines[i - 1].trim() === "")))) {
+      inIndentedCode = true;
+      result.add(i);
+      continue;
+    }
+    inIndentedCode = false;
+    if (LIST_ITEM.test(line)) inList = true;
+    else if (!indented) inList = false;
+  }
+
+  return result;
 }
 
 /**
@@ -75,7 +157,7 @@ function parsePriority(text: string): { priority: Priority; remainingText: strin
     const fullMatch = remaining.slice(match.index!);
     if (!/^(\s)?(!!!|!!|!)(waiting|blocked)/i.test(fullMatch)) {
       priority = match[1].length as Priority;
-      remaining = remaining.slice(0, match.index!) + remaining.slice(match.index! + match[0].length);
+      remaining = remaining.slice(0, match.index!) + " " + remaining.slice(match.index! + match[0].length);
       remaining = remaining.replace(/\s+/g, " ").trim();
     }
   }
@@ -127,77 +209,70 @@ function parseTagsAndContexts(text: string): {
 }
 
 /**
- * Parse recurrence rules from anywhere: every day, every week, every 2 weeks, every weekday, every mon wed fri
+ * Parse per-task reminders: ⏰ 2h before, ⏰ 20260114T0900, remind:1d,1h,
+ * remind:20260114T0900. Offsets count back from the due date/time.
  */
-function parseRecurrence(text: string): {
-  recurrence: RecurrenceRule | null;
+function parseReminders(text: string): {
+  reminders: TaskReminder[];
   remainingText: string;
 } {
-  const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
-
-  // "every mon wed fri" pattern
-  const customDaysMatch = text.match(
-    /(?:^|\s)(every\s+(?:(?:sun|mon|tue|wed|thu|fri|sat)\s*)+)(?:\s|$)/i
-  );
-  if (customDaysMatch) {
-    const daysStr = customDaysMatch[1].toLowerCase();
-    const daysOfWeek: number[] = [];
-    for (const day of dayNames) {
-      if (daysStr.includes(day)) {
-        daysOfWeek.push(dayNames.indexOf(day));
-      }
+  const reminders: TaskReminder[] = [];
+  const item = "(?:\\d+[mhdw]|\\d{8}T\\d{4})";
+
+  const parseItem = (raw: string): TaskReminder | null => {
+    const offset = raw.match(/^(\d+)([mhdw])$/i);
+    if (offset) {
+      const value = parseInt(offset[1], 10);
+      const unit = offset[2].toLowerCase();
+      const perUnit = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 }[unit as "m" | "h" | "d" | "w"];
+      return { type: "before", minutes: value * perUnit, display: `${value}${unit}` };
     }
-    if (daysOfWeek.length > 0) {
-      return {
-        recurrence: {
-          type: "custom",
-          interval: 1,
-          daysOfWeek,
-          originalText: customDaysMatch[1].trim(),
-        },
-        remainingText: text.replace(customDaysMatch[0], " ").replace(/\s+/g, " ").trim(),
-      };
+
+    const at = raw.match(/^(\d{8})T(\d{2})(\d{2})$/);
+    if (at && isValidYmdCompact(at[1]) && Number(at[2]) < 24 && Number(at[3]) < 60) {
+      const ymd = `${at[1].slice(0, 4)}-${at[1].slice(4, 6)}-${at[1].slice(6, 8)}`;
+      return { type: "at", at: `${ymd}T${at[2]}:${at[3]}` };
     }
-  }
 
-  // "every weekday" pattern
-  const weekdayMatch = text.match(/(?:^|\s)(every\s+weekday)(?:\s|$)/i);
-  if (weekdayMatch) {
-    return {
-      recurrence: {
-        type: "weekday",
-        interval: 1,
-        daysOfWeek: [1, 2, 3, 4, 5],
-        originalText: weekdayMatch[1].trim(),
-      },
-      remainingText: text.replace(weekdayMatch[0], " ").replace(/\s+/g, " ").trim(),
-    };
-  }
+    return null;
+  };
 
-  // "every N days/weeks/months/years" pattern
-  const intervalMatch = text.match(
-    /(?:^|\s)(every\s+(\d+)?\s*(day|week|month|year)s?)(?:\s|$)/i
-  );
-  if (intervalMatch) {
-    const interval = intervalMatch[2] ? parseInt(intervalMatch[2]) : 1;
-    const type = intervalMatch[3].toLowerCase() as "day" | "week" | "month" | "year";
-    return {
-      recurrence: {
-        type,
-        interval,
-        originalText: intervalMatch[1].trim(),
-      },
-      remainingText: text.replace(intervalMatch[0], " ").replace(/\s+/g, " ").trim(),
-    };
-  }
+  // remind:1d,1h or remind: 20260114T0900
+  const remindRegex = new RegExp(`(?:^|\\s)remind:\\s*(${item}(?:,\\s*${item})*)(?=\\s|$)`, "gi");
+  // ⏰ 2h before, ⏰ 20260114T0900
+  const alarmRegex = /(?:^|\s)⏰\s*(?:(\d+[mhdw])\s+before|(\d{8}T\d{4}))(?=\s|$)/gi;
 
-  return { recurrence: null, remainingText: text };
+  let remaining = text;
+  remaining = remaining.replace(remindRegex, (_m, list: string) => {
+    for (const raw of list.split(",")) {
+      const r = parseItem(raw.trim());
+      if (r) reminders.push(r);
+    }
+    return " ";
+  });
+  remaining = remaining.replace(alarmRegex, (_m, offset?: string, at?: string) => {
+    const r = parseItem(offset ?? at ?? "");
+    if (r) reminders.push(r);
+    return " ";
+  });
+
+  return { reminders, remainingText: remaining.replace(/\s+/g, " ").trim() };
+}
+
+/**
+ * Format reminders as a single remind: token.
+ */
+function formatReminders(reminders: TaskReminder[]): string {
+  const items = reminders.map((r) =>
+    r.type === "before" ? r.display : r.at.replace(/-/g, "").replace(":", "")
+  );
+  return `remind:${items.join(",")}`;
 }
 
 /**
  * Parse time estimates from anywhere: ~2h, ~15m, ~3d
  */
-function parseTimeEstimate(text: string): {
+export function parseTimeEstimate(text: string): {
   estimate: TimeEstimate | null;
   remainingText: string;
 } {
@@ -232,21 +307,31 @@ function parseTimeEstimate(text: string): {
 
 /**
  * Parse status from anywhere: !waiting, !waiting:@person, !blocked:TaskRef
+ * A task may list several blockers: !blocked:abc123,def456 !blocked:[[Note#^block]]
  */
 function parseStatus(text: string): {
   status: TaskStatus;
   waitingOn: string | null;
   blockedBy: string | null;
+  dependsOn: string[];
   remainingText: string;
 } {
-  // !blocked:Something
-  const blockedMatch = text.match(/(?:^|\s)(!blocked:(\S+))(?:\s|$)/i);
-  if (blockedMatch) {
+  // !blocked:Something (stable ID, [[note#^block]] link, or free text)
+  const blockedRegex = /(?:^|\s)!blocked:((?:\[\[[^\]]+\]\]|[^\s,])+(?:,(?:\[\[[^\]]+\]\]|[^\s,])+)*)(?=\s|$)/gi;
+  const blockedMatches = [...text.matchAll(blockedRegex)];
+  if (blockedMatches.length > 0) {
+    const dependsOn: string[] = [];
+    for (const m of blockedMatches) {
+      for (const ref of m[1].match(/\[\[[^\]]+\]\]|[^,]+/g) ?? []) {
+        dependsOn.push(ref);
+      }
+    }
     return {
       status: "blocked",
       waitingOn: null,
-      blockedBy: blockedMatch[2],
-      remainingText: text.replace(blockedMatch[0], " ").replace(/\s+/g, " ").trim(),
+      blockedBy: dependsOn.join(", "),
+      dependsOn,
+      remainingText: text.replace(blockedRegex, " ").replace(/\s+/g, " ").trim(),
     };
   }
 
@@ -257,6 +342,7 @@ function parseStatus(text: string): {
       status: "blocked",
       waitingOn: null,
       blockedBy: null,
+      dependsOn: [],
       remainingText: text.replace(blockedSimpleMatch[0], " ").replace(/\s+/g, " ").trim(),
     };
   }
@@ -268,6 +354,7 @@ function parseStatus(text: string): {
       status: "waiting",
       waitingOn: waitingOnMatch[2],
       blockedBy: null,
+      dependsOn: [],
       remainingText: text.replace(waitingOnMatch[0], " ").replace(/\s+/g, " ").trim(),
     };
   }
@@ -279,11 +366,103 @@ function parseStatus(text: string): {
       status: "waiting",
       waitingOn: null,
       blockedBy: null,
+      dependsOn: [],
       remainingText: text.replace(waitingMatch[0], " ").replace(/\s+/g, " ").trim(),
     };
   }
 
-  return { status: "active", waitingOn: null, blockedBy: null, remainingText: text };
+  return {
+    status: "active",
+    waitingOn: null,
+    blockedBy: null,
+    dependsOn: [],
+    remainingText: text,
+  };
+}
+
+/**
+ * Parse an Obsidian block ID at the end of the line: ^my-block
+ */
+function parseBlockId(text: string): { blockId: string | null; remainingText: string } {
+  const match = text.match(/(?:^|\s)\^([A-Za-z0-9-]+)$/);
+  if (!match) {
+    return { blockId: null, remainingText: text };
+  }
+  return {
+    blockId: match[1],
+    remainingText: text.slice(0, match.index!).trim(),
+  };
+}
+
+/**
+ * Extract one start/scheduled date: "start:20260110" or "starts next monday".
+ * Each use of the keyword is tried in turn, so "Start the report starts
+ * friday" takes its date from the second one. `naturalKeyword` must be global.
+ */
+function parseKeywordDate(
+  text: string,
+  compactKeyword: RegExp,
+  naturalKeyword: RegExp
+): { date: Date | null; remainingText: string } {
+  const compactMatch = text.match(compactKeyword);
+  if (compactMatch && isValidYmdCompact(compactMatch[1])) {
+    const raw = compactMatch[1];
+    const date = new Date(
+      Number(raw.slice(0, 4)),
+      Number(raw.slice(4, 6)) - 1,
+      Number(raw.slice(6, 8))
+    );
+    return {
+      date,
+      remainingText: text.replace(compactMatch[0], " ").replace(/\s+/g, " ").trim(),
+    };
+  }
+
+  naturalKeyword.lastIndex = 0;
+  let keywordMatch: RegExpExecArray | null;
+  while ((keywordMatch = naturalKeyword.exec(text)) !== null) {
+    const keywordEnd = keywordMatch.index! + keywordMatch[0].length;
+    // The date phrase must directly follow the keyword
+    const found = findNaturalDate(text.slice(keywordEnd), true);
+    if (found) {
+      const remaining =
+        text.slice(0, keywordMatch.index!) +
+        " " +
+        text.slice(keywordEnd + found.matchedText.length);
+      return {
+        date: found.date,
+        remainingText: remaining.replace(/\s+/g, " ").trim(),
+      };
+    }
+    // Step back so the space this match used can start the next one
+    naturalKeyword.lastIndex = keywordMatch.index + 1;
+  }
+
+  return { date: null, remainingText: text };
+}
+
+/**
+ * Parse start and scheduled dates from anywhere:
+ * start:20260110, starts next monday, scheduled:20260112, scheduled for friday
+ */
+export function parseScheduleDates(text: string): {
+  startDate: Date | null;
+  scheduledDate: Date | null;
+  remainingText: string;
+} {
+  const { date: startDate, remainingText: afterStart } = parseKeywordDate(
+    text,
+    /(?:^|\s)start:(\d{8})(?=\s|$)/i,
+    /(?:^|\s)(?:starts?|starting)\s+/gi
+  );
+
+  const { date: scheduledDate, remainingText } = parseKeywordDate(
+    afterStart,
+    /(?:^|\s)scheduled:(\d{8})(?=\s|$)/i,
+    /(?:^|\s)scheduled(?:\s+for)?\s+/gi
+  );
+
+  return { startDate, scheduledDate, remainingText };
 }
 
 /**
@@ -316,11 +495,17 @@ export function parseTodoLine(line: string): ParsedTodoLine | null {
   if (!textAfterCheckbox) return null;
 
   // Parse elements from end to start (order matters)
+  // 0. Block ID (^block) - always last on the line
+  const { blockId, remainingText: afterBlockId } = parseBlockId(textAfterCheckbox);
+
+  // 0b. Reminders (before dates, so remind:20260114T0900 isn't read as the due date)
+  const { reminders, remainingText: afterReminders } = parseReminders(afterBlockId);
+
   // 1. Priority (!, !!, !!!) - must be before date so "today !!!" works
-  const { priority, remainingText: afterPriority } = parsePriority(textAfterCheckbox);
+  const { priority, remainingText: afterPriority } = parsePriority(afterReminders);
 
   // 2. Status (waiting/blocked)
-  const { status, waitingOn, blockedBy, remainingText: afterStatus } =
+  const { status, waitingOn, blockedBy, dependsOn, remainingText: afterStatus } =
     parseStatus(afterPriority);
 
   // 3. Time estimate (~2h)
@@ -330,10 +515,14 @@ export function parseTodoLine(line: string): ParsedTodoLine | null {
   const { recurrence, remainingText: afterRecurrence } =
     parseRecurrence(afterEstimate);
 
-  // 5. Natural date parsing
-  const { date, remainingText: afterDate } = parseNaturalDate(afterRecurrence);
+  // 5. Start/scheduled dates (before the due date so their phrases aren't taken as due)
+  const { startDate, scheduledDate, remainingText: afterSchedule } =
+    parseScheduleDates(afterRecurrence);
+
+  // 6. Natural date parsing
+  const { date, time, remainingText: afterDate } = parseNaturalDate(afterSchedule);
 
-  // 6. Tags, contexts, projects
+  // 7. Tags, contexts, projects
   const { tags, contexts, project, remainingText: title } =
     parseTagsAndContexts(afterDate);
 
@@ -352,6 +541,9 @@ export function parseTodoLine(line: string): ParsedTodoLine | null {
     title,
     dueRaw,
     dueYmd,
+    dueTime: date ? time : null,
+    startYmd: startDate ? formatDateYmd(startDate) : null,
+    scheduledYmd: scheduledDate ? formatDateYmd(scheduledDate) : null,
     markerIndex: -1,
     dateIndex: -1,
     priority,
@@ -363,9 +555,47 @@ export function parseTodoLine(line: string): ParsedTodoLine | null {
     status,
     waitingOn,
     blockedBy,
+    dependsOn,
+    blockId,
+    reminders,
   };
 }
 
+/**
+ * Build the canonical checkbox line for a parsed task. parseTodoLine reads
+ * the result back to the same fields.
+ */
+export function formatTodoLine(task: ParsedTodoLine, indent = ""): string {
+  const parts = [task.checked ? "- [x]" : "- [ ]"];
+
+  if (task.priority > 0) parts.push("!".repeat(task.priority));
+  parts.push(task.title);
+
+  for (const tag of task.tags) parts.push(`#${tag}`);
+  for (const ctx of task.contexts) parts.push(`@${ctx}`);
+  if (task.project) parts.push(`+${task.project}`);
+  if (task.estimate) parts.push(`~${task.estimate.display}`);
+  if (task.recurrence) parts.push(task.recurrence.originalText);
+
+  if (task.status === "waiting") {
+    parts.push(task.waitingOn ? `!waiting:${task.waitingOn}` : "!waiting");
+  } else if (task.status === "blocked") {
+    parts.push(task.dependsOn.length > 0 ? `!blocked:${task.dependsOn.join(",")}` : "!blocked");
+  }
+
+  if (task.startYmd) parts.push(`start:${task.startYmd.replace(/-/g, "")}`);
+  if (task.scheduledYmd) parts.push(`scheduled:${task.scheduledYmd.replace(/-/g, "")}`);
+  if (task.dueYmd) {
+    const due = task.dueYmd.replace(/-/g, "");
+    parts.push(task.dueTime ? `${due}T${task.dueTime.replace(":", "")}` : due);
+  }
+  if (task.reminders.length > 0) parts.push(formatReminders(task.reminders));
+
+  if (task.blockId) parts.push(`^${task.blockId}`);
+
+  return indent + parts.join(" ");
+}
+
 /**
  * Validate a YYYYMMDD date string.
  */
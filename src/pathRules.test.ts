@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { isPathIncluded, matchesGlob, parsePatternList } from "./pathRules";
+
+describe("matchesGlob", () => {
+  it.each([
+    ["Notes/Today.md", "Notes/*.md", true],
+    ["Notes/Sub/Today.md", "Notes/*.md", false],
+    ["Notes/Sub/Today.md", "Notes/**/*.md", true],
+    ["Notes/Today.md", "Notes/**/*.md", true],
+    ["Today.md", "**/*.md", true],
+    ["Templates/Daily.md", "Templates", true],
+    ["Templates/Sub/Daily.md", "Templates/", true],
+    ["TemplatesOld/Daily.md", "Templates", false],
+    ["Clippings/2026-01 Article.md", "Clippings/20*", true],
+    ["Clippings/Article.md", "Clippings/20*", false],
+    ["Log/2026-1.md", "Log/2026-?.md", true],
+    ["Log/2026-10.md", "Log/2026-?.md", false],
+    ["a/b/c.md", "a/b/c.md", true],
+    ["Archive (old)/x.md", "Archive (old)", true],
+    ["Notes/a+b.md", "Notes/a+b.md", true],
+    ["Notes/aab.md", "Notes/a+b.md", false],
+    ["Projects/x.md", "/Projects/", true],
+    ["Anything/x.md", "  ", true],
+  ])("%s against %j is %s", (path, pattern, expected) => {
+    expect(matchesGlob(path, pattern)).toBe(expected);
+  });
+});
+
+describe("isPathIncluded", () => {
+  it.each([
+    ["Notes/a.md", [], [], true],
+    ["Notes/a.md", ["Notes"], [], true],
+    ["Other/a.md", ["Notes"], [], false],
+    ["Notes/Templates/a.md", ["Notes"], ["**/Templates"], false],
+    ["Templates/a.md", [], ["Templates"], false],
+    ["Notes/a.md", ["Notes", "Projects"], ["Archive"], true],
+  ])("%s with include %j and exclude %j is %s", (path, include, exclude, expected) => {
+    expect(isPathIncluded(path, { include, exclude })).toBe(expected);
+  });
+});
+
+describe("parsePatternList", () => {
+  it("takes one trimmed pattern per non-empty line", () => {
+    expect(parsePatternList("Templates\n\n  Clippings/20* \n")).toEqual(["Templates", "Clippings/20*"]);
+  });
+});
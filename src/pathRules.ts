@@ -0,0 +1,64 @@
+export type PathRules = {
+  include: string[]; // globs; empty means every note
+  exclude: string[];
+};
+
+/**
+ * Whether a note passes the include/exclude rules: inside an include
+ * pattern (when there are any) and outside every exclude pattern.
+ */
+export function isPathIncluded(path: string, rules: PathRules): boolean {
+  if (rules.include.length > 0 && !rules.include.some((p) => matchesGlob(path, p))) return false;
+  return !rules.exclude.some((p) => matchesGlob(path, p));
+}
+
+/**
+ * Whether a vault path matches a glob: `*` and `?` stay within one folder,
+ * `**` spans folders. A pattern that matches a folder covers everything in
+ * it, so `Templates` and `Clippings/20*` work without a trailing `/**`.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim().replace(/^\/+|\/+$/g, "");
+  if (!trimmed) return true;
+
+  const re = globToRegExp(trimmed);
+  const parts = path.split("/");
+  for (let i = parts.length; i > 0; i--) {
+    if (re.test(parts.slice(0, i).join("/"))) return true;
+  }
+  return false;
+}
+
+/**
+ * Split a setting written one pattern per line into its patterns.
+ */
+export function parsePatternList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no folders at all
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,216 @@
+import type { IndexedTask, Priority, TaskPatch, TaskStatus } from "./types";
+import { formatDateYmd, parseNaturalDate } from "./dateParser";
+import { parseTimeEstimate } from "./parser";
+
+const PRIORITY_LABELS = ["None", "Low (!)", "Medium (!!)", "High (!!!)"];
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  active: "Active",
+  waiting: "Waiting",
+  blocked: "Blocked",
+};
+
+/**
+ * Floating editor for a task's fields, opened by clicking a task in a
+ * rendered view. Only the fields that were changed go into the patch.
+ */
+export class TaskEditPopover {
+  private static current: TaskEditPopover | null = null;
+
+  private task: IndexedTask;
+  private onSave: (patch: TaskPatch) => void;
+  private el: HTMLElement | null = null;
+
+  private onOutsideClick = (e: MouseEvent) => {
+    if (this.el && !this.el.contains(e.target as Node)) this.close();
+  };
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape") this.close();
+  };
+
+  constructor(task: IndexedTask, onSave: (patch: TaskPatch) => void) {
+    this.task = task;
+    this.onSave = onSave;
+  }
+
+  open(anchor: HTMLElement) {
+    TaskEditPopover.current?.close();
+    TaskEditPopover.current = this;
+
+    const task = this.task;
+    const el = document.body.createDiv({ cls: "taskman-popover" });
+    this.el = el;
+
+    const field = (label: string) => {
+      const row = el.createDiv({ cls: "taskman-popover-field" });
+      row.createEl("label", { text: label });
+      return row;
+    };
+
+    // Only what's written on the task line is edited; inherited values are shown as hints
+    const inherited = task.inherited;
+    const own = {
+      priority: inherited?.priority ? 0 : task.priority,
+      tags: task.tags.filter((t) => !inherited?.tags.includes(t)),
+      contexts: task.contexts.filter((c) => !inherited?.contexts.includes(c)),
+      project: inherited?.project ? null : task.project,
+    };
+    const inheritedHint = (values: string[]) => {
+      if (values.length === 0) return;
+      el.createDiv({ text: `Inherited: ${values.join(" ")}`, cls: "taskman-popover-hint" });
+    };
+
+    // Title
+    const titleInput = field("Title").createEl("input", { type: "text" });
+    titleInput.value = task.title;
+
+    // Due: natural language text, with a date picker alongside
+    const initialDue = task.dueYmd
+      ? task.dueYmd.replace(/-/g, "") + (task.dueTime ? `T${task.dueTime.replace(":", "")}` : "")
+      : "";
+    const dueRow = field("Due");
+    const dueInput = dueRow.createEl("input", { type: "text", placeholder: "tomorrow 3pm, fri, 20261031" });
+    dueInput.value = initialDue;
+    const picker = dueRow.createEl("input", { type: "date" });
+    picker.value = task.dueYmd ?? "";
+    const dueHint = el.createDiv({ cls: "taskman-popover-hint" });
+
+    const readDue = (): { dueYmd: string | null; dueTime: string | null } | null => {
+      const value = dueInput.value.trim();
+      if (!value) return { dueYmd: null, dueTime: null };
+      const { date, time } = parseNaturalDate(value);
+      return date ? { dueYmd: formatDateYmd(date), dueTime: time } : null;
+    };
+    const updateDueHint = () => {
+      const due = readDue();
+      if (!due) dueHint.setText("Not a date");
+      else if (!due.dueYmd) dueHint.setText("No due date");
+      else dueHint.setText(`→ ${due.dueYmd}${due.dueTime ? ` ${due.dueTime}` : ""}`);
+      dueHint.toggleClass("taskman-popover-error", !due);
+    };
+    dueInput.addEventListener("input", () => {
+      updateDueHint();
+      picker.value = readDue()?.dueYmd ?? "";
+    });
+    picker.addEventListener("change", () => {
+      const time = task.dueTime ? `T${task.dueTime.replace(":", "")}` : "";
+      dueInput.value = picker.value ? picker.value.replace(/-/g, "") + time : "";
+      updateDueHint();
+    });
+    updateDueHint();
+
+    // Priority
+    const prioritySelect = field("Priority").createEl("select", { cls: "dropdown" });
+    PRIORITY_LABELS.forEach((label, p) => prioritySelect.createEl("option", { text: label, value: String(p) }));
+    prioritySelect.value = String(own.priority);
+    inheritedHint(inherited?.priority ? [PRIORITY_LABELS[task.priority]] : []);
+
+    // Status
+    const statusSelect = field("Status").createEl("select", { cls: "dropdown" });
+    for (const [status, label] of Object.entries(STATUS_LABELS)) {
+      statusSelect.createEl("option", { text: label, value: status });
+    }
+    statusSelect.value = task.status;
+
+    // Tags, contexts, project, estimate
+    const tagsInput = field("Tags").createEl("input", { type: "text", placeholder: "#work #urgent" });
+    tagsInput.value = own.tags.map((t) => `#${t}`).join(" ");
+    inheritedHint((inherited?.tags ?? []).map((t) => `#${t}`));
+    const contextsInput = field("Contexts").createEl("input", { type: "text", placeholder: "@home @phone" });
+    contextsInput.value = own.contexts.map((c) => `@${c}`).join(" ");
+    inheritedHint((inherited?.contexts ?? []).map((c) => `@${c}`));
+    const projectInput = field("Project").createEl("input", { type: "text", placeholder: "+website" });
+    projectInput.value = own.project ? `+${own.project}` : "";
+    inheritedHint(inherited?.project ? [`+${task.project}`] : []);
+    const estimateInput = field("Estimate").createEl("input", { type: "text", placeholder: "30m, 2h, 1d" });
+    estimateInput.value = task.estimate?.display ?? "";
+
+    const error = el.createDiv({ cls: "taskman-popover-hint taskman-popover-error" });
+
+    const save = () => {
+      const patch: TaskPatch = {};
+
+      const title = titleInput.value.trim();
+      if (!title) {
+        error.setText("Title can't be empty");
+        return;
+      }
+      if (title !== task.title) patch.title = title;
+
+      if (dueInput.value.trim() !== initialDue) {
+        const due = readDue();
+        if (!due) {
+          error.setText("Due date not recognized");
+          return;
+        }
+        patch.dueYmd = due.dueYmd;
+        patch.dueTime = due.dueTime;
+      }
+
+      const priority = Number(prioritySelect.value) as Priority;
+      if (priority !== own.priority) patch.priority = priority;
+
+      const status = statusSelect.value as TaskStatus;
+      if (status !== task.status) patch.status = status;
+
+      const tags = splitTokens(tagsInput.value, "#");
+      if (tags.join(" ") !== own.tags.join(" ")) patch.tags = tags;
+      const contexts = splitTokens(contextsInput.value, "@");
+      if (contexts.join(" ") !== own.contexts.join(" ")) patch.contexts = contexts;
+      const project = splitTokens(projectInput.value, "+")[0] ?? null;
+      if (project !== own.project) patch.project = project;
+
+      const estimateText = estimateInput.value.trim().replace(/^~/, "");
+      if (estimateText !== (task.estimate?.display ?? "")) {
+        const { estimate } = parseTimeEstimate(`~${estimateText}`);
+        if (estimateText && !estimate) {
+          error.setText("Estimate must look like 30m, 2h or 1d");
+          return;
+        }
+        patch.estimate = estimate;
+      }
+
+      this.close();
+      if (Object.keys(patch).length > 0) this.onSave(patch);
+    };
+
+    for (const input of [titleInput, dueInput, tagsInput, contextsInput, projectInput, estimateInput]) {
+      input.addEventListener("keydown", (e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          save();
+        }
+      });
+    }
+
+    const buttons = el.createDiv({ cls: "taskman-popover-buttons" });
+    buttons.createEl("button", { text: "Cancel" }).addEventListener("click", () => this.close());
+    buttons.createEl("button", { text: "Save", cls: "mod-cta" }).addEventListener("click", save);
+
+    // Below the anchor, kept inside the window
+    const rect = anchor.getBoundingClientRect();
+    el.style.top = `${rect.bottom + window.scrollY + 4}px`;
+    el.style.left = `${Math.max(8, Math.min(rect.left, window.innerWidth - el.offsetWidth - 8)) + window.scrollX}px`;
+
+    document.addEventListener("mousedown", this.onOutsideClick, true);
+    document.addEventListener("keydown", this.onKeyDown, true);
+    titleInput.focus();
+  }
+
+  close() {
+    document.removeEventListener("mousedown", this.onOutsideClick, true);
+    document.removeEventListener("keydown", this.onKeyDown, true);
+    this.el?.remove();
+    this.el = null;
+    if (TaskEditPopover.current === this) TaskEditPopover.current = null;
+  }
+}
+
+/**
+ * Split "#a b, #c" into ["a", "b", "c"], dropping the given prefix.
+ */
+function splitTokens(text: string, prefix: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map((t) => (t.startsWith(prefix) ? t.slice(prefix.length) : t))
+    .filter(Boolean);
+}
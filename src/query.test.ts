@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { evaluateQuery, parseFilterQuery } from "./query";
+import { parseTodoLine } from "./parser";
+import { formatDateYmd } from "./dateParser";
+import type { IndexedTask } from "./types";
+
+function task(line: string, extra: Partial<IndexedTask> = {}): IndexedTask {
+  const parsed = parseTodoLine(line);
+  if (!parsed) throw new Error(`not a task: ${line}`);
+  return {
+    ...parsed,
+    ephemeralId: "Notes/Test.md:0:1",
+    filePath: "Notes/Test.md",
+    completedDate: null,
+    inherited: null,
+    seriesId: null,
+    prerequisiteIds: [],
+    blocked: false,
+    lineNoHint: 0,
+    rawLine: line,
+    headingPath: [],
+    indentLevel: 0,
+    parentId: null,
+    parentLabel: null,
+    childIds: [],
+    ...extra,
+  };
+}
+
+function daysFromToday(n: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + n);
+  return formatDateYmd(d).replace(/-/g, "");
+}
+
+function matches(source: string, t: IndexedTask): boolean {
+  const { query, error } = parseFilterQuery(source);
+  if (!query) throw new Error(error?.message);
+  return evaluateQuery(query, t);
+}
+
+describe("parseFilterQuery", () => {
+  it.each([
+    ["#work", { type: "compare", field: "tag", op: "=", value: "work" }],
+    ["+thesis", { type: "compare", field: "project", op: "=", value: "thesis" }],
+    ["@phone", { type: "compare", field: "context", op: "=", value: "phone" }],
+    ["priority >= 2", { type: "compare", field: "priority", op: ">=", value: "2" }],
+    ["tags contains wor", { type: "compare", field: "tag", op: "contains", value: "wor" }],
+    ["section = Inbox", { type: "compare", field: "heading", op: "=", value: "Inbox" }],
+    ["recurring", { type: "compare", field: "recurring", op: "=", value: "true" }],
+    ['"buy milk"', { type: "text", value: "buy milk" }],
+    ["groceries", { type: "text", value: "groceries" }],
+  ])("parses %s", (source, expected) => {
+    expect(parseFilterQuery(source)).toEqual({ query: expected, error: null });
+  });
+
+  it("gives and precedence over or, and reads adjacent terms as and", () => {
+    expect(parseFilterQuery("#a or #b #c").query).toEqual({
+      type: "or",
+      children: [
+        { type: "compare", field: "tag", op: "=", value: "a" },
+        {
+          type: "and",
+          children: [
+            { type: "compare", field: "tag", op: "=", value: "b" },
+            { type: "compare", field: "tag", op: "=", value: "c" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("nests not and parentheses", () => {
+    expect(parseFilterQuery("not (#a or @b)").query).toEqual({
+      type: "not",
+      child: {
+        type: "or",
+        children: [
+          { type: "compare", field: "tag", op: "=", value: "a" },
+          { type: "compare", field: "context", op: "=", value: "b" },
+        ],
+      },
+    });
+  });
+
+  it.each([
+    ["", "Empty filter", 0],
+    ["(#a", "Expected ')' to close '('", 3],
+    ["#a)", "Unexpected ')'", 2],
+    ["colour = red", "Unknown field 'colour'", 0],
+    ["tag < 3", "Operator '<' cannot be used with 'tag'", 4],
+    ["due >", "Expected a value after '>'", 5],
+    ["due < someday", "Invalid date 'someday'", 6],
+    ["priority = urgent", "Invalid priority 'urgent'", 11],
+    ["estimate > long", "Invalid duration 'long'", 11],
+    ['title = "open', "Unterminated string", 8],
+    ["= 3", "Unexpected operator '='", 0],
+  ])("reports %j as %s at %i", (source, message, position) => {
+    expect(parseFilterQuery(source).error).toEqual({ message, position, source });
+  });
+});
+
+describe("evaluateQuery", () => {
+  const work = task("- [ ] Write report #work #writing @office +thesis !! ~2h");
+  const errand = task("- [ ] Buy milk #errands @shop", { headingPath: ["Home", "Shopping"] });
+  const done = task("- [x] Ship release #work", { completedDate: "2026-01-05" });
+  const waiting = task("- [ ] Contract !waiting:legal");
+
+  it.each([
+    ["#work", work, true],
+    ["#WORK", work, true],
+    ["#work", errand, false],
+    ["+thesis and @office", work, true],
+    ["#errands or +thesis", errand, true],
+    ["not #work", errand, true],
+    ["priority >= medium", work, true],
+    ["priority > 2", work, false],
+    ["priority = none", errand, true],
+    ["estimate >= 90m", work, true],
+    ["estimate < 1h", work, false],
+    ["estimate = none", errand, true],
+    ["tag contains writ", work, true],
+    ["tag != errands", work, true],
+    ["tag = none", waiting, true],
+    ["project = none", errand, true],
+    ["project != none", work, true],
+    ["heading contains shop", errand, true],
+    ["section = Home", errand, false],
+    ["checked", done, true],
+    ["checked = false", work, true],
+    ["status = waiting", waiting, true],
+    ["status = active", work, true],
+    ["report", work, true],
+    ['"buy milk"', errand, true],
+    ["file contains notes/", work, true],
+    ["done = 2026-01-05", done, true],
+    ["done < 2026-01-01", done, false],
+  ])("%s on %#", (source, t, expected) => {
+    expect(matches(source, t)).toBe(expected);
+  });
+
+  it.each([
+    ["due < today", -1, true],
+    ["due < today", 0, false],
+    ["due = today", 0, true],
+    ["due <= +3d", 3, true],
+    ["due <= +3d", 4, false],
+    ["due >= -1w", -7, true],
+    ["due > tomorrow", 2, true],
+  ])("%s with due in %i days is %s", (source, offset, expected) => {
+    expect(matches(source, task(`- [ ] Pay bill ${daysFromToday(offset)}`))).toBe(expected);
+  });
+
+  it("treats a missing date as matching only != and none", () => {
+    const undated = task("- [ ] Someday");
+    expect(matches("due < +1y", undated)).toBe(false);
+    expect(matches("due != today", undated)).toBe(true);
+    expect(matches("due = none", undated)).toBe(true);
+  });
+
+  it("reads a dependency-blocked task as blocked, and a bare !blocked with no open blockers as active", () => {
+    const manual = task("- [ ] Deploy !blocked");
+    expect(matches("status = active", manual)).toBe(true);
+    expect(matches("blocked", { ...manual, blocked: true })).toBe(true);
+    expect(matches("status = blocked", { ...manual, blocked: true })).toBe(true);
+  });
+});
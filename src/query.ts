@@ -0,0 +1,493 @@
+/**
+ * Boolean filter expressions for taskman code blocks.
+ *
+ * Example: (#work or +thesis) and not @phone and due < +3d and priority >= 2
+ *
+ * Grammar:
+ *   expr    := and ("or" and)*
+ *   and     := not (["and"] not)*        (adjacent terms are ANDed)
+ *   not     := "not" not | primary
+ *   primary := "(" expr ")" | "#tag" | "+project" | "@context"
+ *            | field op value | field | word | "quoted text"
+ */
+
+import type { IndexedTask, QueryNode, QueryOperator, QueryError } from "./types";
+import { parseNaturalDate, formatDateYmd } from "./dateParser";
+import { effectiveStatus } from "./dependencies";
+import { formatHeadingPath } from "./hierarchy";
+
+type FieldKind = "date" | "number" | "text" | "list" | "boolean" | "duration";
+
+type FieldDef = {
+  kind: FieldKind;
+  get: (task: IndexedTask) => string | number | boolean | string[] | null;
+};
+
+const FIELDS: Record<string, FieldDef> = {
+  due: { kind: "date", get: (t) => t.dueYmd },
+  start: { kind: "date", get: (t) => t.startYmd },
+  scheduled: { kind: "date", get: (t) => t.scheduledYmd },
+  done: { kind: "date", get: (t) => t.completedDate },
+  priority: { kind: "number", get: (t) => t.priority },
+  status: { kind: "text", get: (t) => effectiveStatus(t) },
+  project: { kind: "text", get: (t) => t.project },
+  tag: { kind: "list", get: (t) => t.tags },
+  context: { kind: "list", get: (t) => t.contexts },
+  title: { kind: "text", get: (t) => t.title },
+  file: { kind: "text", get: (t) => t.filePath },
+  heading: { kind: "text", get: (t) => formatHeadingPath(t.headingPath) },
+  estimate: { kind: "duration", get: (t) => t.estimate?.minutes ?? null },
+  checked: { kind: "boolean", get: (t) => t.checked },
+  recurring: { kind: "boolean", get: (t) => t.recurrence !== null },
+  blocked: { kind: "boolean", get: (t) => t.blocked },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  tags: "tag",
+  contexts: "context",
+  path: "file",
+  section: "heading",
+  completed: "done",
+};
+
+const OPERATORS_BY_KIND: Record<FieldKind, QueryOperator[]> = {
+  date: ["=", "!=", "<", "<=", ">", ">="],
+  number: ["=", "!=", "<", "<=", ">", ">="],
+  duration: ["=", "!=", "<", "<=", ">", ">="],
+  text: ["=", "!=", "contains"],
+  list: ["=", "!=", "contains"],
+  boolean: ["=", "!="],
+};
+
+type Token =
+  | { kind: "lparen"; pos: number }
+  | { kind: "rparen"; pos: number }
+  | { kind: "op"; value: QueryOperator; pos: number }
+  | { kind: "word"; value: string; pos: number }
+  | { kind: "string"; value: string; pos: number };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+function resolveField(name: string): string | null {
+  const lower = name.toLowerCase();
+  const key = FIELD_ALIASES[lower] ?? lower;
+  return FIELDS[key] ? key : null;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "(") {
+      tokens.push({ kind: "lparen", pos: i++ });
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen", pos: i++ });
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (two === "<=" || two === ">=" || two === "!=") {
+      tokens.push({ kind: "op", value: two, pos: i });
+      i += 2;
+      continue;
+    }
+    if (ch === "<" || ch === ">" || ch === "=") {
+      tokens.push({ kind: "op", value: ch, pos: i++ });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError("Unterminated string", i);
+      }
+      tokens.push({ kind: "string", value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const start = i;
+    while (
+      i < source.length &&
+      !/[\s()<>="']/.test(source[i]) &&
+      source.slice(i, i + 2) !== "!="
+    ) {
+      i++;
+    }
+    const word = source.slice(start, i);
+    if (word.toLowerCase() === "contains") {
+      tokens.push({ kind: "op", value: "contains", pos: start });
+    } else {
+      tokens.push({ kind: "word", value: word, pos: start });
+    }
+  }
+
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.kind === "word" && token.value.toLowerCase() === keyword;
+}
+
+class QueryParser {
+  private i = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new QuerySyntaxError("Empty filter", 0);
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(
+        extra.kind === "rparen" ? "Unexpected ')'" : "Unexpected input",
+        extra.pos
+      );
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.i + offset];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.i++];
+  }
+
+  private endPos(): number {
+    return this.source.length;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (isKeyword(this.peek(), "or")) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseNot()];
+    for (;;) {
+      const tok = this.peek();
+      if (isKeyword(tok, "and")) {
+        this.next();
+        children.push(this.parseNot());
+      } else if (this.startsTerm(tok)) {
+        children.push(this.parseNot());
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private startsTerm(tok: Token | undefined): boolean {
+    if (!tok) return false;
+    if (tok.kind === "lparen" || tok.kind === "string") return true;
+    return tok.kind === "word" && !isKeyword(tok, "or") && !isKeyword(tok, "and");
+  }
+
+  private parseNot(): QueryNode {
+    if (isKeyword(this.peek(), "not")) {
+      this.next();
+      return { type: "not", child: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const tok = this.next();
+    if (!tok) {
+      throw new QuerySyntaxError("Unexpected end of filter", this.endPos());
+    }
+
+    switch (tok.kind) {
+      case "lparen": {
+        const inner = this.parseOr();
+        const close = this.next();
+        if (close?.kind !== "rparen") {
+          throw new QuerySyntaxError(
+            "Expected ')' to close '('",
+            close?.pos ?? this.endPos()
+          );
+        }
+        return inner;
+      }
+      case "rparen":
+        throw new QuerySyntaxError("Unexpected ')'", tok.pos);
+      case "op":
+        throw new QuerySyntaxError(`Unexpected operator '${tok.value}'`, tok.pos);
+      case "string":
+        return { type: "text", value: tok.value };
+      case "word":
+        return this.parseWord(tok);
+    }
+  }
+
+  private parseWord(tok: Extract<Token, { kind: "word" }>): QueryNode {
+    const word = tok.value;
+
+    if (/^#\w+$/.test(word)) {
+      return { type: "compare", field: "tag", op: "=", value: word.slice(1) };
+    }
+    if (/^\+\w+$/.test(word)) {
+      return { type: "compare", field: "project", op: "=", value: word.slice(1) };
+    }
+    if (/^@\w+$/.test(word)) {
+      return { type: "compare", field: "context", op: "=", value: word.slice(1) };
+    }
+
+    const opTok = this.peek();
+    const field = resolveField(word);
+
+    if (opTok?.kind !== "op") {
+      // A bare boolean field means "field = true"; anything else is title text
+      if (field && FIELDS[field].kind === "boolean") {
+        return { type: "compare", field, op: "=", value: "true" };
+      }
+      return { type: "text", value: word };
+    }
+
+    if (!field) {
+      throw new QuerySyntaxError(`Unknown field '${word}'`, tok.pos);
+    }
+
+    this.next();
+    const def = FIELDS[field];
+    if (!OPERATORS_BY_KIND[def.kind].includes(opTok.value)) {
+      throw new QuerySyntaxError(
+        `Operator '${opTok.value}' cannot be used with '${field}'`,
+        opTok.pos
+      );
+    }
+
+    const valueTok = this.next();
+    if (!valueTok || (valueTok.kind !== "word" && valueTok.kind !== "string")) {
+      throw new QuerySyntaxError(
+        `Expected a value after '${opTok.value}'`,
+        valueTok?.pos ?? this.endPos()
+      );
+    }
+
+    const value = valueTok.value.replace(/^[#@]/, "");
+    const problem = validateValue(def.kind, value);
+    if (problem) {
+      throw new QuerySyntaxError(problem, valueTok.pos);
+    }
+
+    return { type: "compare", field, op: opTok.value, value };
+  }
+}
+
+/**
+ * Parse a filter expression into an AST.
+ * Returns either the query or a readable error with its position.
+ */
+export function parseFilterQuery(source: string): {
+  query: QueryNode | null;
+  error: QueryError | null;
+} {
+  try {
+    const tokens = tokenize(source);
+    const query = new QueryParser(tokens, source).parse();
+    return { query, error: null };
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) {
+      return {
+        query: null,
+        error: { message: e.message, position: e.position, source },
+      };
+    }
+    throw e;
+  }
+}
+
+/**
+ * Evaluate a parsed filter expression against a task.
+ */
+export function evaluateQuery(node: QueryNode, task: IndexedTask): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((c) => evaluateQuery(c, task));
+    case "or":
+      return node.children.some((c) => evaluateQuery(c, task));
+    case "not":
+      return !evaluateQuery(node.child, task);
+    case "text":
+      return task.title.toLowerCase().includes(node.value.toLowerCase());
+    case "compare":
+      return evaluateCompare(node.field, node.op, node.value, task);
+  }
+}
+
+function evaluateCompare(
+  field: string,
+  op: QueryOperator,
+  rawValue: string,
+  task: IndexedTask
+): boolean {
+  const def = FIELDS[field];
+  if (!def) return false;
+  const actual = def.get(task);
+
+  // "none" compares against missing values; for priority it's level 0
+  if (rawValue.toLowerCase() === "none" && def.kind !== "list" && def.kind !== "number") {
+    const isNone = actual === null || actual === "";
+    return op === "!=" ? !isNone : op === "=" ? isNone : false;
+  }
+
+  switch (def.kind) {
+    case "date": {
+      const target = resolveDateValue(rawValue);
+      if (actual === null || target === null) return op === "!=";
+      return compareOrdered(String(actual).localeCompare(target), op);
+    }
+    case "number":
+    case "duration": {
+      const target =
+        def.kind === "number" ? parsePriorityValue(rawValue) : parseDurationValue(rawValue);
+      if (actual === null || target === null) return op === "!=";
+      return compareOrdered(Math.sign((actual as number) - target), op);
+    }
+    case "boolean": {
+      const target = parseBooleanValue(rawValue);
+      return op === "!=" ? actual !== target : actual === target;
+    }
+    case "text": {
+      const a = actual === null ? "" : String(actual).toLowerCase();
+      const b = rawValue.toLowerCase();
+      if (op === "contains") return a.includes(b);
+      return op === "!=" ? a !== b : a === b;
+    }
+    case "list": {
+      const list = (actual as string[]).map((s) => s.toLowerCase());
+      const b = rawValue.toLowerCase();
+      if (b === "none") return op === "!=" ? list.length > 0 : list.length === 0;
+      if (op === "contains") return list.some((s) => s.includes(b));
+      return op === "!=" ? !list.includes(b) : list.includes(b);
+    }
+  }
+}
+
+function compareOrdered(cmp: number, op: QueryOperator): boolean {
+  switch (op) {
+    case "=":
+      return cmp === 0;
+    case "!=":
+      return cmp !== 0;
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    default:
+      return false;
+  }
+}
+
+function validateValue(kind: FieldKind, value: string): string | null {
+  if (value.toLowerCase() === "none") return null;
+
+  switch (kind) {
+    case "date":
+      return resolveDateValue(value) ? null : `Invalid date '${value}'`;
+    case "number":
+      return parsePriorityValue(value) !== null ? null : `Invalid priority '${value}'`;
+    case "duration":
+      return parseDurationValue(value) !== null ? null : `Invalid duration '${value}'`;
+    case "boolean":
+      return /^(true|false|yes|no)$/i.test(value) ? null : `Expected true or false, got '${value}'`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a date value to YYYY-MM-DD.
+ * Accepts today/tomorrow/yesterday, relative offsets (+3d, -1w, +2m, +1y),
+ * YYYY-MM-DD, YYYYMMDD, or any natural date phrase ("next friday").
+ */
+function resolveDateValue(value: string): string | null {
+  const v = value.trim().toLowerCase();
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const rel = v.match(/^([+-])(\d+)([dwmy])$/);
+  if (rel) {
+    const n = parseInt(rel[2]) * (rel[1] === "-" ? -1 : 1);
+    const d = new Date(today);
+    switch (rel[3]) {
+      case "d":
+        d.setDate(d.getDate() + n);
+        break;
+      case "w":
+        d.setDate(d.getDate() + n * 7);
+        break;
+      case "m":
+        d.setMonth(d.getMonth() + n);
+        break;
+      case "y":
+        d.setFullYear(d.getFullYear() + n);
+        break;
+    }
+    return formatDateYmd(d);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    return parseNaturalDate(v.replace(/-/g, "")).date ? v : null;
+  }
+
+  const { date, remainingText } = parseNaturalDate(v);
+  if (date && !remainingText) return formatDateYmd(date);
+
+  return null;
+}
+
+function parsePriorityValue(value: string): number | null {
+  const v = value.trim().toLowerCase();
+  if (/^[0-3]$/.test(v)) return parseInt(v);
+  if (/^!{1,3}$/.test(v)) return v.length;
+  const labels = ["none", "low", "medium", "high"];
+  const idx = labels.indexOf(v);
+  return idx === -1 ? null : idx;
+}
+
+function parseDurationValue(value: string): number | null {
+  const m = value.trim().toLowerCase().match(/^~?(\d+)([mhd]?)$/);
+  if (!m) return null;
+  const n = parseInt(m[1]);
+  switch (m[2]) {
+    case "h":
+      return n * 60;
+    case "d":
+      return n * 60 * 8; // 8-hour workday, same as ~1d estimates
+    default:
+      return n;
+  }
+}
+
+function parseBooleanValue(value: string): boolean {
+  return /^(true|yes)$/i.test(value.trim());
+}
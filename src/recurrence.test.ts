@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  advanceRule,
+  formatRecurrence,
+  nextOccurrence,
+  occurrencesOnCompletion,
+  parseRecurrence,
+  shiftYmd,
+  toRRule,
+} from "./recurrence";
+import type { RecurrenceRule } from "./types";
+
+function rule(text: string): RecurrenceRule {
+  const { recurrence } = parseRecurrence(text);
+  if (!recurrence) throw new Error(`no rule in: ${text}`);
+  return recurrence;
+}
+
+describe("parseRecurrence", () => {
+  it.each([
+    ["every day", { freq: "DAILY", interval: 1 }],
+    ["every 3 days", { freq: "DAILY", interval: 3 }],
+    ["every other week", { freq: "WEEKLY", interval: 2 }],
+    ["every monday", { freq: "WEEKLY", interval: 1, byDay: [{ day: 1 }] }],
+    ["every mon wed fri", { freq: "WEEKLY", interval: 1, byDay: [{ day: 1 }, { day: 3 }, { day: 5 }] }],
+    ["every monday and thursday", { freq: "WEEKLY", byDay: [{ day: 1 }, { day: 4 }] }],
+    ["every weekday", { freq: "WEEKLY", byDay: [1, 2, 3, 4, 5].map((day) => ({ day })) }],
+    ["every 2 weeks on fri", { freq: "WEEKLY", interval: 2, byDay: [{ day: 5 }] }],
+    ["every 2nd tuesday", { freq: "MONTHLY", byDay: [{ day: 2, nth: 2 }] }],
+    ["every last friday of the month", { freq: "MONTHLY", byDay: [{ day: 5, nth: -1 }] }],
+    ["every 3 months on the 15th", { freq: "MONTHLY", interval: 3, byMonthDay: [15] }],
+    ["every month on the last day", { freq: "MONTHLY", byMonthDay: [-1] }],
+    ["every year on mar 31", { freq: "YEARLY", byMonth: [3], byMonthDay: [31] }],
+    ["every day until 20261231", { freq: "DAILY", until: "2026-12-31" }],
+    ["every monday for 10 times", { freq: "WEEKLY", count: 10 }],
+    ["every 3 days when done", { freq: "DAILY", interval: 3, whenDone: true }],
+    ["every day skip missed", { catchUp: "skip" }],
+    ["every day catch up", { catchUp: "each" }],
+  ])("%s", (text, expected) => {
+    expect(rule(text)).toMatchObject({ ...expected, originalText: text });
+  });
+
+  it("takes the phrase out of the surrounding text", () => {
+    expect(parseRecurrence("Water plants every 3 days #home")).toMatchObject({
+      recurrence: { freq: "DAILY", interval: 3, originalText: "every 3 days" },
+      remainingText: "Water plants #home",
+    });
+  });
+
+  it.each(["Buy everything", "every", "Review everyday items", "every blue moon"])(
+    "finds no rule in %j",
+    (text) => {
+      expect(parseRecurrence(text)).toEqual({ recurrence: null, remainingText: text });
+    }
+  );
+
+  it("ignores an until date that doesn't exist", () => {
+    expect(rule("every day until 20260231").until).toBeUndefined();
+  });
+});
+
+describe("formatRecurrence", () => {
+  it.each([
+    "every day",
+    "every 3 days",
+    "every week",
+    "every mon wed fri",
+    "every weekday",
+    "every 2 weeks on fri",
+    "every 2nd tue",
+    "every last fri",
+    "every 3 months on the 15th",
+    "every month on the last day",
+    "every year on mar 31",
+    "every day until 20261231",
+    "every mon for 10 times",
+    "every 3 days when done",
+    "every day skip missed",
+  ])("reads back %s to the same rule", (text) => {
+    const { originalText, ...parsed } = rule(text);
+    expect(originalText).toBe(text);
+    expect(formatRecurrence(parsed)).toBe(text);
+  });
+});
+
+describe("nextOccurrence", () => {
+  it.each([
+    ["every day", "2026-01-31", "2026-02-01"],
+    ["every 3 days", "2026-01-30", "2026-02-02"],
+    ["every week", "2026-01-05", "2026-01-12"],
+    ["every mon wed fri", "2026-01-09", "2026-01-12"],
+    ["every weekday", "2026-01-09", "2026-01-12"],
+    ["every 2 weeks on mon fri", "2026-01-05", "2026-01-09"],
+    ["every 2 weeks on mon fri", "2026-01-09", "2026-01-19"],
+    ["every month", "2026-01-15", "2026-02-15"],
+    ["every month on the last day", "2026-01-31", "2026-02-28"],
+    ["every 2nd tuesday", "2026-01-13", "2026-02-10"],
+    ["every last friday of the month", "2026-01-30", "2026-02-27"],
+    ["every 3 months on the 15th", "2026-01-15", "2026-04-15"],
+    ["every year on feb 29", "2024-02-29", "2028-02-29"],
+    ["every year", "2026-03-31", "2027-03-31"],
+  ])("%s after %s is %s", (text, anchor, expected) => {
+    expect(nextOccurrence(rule(text), anchor)).toBe(expected);
+  });
+
+  it("counts from a later date while keeping the anchor's phase", () => {
+    expect(nextOccurrence(rule("every 3 days"), "2026-01-01", "2026-01-05")).toBe("2026-01-07");
+  });
+
+  it.each([
+    ["every day until 20260110", "2026-01-10", null],
+    ["every day until 20260110", "2026-01-09", "2026-01-10"],
+    ["every day for 1 times", "2026-01-01", null],
+    ["every day for 2 times", "2026-01-01", "2026-01-02"],
+  ])("%s after %s ends at %s", (text, anchor, expected) => {
+    expect(nextOccurrence(rule(text), anchor)).toBe(expected);
+  });
+});
+
+describe("occurrencesOnCompletion", () => {
+  it.each([
+    // [rule, due, completed on, instances created]
+    ["every day", "2026-01-10", "2026-01-10", ["2026-01-11"]],
+    ["every day", "2026-01-05", "2026-01-10", ["2026-01-06"]],
+    ["every day skip missed", "2026-01-05", "2026-01-10", ["2026-01-10"]],
+    ["every 2 days catch up", "2026-01-01", "2026-01-06", ["2026-01-03", "2026-01-05", "2026-01-07"]],
+    ["every 3 days when done", "2026-01-01", "2026-01-10", ["2026-01-13"]],
+    ["every day until 20260110", "2026-01-10", "2026-01-10", []],
+  ])("%s due %s, done %s", (text, due, today, dates) => {
+    expect(occurrencesOnCompletion(rule(text), due, today).dates).toEqual(dates);
+  });
+
+  it("creates nothing for a task without a due date unless it counts from completion", () => {
+    expect(occurrencesOnCompletion(rule("every week"), null, "2026-01-10").dates).toEqual([]);
+    expect(occurrencesOnCompletion(rule("every week when done"), null, "2026-01-10").dates).toEqual([
+      "2026-01-17",
+    ]);
+  });
+
+  it("carries one fewer occurrence on", () => {
+    const { rule: next } = occurrencesOnCompletion(rule("every day for 3 times"), "2026-01-01", "2026-01-01");
+    expect(next.count).toBe(2);
+    expect(next.originalText).toBe("every day for 2 times");
+  });
+
+  it("uses up one occurrence per instance caught up", () => {
+    const result = occurrencesOnCompletion(rule("every day for 5 times catch up"), "2026-01-01", "2026-01-03");
+    expect(result.dates).toEqual(["2026-01-02", "2026-01-03"]);
+    expect(result.rule.count).toBe(3);
+  });
+});
+
+describe("advanceRule", () => {
+  it("leaves a rule without a count alone", () => {
+    const r = rule("every week");
+    expect(advanceRule(r)).toBe(r);
+  });
+});
+
+describe("shiftYmd", () => {
+  it.each([
+    ["2026-01-28", "2026-02-01", "2026-03-01", "2026-02-25"],
+    ["2026-03-30", "2026-03-31", "2026-04-30", "2026-04-29"],
+    ["2026-01-05", "2026-01-01", "2026-01-01", "2026-01-05"],
+  ])("moves %s by %s..%s to %s", (ymd, from, to, expected) => {
+    expect(shiftYmd(ymd, from, to)).toBe(expected);
+  });
+});
+
+describe("toRRule", () => {
+  it.each([
+    ["every day", false, "FREQ=DAILY"],
+    ["every 3 days", false, "FREQ=DAILY;INTERVAL=3"],
+    ["every mon wed", false, "FREQ=WEEKLY;BYDAY=MO,WE"],
+    ["every last friday of the month", false, "FREQ=MONTHLY;BYDAY=-1FR"],
+    ["every year on mar 31", false, "FREQ=YEARLY;BYMONTHDAY=31;BYMONTH=3"],
+    ["every day until 20261231", false, "FREQ=DAILY;UNTIL=20261231"],
+    ["every day until 20261231", true, "FREQ=DAILY;UNTIL=20261231T235959"],
+    ["every day for 4 times", false, "FREQ=DAILY;COUNT=4"],
+  ])("%s (timed: %s)", (text, timed, expected) => {
+    expect(toRRule(rule(text), timed)).toBe(expected);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Recurrence rules: parsing, formatting, next-occurrence calculation and
+ * RRULE export. Rules mirror RFC 5545 RRULE parts (FREQ, INTERVAL, BYDAY,
+ * BYMONTHDAY, BYMONTH, UNTIL, COUNT).
+ */
+
+import type { RecurrenceRule, RecurrenceFreq } from "./types";
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1,
+};
+const UNIT_FREQ: Record<string, RecurrenceFreq> = {
+  day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY",
+};
+
+const DAY = "(?:sun(?:day)?|mon(?:day)?|tue(?:sday|s)?|wed(?:nesday)?|thu(?:rsday|rs)?|fri(?:day)?|sat(?:urday)?)s?";
+const DAY_LIST = `${DAY}(?:(?:\\s*,\\s*|\\s+and\\s+|\\s+)${DAY})*`;
+const ORD = "(?:\\d(?:st|nd|rd|th)|first|second|third|fourth|fifth|last)";
+const MONTH = "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const MONTH_DAY = "(?:\\d{1,2}(?:st|nd|rd|th)|last day)";
+const EVERY_N = "(?:(\\d+)\\s+|other\\s+)?";
+
+// Most missed instances "catch up" creates at once
+const MAX_CATCH_UP = 50;
+
+/**
+ * Body patterns after "every", most specific first.
+ */
+const PATTERNS: { regex: RegExp; build: (m: RegExpMatchArray) => Omit<RecurrenceRule, "originalText"> | null }[] = [
+  // every 2nd tuesday, every last friday of the month
+  {
+    regex: new RegExp(`^(${ORD})\\s+(${DAY})(?:\\s+of\\s+(?:the|every)\\s+month)?`, "i"),
+    build: (m) => ({
+      freq: "MONTHLY",
+      interval: 1,
+      byDay: [{ day: dayIndex(m[2]), nth: ordinal(m[1]) }],
+    }),
+  },
+  // every 3 months on the 15th / on the 2nd tuesday / on the last day
+  {
+    regex: new RegExp(`^${EVERY_N}months?\\s+on\\s+the\\s+(?:(${ORD})\\s+(${DAY})|(${MONTH_DAY}))`, "i"),
+    build: (m) => ({
+      freq: "MONTHLY",
+      interval: intervalOf(m),
+      ...(m[4]
+        ? { byMonthDay: [monthDay(m[4])] }
+        : { byDay: [{ day: dayIndex(m[3]), nth: ordinal(m[2]) }] }),
+    }),
+  },
+  // every year on mar 31
+  {
+    regex: new RegExp(`^${EVERY_N}years?\\s+on\\s+(${MONTH})\\s+(\\d{1,2})(?:st|nd|rd|th)?`, "i"),
+    build: (m) => {
+      const month = monthIndex(m[2]) + 1;
+      const day = parseInt(m[3], 10);
+      if (day < 1 || day > 31) return null;
+      return { freq: "YEARLY", interval: intervalOf(m), byMonth: [month], byMonthDay: [day] };
+    },
+  },
+  // every weekday
+  {
+    regex: /^weekday/i,
+    build: () => ({
+      freq: "WEEKLY",
+      interval: 1,
+      byDay: [1, 2, 3, 4, 5].map((day) => ({ day })),
+    }),
+  },
+  // every 2 weeks on mon wed
+  {
+    regex: new RegExp(`^${EVERY_N}weeks?\\s+on\\s+(${DAY_LIST})`, "i"),
+    build: (m) => ({ freq: "WEEKLY", interval: intervalOf(m), byDay: dayList(m[2]) }),
+  },
+  // every mon wed fri, every monday and thursday
+  {
+    regex: new RegExp(`^(${DAY_LIST})`, "i"),
+    build: (m) => ({ freq: "WEEKLY", interval: 1, byDay: dayList(m[1]) }),
+  },
+  // every day, every 3 days, every other week
+  {
+    regex: new RegExp(`^${EVERY_N}(day|week|month|year)s?`, "i"),
+    build: (m) => ({ freq: UNIT_FREQ[m[2].toLowerCase()], interval: intervalOf(m) }),
+  },
+];
+
+/**
+ * Parse a recurrence phrase from anywhere in the text, with optional end
+ * conditions and modes: "every 3 months on the 15th until 20261231",
+ * "every monday for 10 times", "every 3 days when done", "every day skip missed".
+ */
+export function parseRecurrence(text: string): {
+  recurrence: RecurrenceRule | null;
+  remainingText: string;
+} {
+  const everyRegex = /(^|\s)every\s+/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = everyRegex.exec(text)) !== null) {
+    const phraseStart = match.index + match[1].length;
+    const bodyStart = match.index + match[0].length;
+    const body = text.slice(bodyStart);
+
+    for (const { regex, build } of PATTERNS) {
+      const m = body.match(regex);
+      if (!m) continue;
+
+      const rule = build(m);
+      if (!rule) continue;
+
+      let end = bodyStart + m[0].length;
+      const tail = parseRuleOptions(text.slice(end));
+      end += tail.length;
+
+      // Phrase must end on a word boundary
+      if (end < text.length && !/\s/.test(text[end])) continue;
+
+      const originalText = text.slice(phraseStart, end).trim();
+      return {
+        recurrence: { ...rule, ...tail.conditions, originalText },
+        remainingText: (text.slice(0, phraseStart) + " " + text.slice(end))
+          .replace(/\s+/g, " ")
+          .trim(),
+      };
+    }
+  }
+
+  return { recurrence: null, remainingText: text };
+}
+
+type RuleOptions = Pick<RecurrenceRule, "until" | "count" | "whenDone" | "catchUp">;
+
+function parseRuleOptions(text: string): {
+  length: number;
+  conditions: RuleOptions;
+} {
+  const conditions: RuleOptions = {};
+  let length = 0;
+
+  for (;;) {
+    const rest = text.slice(length);
+
+    const until = rest.match(/^\s+until\s+(\d{4})-?(\d{2})-?(\d{2})(?=\s|$)/i);
+    if (until && !conditions.until && isValidDate(until[1], until[2], until[3])) {
+      conditions.until = `${until[1]}-${until[2]}-${until[3]}`;
+      length += until[0].length;
+      continue;
+    }
+
+    const count = rest.match(/^\s+(?:for\s+)?(\d+)\s+times(?=\s|$)/i);
+    if (count && !conditions.count && parseInt(count[1], 10) > 0) {
+      conditions.count = parseInt(count[1], 10);
+      length += count[0].length;
+      continue;
+    }
+
+    const whenDone = rest.match(/^\s+when\s+done(?=\s|$)/i);
+    if (whenDone && !conditions.whenDone) {
+      conditions.whenDone = true;
+      length += whenDone[0].length;
+      continue;
+    }
+
+    const catchUp = rest.match(/^\s+(skip\s+missed|catch\s+up)(?=\s|$)/i);
+    if (catchUp && !conditions.catchUp) {
+      conditions.catchUp = /^skip/i.test(catchUp[1]) ? "skip" : "each";
+      length += catchUp[0].length;
+      continue;
+    }
+
+    return { length, conditions };
+  }
+}
+
+/**
+ * Canonical text for a rule; parseRecurrence reads it back to the same rule.
+ */
+export function formatRecurrence(rule: Omit<RecurrenceRule, "originalText">): string {
+  const n = rule.interval;
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  const every = n === 1 ? `every ${unit}` : `every ${n} ${unit}s`;
+  let text = every;
+
+  switch (rule.freq) {
+    case "WEEKLY":
+      if (rule.byDay?.length) {
+        const days = rule.byDay.map((d) => d.day).sort((a, b) => a - b);
+        const list = days.map((d) => DAY_NAMES[d]).join(" ");
+        if (n === 1 && days.join() === "1,2,3,4,5") text = "every weekday";
+        else text = n === 1 ? `every ${list}` : `${every} on ${list}`;
+      }
+      break;
+    case "MONTHLY":
+      if (rule.byDay?.length) {
+        const { day, nth } = rule.byDay[0];
+        const nthDay = `${formatOrdinal(nth ?? 1)} ${DAY_NAMES[day]}`;
+        text = n === 1 ? `every ${nthDay}` : `${every} on the ${nthDay}`;
+      } else if (rule.byMonthDay?.length) {
+        const d = rule.byMonthDay[0];
+        text = `${every} on the ${d === -1 ? "last day" : formatOrdinal(d)}`;
+      }
+      break;
+    case "YEARLY":
+      if (rule.byMonth?.length && rule.byMonthDay?.length) {
+        text = `${every} on ${MONTH_NAMES[rule.byMonth[0] - 1]} ${rule.byMonthDay[0]}`;
+      }
+      break;
+  }
+
+  if (rule.until) text += ` until ${rule.until.replace(/-/g, "")}`;
+  if (rule.count) text += ` for ${rule.count} times`;
+  if (rule.whenDone) text += " when done";
+  if (rule.catchUp) text += rule.catchUp === "skip" ? " skip missed" : " catch up";
+  return text;
+}
+
+/**
+ * First date after `fromYmd` matching the rule, with `anchorYmd` (the
+ * current due date) as the series start. Null when the rule has ended.
+ * COUNT is the number of occurrences left including the current one.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  anchorYmd: string,
+  fromYmd: string = anchorYmd
+): string | null {
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const anchor = toDate(anchorYmd);
+  const cursor = toDate(fromYmd);
+
+  // Long enough for a Feb 29 yearly rule at any interval
+  const limit = 366 * 8 * Math.max(1, rule.interval);
+  for (let i = 0; i < limit; i++) {
+    cursor.setDate(cursor.getDate() + 1);
+    if (rule.until && toYmd(cursor) > rule.until) return null;
+    if (matches(rule, anchor, cursor)) return toYmd(cursor);
+  }
+
+  return null;
+}
+
+/**
+ * Instances to create when a recurring task is completed on `todayYmd`,
+ * oldest first, and the rule the last one carries on. "when done" rules count
+ * from today; otherwise overdue instances follow the catch-up policy: by
+ * default only the next one is created, "skip missed" jumps to the first one
+ * on or after today, "catch up" creates every missed instance as well.
+ */
+export function occurrencesOnCompletion(
+  rule: RecurrenceRule,
+  dueYmd: string | null,
+  todayYmd: string
+): { dates: string[]; rule: RecurrenceRule } {
+  if (rule.whenDone) {
+    const next = nextOccurrence(rule, todayYmd);
+    return { dates: next ? [next] : [], rule: advanceRule(rule) };
+  }
+  if (!dueYmd) return { dates: [], rule };
+
+  const dates: string[] = [];
+  let current = rule;
+  let from = dueYmd;
+  for (;;) {
+    const next = nextOccurrence(current, dueYmd, from);
+    if (!next) break;
+    current = advanceRule(current);
+    from = next;
+
+    const missed = next < todayYmd;
+    if (!missed || !rule.catchUp) {
+      dates.push(next);
+      break;
+    }
+    if (rule.catchUp === "each") {
+      dates.push(next);
+      if (dates.length >= MAX_CATCH_UP) break;
+    }
+  }
+
+  return { dates, rule: current };
+}
+
+/**
+ * Move `ymd` by as many days as lie between `from` and `to`, so a start or
+ * scheduled date keeps its distance from the due date on the next instance.
+ */
+export function shiftYmd(ymd: string, from: string, to: string): string {
+  const date = toDate(ymd);
+  date.setDate(date.getDate() + daysBetween(toDate(from), toDate(to)));
+  return toYmd(date);
+}
+
+/**
+ * Rule for the instance after this one: COUNT goes down by one.
+ */
+export function advanceRule(rule: RecurrenceRule): RecurrenceRule {
+  if (rule.count === undefined) return rule;
+  const next = { ...rule, count: rule.count - 1 };
+  return { ...next, originalText: formatRecurrence(next) };
+}
+
+/**
+ * Export a rule as an RFC 5545 RRULE value. UNTIL must match DTSTART's type,
+ * so timed events get an end-of-day date-time.
+ */
+export function toRRule(rule: RecurrenceRule, timed = false): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ""}${RRULE_DAYS[d.day]}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  // UNTIL and COUNT are mutually exclusive in RFC 5545; UNTIL wins
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}${timed ? "T235959" : ""}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+function matches(rule: RecurrenceRule, anchor: Date, date: Date): boolean {
+  switch (rule.freq) {
+    case "DAILY":
+      return daysBetween(anchor, date) % rule.interval === 0;
+
+    case "WEEKLY": {
+      const weeks = Math.floor(daysBetween(startOfWeek(anchor), startOfWeek(date)) / 7);
+      if (weeks % rule.interval !== 0) return false;
+      return rule.byDay?.length
+        ? rule.byDay.some((d) => d.day === date.getDay())
+        : date.getDay() === anchor.getDay();
+    }
+
+    case "MONTHLY": {
+      const months = monthsBetween(anchor, date);
+      if (months % rule.interval !== 0) return false;
+      return matchesDayOfMonth(rule, anchor, date);
+    }
+
+    case "YEARLY": {
+      const years = date.getFullYear() - anchor.getFullYear();
+      if (years % rule.interval !== 0) return false;
+      const month = rule.byMonth?.length ? rule.byMonth : [anchor.getMonth() + 1];
+      if (!month.includes(date.getMonth() + 1)) return false;
+      return matchesDayOfMonth(rule, anchor, date);
+    }
+  }
+}
+
+function matchesDayOfMonth(rule: RecurrenceRule, anchor: Date, date: Date): boolean {
+  if (rule.byDay?.length) {
+    return rule.byDay.some((d) => d.day === date.getDay() && matchesNth(d.nth, date));
+  }
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  const days = rule.byMonthDay?.length ? rule.byMonthDay : [anchor.getDate()];
+  return days.some((d) => (d === -1 ? lastDay : d) === date.getDate());
+}
+
+function matchesNth(nth: number | undefined, date: Date): boolean {
+  if (nth === undefined) return true;
+  if (nth > 0) return Math.ceil(date.getDate() / 7) === nth;
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return Math.ceil((lastDay - date.getDate() + 1) / 7) === -nth;
+}
+
+function intervalOf(m: RegExpMatchArray): number {
+  if (m[1]) return Math.max(1, parseInt(m[1], 10));
+  return /^other\s/i.test(m[0]) ? 2 : 1;
+}
+
+function dayIndex(name: string): number {
+  return DAY_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function dayList(text: string): { day: number }[] {
+  const days = new Set<number>();
+  for (const m of text.matchAll(new RegExp(DAY, "gi"))) days.add(dayIndex(m[0]));
+  return [...days].sort((a, b) => a - b).map((day) => ({ day }));
+}
+
+function monthIndex(name: string): number {
+  return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function ordinal(text: string): number {
+  const lower = text.toLowerCase();
+  return ORDINALS[lower] ?? parseInt(lower, 10);
+}
+
+function monthDay(text: string): number {
+  return /^last/i.test(text) ? -1 : parseInt(text, 10);
+}
+
+function formatOrdinal(n: number): string {
+  if (n === -1) return "last";
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+}
+
+function isValidDate(y: string, m: string, d: string): boolean {
+  const date = new Date(Number(y), Number(m) - 1, Number(d));
+  return date.getMonth() === Number(m) - 1 && date.getDate() === Number(d);
+}
+
+function toDate(ymd: string): Date {
+  return new Date(ymd + "T00:00:00");
+}
+
+function toYmd(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function daysBetween(a: Date, b: Date): number {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcB - utcA) / 86400000);
+}
+
+function monthsBetween(a: Date, b: Date): number {
+  return (b.getFullYear() - a.getFullYear()) * 12 + (b.getMonth() - a.getMonth());
+}
+
+function startOfWeek(date: Date): Date {
+  // RRULE default WKST=MO
+  const result = new Date(date);
+  result.setDate(result.getDate() - ((result.getDay() + 6) % 7));
+  return result;
+}
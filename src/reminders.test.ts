@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { deferForQuietHours, getNextDigest, getPendingReminders, prunePendingReminders } from "./reminders";
+import type { ReminderState } from "./reminders";
+import { parseTodoLine } from "./parser";
+import type { TaskmanSettings } from "./settings";
+import type { IndexedTask } from "./types";
+
+function task(line: string, extra: Partial<IndexedTask> = {}): IndexedTask {
+  const parsed = parseTodoLine(line);
+  if (!parsed) throw new Error(`not a task: ${line}`);
+  return {
+    ...parsed,
+    ephemeralId: "Notes/Test.md:0:1",
+    filePath: "Notes/Test.md",
+    completedDate: null,
+    inherited: null,
+    seriesId: null,
+    prerequisiteIds: [],
+    blocked: false,
+    lineNoHint: 0,
+    rawLine: line,
+    headingPath: [],
+    indentLevel: 0,
+    parentId: null,
+    parentLabel: null,
+    childIds: [],
+    ...extra,
+  };
+}
+
+function settings(extra: Partial<TaskmanSettings>): TaskmanSettings {
+  return {
+    reminderTime: "09:00",
+    quietHoursEnabled: false,
+    quietHoursStart: "22:00",
+    quietHoursEnd: "07:00",
+    quietOnWeekends: false,
+    quietHoursTags: [],
+    morningDigestEnabled: true,
+    morningDigestTime: "08:00",
+    eveningDigestEnabled: true,
+    eveningDigestTime: "20:00",
+    ...extra,
+  } as TaskmanSettings;
+}
+
+// January 2026: the 2nd is a Friday, the 3rd and 4th a weekend, the 5th a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 0, day, hours, minutes);
+
+describe("deferForQuietHours", () => {
+  const plain = task("- [ ] Call Bob");
+  const work = task("- [ ] Send report #work");
+
+  it.each([
+    // [settings, task, fire at, deferred to]
+    ["overnight, before midnight", { quietHoursEnabled: true }, plain, at(5, 23, 30), at(6, 7)],
+    ["overnight, after midnight", { quietHoursEnabled: true }, plain, at(6, 2), at(6, 7)],
+    ["overnight, at the start", { quietHoursEnabled: true }, plain, at(5, 22), at(6, 7)],
+    ["overnight, just before", { quietHoursEnabled: true }, plain, at(5, 21, 59), at(5, 21, 59)],
+    ["overnight, at the end", { quietHoursEnabled: true }, plain, at(6, 7), at(6, 7)],
+    [
+      "a window within the day",
+      { quietHoursEnabled: true, quietHoursStart: "12:00", quietHoursEnd: "13:00" },
+      plain,
+      at(5, 12, 30),
+      at(5, 13),
+    ],
+    ["Saturday", { quietOnWeekends: true }, plain, at(3, 10), at(5, 7)],
+    ["Sunday night", { quietOnWeekends: true }, plain, at(4, 23, 30), at(5, 7)],
+    ["a weekday", { quietOnWeekends: true }, plain, at(5, 10), at(5, 10)],
+    ["Friday night into the weekend", { quietHoursEnabled: true, quietOnWeekends: true }, plain, at(2, 23), at(5, 7)],
+    ["a task with a quiet tag", { quietHoursEnabled: true, quietHoursTags: ["work"] }, work, at(5, 23), at(6, 7)],
+    ["a task without one", { quietHoursEnabled: true, quietHoursTags: ["work"] }, plain, at(5, 23), at(5, 23)],
+    ["quiet hours off", {}, plain, at(5, 23), at(5, 23)],
+  ])("%s", (_name, extra, t, fireAt, expected) => {
+    expect(deferForQuietHours(fireAt, t, settings(extra))).toEqual(expected);
+  });
+});
+
+describe("getNextDigest", () => {
+  it.each([
+    // [now, shown, expected kind, expected fire time]
+    [at(5, 7), {}, "morning", at(5, 8)],
+    [at(5, 9), { morning: "2026-01-05" }, "evening", at(5, 20)],
+    [at(5, 21), { evening: "2026-01-05" }, "morning", at(6, 8)],
+    // Missed while Obsidian was closed: due now, and only the latest one
+    [at(5, 9), {}, "morning", at(5, 8)],
+    [at(5, 21), {}, "evening", at(5, 20)],
+    [at(5, 21), { morning: "2026-01-04" }, "evening", at(5, 20)],
+  ])("at %s with %j shown", (now, shown, kind, fireAt) => {
+    expect(getNextDigest(settings({}), shown, now)).toEqual({ kind, fireAt });
+  });
+
+  it("skips a disabled digest", () => {
+    const morningOnly = settings({ eveningDigestEnabled: false });
+    expect(getNextDigest(morningOnly, { morning: "2026-01-05" }, at(5, 21))).toEqual({
+      kind: "morning",
+      fireAt: at(6, 8),
+    });
+  });
+
+  it("has nothing to show with both digests off", () => {
+    const off = settings({ morningDigestEnabled: false, eveningDigestEnabled: false });
+    expect(getNextDigest(off, {}, at(5, 9))).toBeNull();
+  });
+});
+
+describe("pending reminders", () => {
+  const snoozed = task("- [ ] Call Bob <!--todo:id=abc;v=1-->", { stableId: "abc" });
+  const nagged = task("- [ ] Pay rent <!--todo:id=def;v=1-->", { stableId: "def" });
+  const state: ReminderState = {
+    fired: {},
+    pending: {
+      abc: { fireAt: at(5, 10).getTime(), kind: "snooze" },
+      def: { fireAt: at(5, 10, 15).getTime(), kind: "nag" },
+    },
+    digests: {},
+  };
+  // What plugin data looks like after Obsidian restarts
+  const reloaded = JSON.parse(JSON.stringify(state)) as ReminderState;
+
+  it("schedules a snooze and a nag again after a reload", () => {
+    const reminders = getPendingReminders([snoozed, nagged], reloaded.pending);
+    expect(reminders.map((r) => [r.task.stableId, r.pending, r.fireAt])).toEqual([
+      ["abc", "snooze", at(5, 10)],
+      ["def", "nag", at(5, 10, 15)],
+    ]);
+  });
+
+  it("keeps them for open tasks that are recent enough", () => {
+    expect(prunePendingReminders(reloaded.pending, [snoozed, nagged], at(5, 9).getTime())).toEqual(state.pending);
+  });
+
+  it.each([
+    ["its task is completed", [{ ...snoozed, checked: true }, nagged], at(5, 9), ["def"]],
+    ["its task is deleted", [nagged], at(5, 9), ["def"]],
+    ["it came due too long ago", [snoozed, nagged], at(5, 10, 5), ["def"]],
+  ])("drops the snooze when %s", (_name, tasks, staleBefore, kept) => {
+    expect(Object.keys(prunePendingReminders(reloaded.pending, tasks, staleBefore.getTime()))).toEqual(kept);
+  });
+
+  it("doesn't schedule one for a completed task", () => {
+    const reminders = getPendingReminders([{ ...snoozed, checked: true }, nagged], reloaded.pending);
+    expect(reminders.map((r) => r.task.stableId)).toEqual(["def"]);
+  });
+});
@@ -1,31 +1,70 @@
-import { Notice } from "obsidian";
 import type { IndexedTask } from "./types";
 import type { TaskmanSettings } from "./settings";
 
-export type ReminderKey = string; // format: "taskId:YYYY-MM-DD:HH:MM"
+export type ReminderKey = string; // format: "taskId:YYYY-MM-DD:daysBefore", "taskId:YYYY-MM-DDTHH:MM:daysBefore" or "taskId:remind:YYYY-MM-DDTHH:MM"
 
 export interface ReminderState {
   fired: Record<string, number>; // key -> timestamp when fired
+  pending: Record<string, PendingReminder>; // task ID -> follow-up (snooze or nag)
+  digests: Record<string, string>; // digest kind -> YYYY-MM-DD last shown
+}
+
+/**
+ * A follow-up reminder that isn't derived from the task line: a snooze the
+ * user asked for, or a nag repeating until the reminder is acknowledged.
+ */
+export interface PendingReminder {
+  fireAt: number; // epoch ms
+  kind: "snooze" | "nag";
 }
 
 export interface ScheduledReminder {
   task: IndexedTask;
   fireAt: Date;
   key: ReminderKey;
+  pending?: PendingReminder["kind"];
+}
+
+export type SnoozeOption = "10m" | "1h" | "tomorrow";
+
+export type DigestKind = "morning" | "evening";
+
+export interface DigestCounts {
+  overdue: number;
+  dueToday: number;
+  waiting: number;
+}
+
+/**
+ * Actions offered on a reminder notification.
+ */
+export interface ReminderActions {
+  onSnooze: (option: SnoozeOption) => void;
+  onComplete: () => void;
+  onOpen: () => void;
 }
 
 /**
  * Compute all reminder times for a task based on settings.
+ * Timed tasks are reminded relative to their due time instead of the
+ * global reminder time. Per-task reminders (⏰ 2h before, remind:...) replace
+ * the defaults or add to them, depending on settings.
  */
 export function computeRemindersForTask(
   task: IndexedTask,
   settings: TaskmanSettings
 ): ScheduledReminder[] {
   if (task.checked) return []; // no reminders for completed tasks
-  if (!task.dueYmd) return []; // no reminders for tasks without dates
 
-  const reminders: ScheduledReminder[] = [];
-  const [hours, minutes] = settings.reminderTime.split(":").map(Number);
+  const taskId = task.stableId || task.ephemeralId;
+  const reminders = computeTaskReminders(task, taskId, settings);
+
+  const useDefaults = reminders.length === 0 || !settings.taskRemindersReplaceDefaults;
+  if (!useDefaults || !task.dueYmd) return reminders;
+
+  const [hours, minutes] = (task.dueTime ?? settings.reminderTime)
+    .split(":")
+    .map(Number);
 
   for (const daysBefore of settings.remindDaysBefore) {
     // Parse due date
@@ -36,8 +75,16 @@ export function computeRemindersForTask(
     reminderDate.setDate(reminderDate.getDate() - daysBefore);
     reminderDate.setHours(hours, minutes, 0, 0);
 
-    const taskId = task.stableId || task.ephemeralId;
-    const key: ReminderKey = `${taskId}:${task.dueYmd}:${daysBefore}`;
+    // Day-of reminders for timed tasks fire a little before the due time
+    if (task.dueTime && daysBefore === 0) {
+      reminderDate.setMinutes(reminderDate.getMinutes() - settings.timedReminderLeadMinutes);
+    }
+
+    // A task reminder already covers this moment
+    if (reminders.some((r) => r.fireAt.getTime() === reminderDate.getTime())) continue;
+
+    const due = task.dueTime ? `${task.dueYmd}T${task.dueTime}` : task.dueYmd;
+    const key: ReminderKey = `${taskId}:${due}:${daysBefore}`;
 
     reminders.push({
       task,
@@ -49,6 +96,51 @@ export function computeRemindersForTask(
   return reminders;
 }
 
+/**
+ * Reminders written on the task itself. Offsets count back from the due
+ * time (or the default reminder time for untimed tasks).
+ *
+ * Keys carry the fire time rather than the reminder's position, so editing
+ * one reminder re-arms only that one and an unchanged reminder never fires twice.
+ */
+function computeTaskReminders(
+  task: IndexedTask,
+  taskId: string,
+  settings: TaskmanSettings
+): ScheduledReminder[] {
+  const reminders: ScheduledReminder[] = [];
+
+  for (const r of task.reminders) {
+    let fireAt: Date;
+    if (r.type === "at") {
+      fireAt = new Date(`${r.at}:00`);
+    } else {
+      if (!task.dueYmd) continue; // offsets need a due date
+      fireAt = new Date(`${task.dueYmd}T${task.dueTime ?? settings.reminderTime}:00`);
+      fireAt.setMinutes(fireAt.getMinutes() - r.minutes);
+    }
+
+    if (reminders.some((existing) => existing.fireAt.getTime() === fireAt.getTime())) continue;
+
+    reminders.push({
+      task,
+      fireAt,
+      key: `${taskId}:remind:${formatLocalDateTime(fireAt)}`,
+    });
+  }
+
+  return reminders;
+}
+
+function formatLocalDateTime(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  const hh = String(date.getHours()).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  return `${y}-${m}-${d}T${hh}:${mm}`;
+}
+
 /**
  * Get all upcoming reminders from the task index.
  */
@@ -81,6 +173,194 @@ export function getAllUpcomingReminders(
   return all;
 }
 
+/**
+ * Turn pending snoozes and nags into scheduled reminders. Entries whose task
+ * is gone or already checked are skipped (see prunePendingReminders).
+ */
+export function getPendingReminders(
+  tasks: IndexedTask[],
+  pending: Record<string, PendingReminder>
+): ScheduledReminder[] {
+  const reminders: ScheduledReminder[] = [];
+
+  for (const task of tasks) {
+    const taskId = task.stableId || task.ephemeralId;
+    const p = pending[taskId];
+    if (!p || task.checked) continue;
+
+    reminders.push({
+      task,
+      fireAt: new Date(p.fireAt),
+      key: `${taskId}:${p.kind}:${p.fireAt}`,
+      pending: p.kind,
+    });
+  }
+
+  return reminders;
+}
+
+/**
+ * Drop pending reminders for tasks that were completed or no longer exist,
+ * and ones that came due before `staleBefore` (too long ago to replay).
+ */
+export function prunePendingReminders(
+  pending: Record<string, PendingReminder>,
+  tasks: IndexedTask[],
+  staleBefore: number
+): Record<string, PendingReminder> {
+  const open = new Set(
+    tasks.filter((t) => !t.checked).map((t) => t.stableId || t.ephemeralId)
+  );
+  const pruned: Record<string, PendingReminder> = {};
+
+  for (const [taskId, p] of Object.entries(pending)) {
+    if (open.has(taskId) && p.fireAt >= staleBefore) pruned[taskId] = p;
+  }
+
+  return pruned;
+}
+
+/**
+ * When a snoozed reminder should fire again. "tomorrow" means the default
+ * reminder time on the next day.
+ */
+export function computeSnoozeTime(
+  option: SnoozeOption,
+  settings: TaskmanSettings,
+  now: Date = new Date()
+): Date {
+  switch (option) {
+    case "10m":
+      return new Date(now.getTime() + 10 * 60 * 1000);
+    case "1h":
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case "tomorrow": {
+      const [hours, minutes] = settings.reminderTime.split(":").map(Number);
+      const next = new Date(now);
+      next.setDate(next.getDate() + 1);
+      next.setHours(hours, minutes, 0, 0);
+      return next;
+    }
+  }
+}
+
+/**
+ * Move a reminder that falls in quiet hours (or on a quiet weekend) to the
+ * end of the quiet window. Tasks without a quiet-hours tag are left alone
+ * when tags are configured.
+ */
+export function deferForQuietHours(
+  fireAt: Date,
+  task: IndexedTask,
+  settings: TaskmanSettings
+): Date {
+  if (!settings.quietHoursEnabled && !settings.quietOnWeekends) return fireAt;
+  if (
+    settings.quietHoursTags.length > 0 &&
+    !settings.quietHoursTags.some((tag) => task.tags.includes(tag))
+  ) {
+    return fireAt;
+  }
+
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  const result = new Date(fireAt);
+
+  // Each step lands on a quiet-window end, so a few passes always settle
+  for (let i = 0; i < 4; i++) {
+    const day = result.getDay();
+    const minutes = result.getHours() * 60 + result.getMinutes();
+
+    if (settings.quietOnWeekends && (day === 0 || day === 6)) {
+      result.setDate(result.getDate() + (day === 6 ? 2 : 1));
+      result.setHours(Math.floor(end / 60), end % 60, 0, 0);
+      continue;
+    }
+
+    if (!settings.quietHoursEnabled || start === end) break;
+
+    const overnight = start > end;
+    const quiet = overnight
+      ? minutes >= start || minutes < end
+      : minutes >= start && minutes < end;
+    if (!quiet) break;
+
+    if (overnight && minutes >= start) result.setDate(result.getDate() + 1);
+    result.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  }
+
+  return result;
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Count open tasks for a digest.
+ */
+export function computeDigestCounts(tasks: IndexedTask[], today: string): DigestCounts {
+  const open = tasks.filter((t) => !t.checked);
+  return {
+    overdue: open.filter((t) => t.dueYmd && t.dueYmd < today).length,
+    dueToday: open.filter((t) => t.dueYmd === today).length,
+    waiting: open.filter((t) => t.status === "waiting").length,
+  };
+}
+
+/**
+ * Next enabled digest that hasn't been shown yet, with its fire time. A
+ * digest whose time already passed today without it being shown (Obsidian
+ * was closed) is due now, unless a later digest has passed too.
+ */
+export function getNextDigest(
+  settings: TaskmanSettings,
+  shown: Record<string, string>,
+  now: Date = new Date()
+): { kind: DigestKind; fireAt: Date } | null {
+  const candidates: { kind: DigestKind; time: string }[] = [];
+  if (settings.morningDigestEnabled) candidates.push({ kind: "morning", time: settings.morningDigestTime });
+  if (settings.eveningDigestEnabled) candidates.push({ kind: "evening", time: settings.eveningDigestTime });
+
+  const today = formatYmd(now);
+  const timeToday = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const date = new Date(now);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  // The latest digest already past today; earlier missed ones are superseded by it
+  let late: { kind: DigestKind; fireAt: Date } | null = null;
+  for (const { kind, time } of candidates) {
+    const fireAt = timeToday(time);
+    if (fireAt <= now && (!late || fireAt > late.fireAt)) late = { kind, fireAt };
+  }
+  if (late && shown[late.kind] !== today) return late;
+
+  let next: { kind: DigestKind; fireAt: Date } | null = null;
+  for (const { kind, time } of candidates) {
+    const fireAt = timeToday(time);
+
+    // Already past (or already shown) today: tomorrow's
+    if (fireAt <= now || shown[kind] === today) {
+      fireAt.setDate(fireAt.getDate() + 1);
+    }
+
+    if (!next || fireAt < next.fireAt) next = { kind, fireAt };
+  }
+
+  return next;
+}
+
+function formatYmd(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
 /**
  * Find the next reminder that should fire.
  */
@@ -109,51 +389,8 @@ export function getMissedReminders(
   return reminders.filter((r) => r.fireAt >= windowStart && r.fireAt <= now);
 }
 
-/**
- * Show a notification for a task.
- */
-export function showTaskNotification(
-  task: IndexedTask,
-  useSystemNotification: boolean,
-  prefix: string = ""
-): void {
-  const title = prefix ? `${prefix}: ${task.title}` : task.title;
-  const body = task.dueYmd ? `Due: ${task.dueYmd}` : "No due date";
-
-  // Always show in-app notice
-  new Notice(`📋 ${title}\n${body}`, 10000);
-
-  // Also show system notification if enabled
-  if (useSystemNotification && "Notification" in window) {
-    if (Notification.permission === "granted") {
-      new Notification(`TaskMan: ${title}`, {
-        body,
-        icon: "📋",
-        tag: task.stableId || task.ephemeralId, // prevents duplicates
-      });
-    }
-  }
-}
-
-/**
- * Show a digest notification for multiple missed tasks.
- */
-export function showDigestNotification(
-  tasks: IndexedTask[],
-  useSystemNotification: boolean
-): void {
-  const message = `You have ${tasks.length} overdue/upcoming tasks`;
-
-  new Notice(`📋 ${message}`, 10000);
-
-  if (useSystemNotification && "Notification" in window) {
-    if (Notification.permission === "granted") {
-      new Notification("TaskMan", {
-        body: message,
-        icon: "📋",
-      });
-    }
-  }
+export function formatDigestCounts(counts: DigestCounts): string {
+  return `${counts.overdue} overdue, ${counts.dueToday} due today, ${counts.waiting} waiting`;
 }
 
 /**
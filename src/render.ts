@@ -1,12 +1,26 @@
 import type { App } from "obsidian";
 import type {
+  BulkAction,
   IndexSnapshot,
   TaskmanOptions,
   IndexedTask,
   ParseError,
   Priority,
   StatsStore,
+  QueryError,
+  KanbanMove,
+  RecurrenceRule,
+  TaskPatch,
 } from "./types";
+import { parseFilterQuery, evaluateQuery } from "./query";
+import { effectiveStatus, waitsOnPrerequisites } from "./dependencies";
+import { buildDependencyGraph } from "./graph";
+import { buildKanbanColumns, parseKanbanColumns, parseWipLimits } from "./kanban";
+import { TaskEditPopover } from "./popover";
+import { formatDateYmd, parseNaturalDate } from "./dateParser";
+import { formatHeadingPath, nestTasks, snapshotLookup, subtasksOf } from "./hierarchy";
+import type { TaskLookup, TreeRow } from "./hierarchy";
+import { matchesGlob } from "./pathRules";
 
 const PRIORITY_ICONS: Record<Priority, string> = {
   0: "",
@@ -21,6 +35,23 @@ const STATUS_ICONS = {
   blocked: "🚫",
 };
 
+// Tasks picked for a bulk action in one rendered block
+type TaskSelection = {
+  tasks: Map<string, IndexedTask>;
+  rows: Map<string, HTMLElement[]>;
+  visible: IndexedTask[];
+  changed: () => void;
+};
+
+// How task lists show subtasks: progress on parents, and nested under them with `tree: true`
+type TaskTree = {
+  lookup: TaskLookup;
+  nested: boolean;
+};
+
+// Keys of collapsed parents, kept while views re-render
+const collapsedTasks = new Set<string>();
+
 export function parseTaskmanOptions(source: string): TaskmanOptions {
   const opts: TaskmanOptions = {
     show: "active",
@@ -51,12 +82,12 @@ export function parseTaskmanOptions(source: string): TaskmanOptions {
         }
         break;
       case "groupBy":
-        if (["none", "due", "file", "priority", "project", "status"].includes(val)) {
+        if (["none", "due", "file", "priority", "project", "status", "heading"].includes(val)) {
           opts.groupBy = val as TaskmanOptions["groupBy"];
         }
         break;
       case "view":
-        if (["default", "today", "week", "calendar", "kanban", "stats"].includes(val)) {
+        if (["default", "today", "week", "calendar", "kanban", "stats", "graph"].includes(val)) {
           opts.view = val as TaskmanOptions["view"];
         }
         break;
@@ -74,12 +105,13 @@ export function parseTaskmanOptions(source: string): TaskmanOptions {
       case "project":
         opts.project = val.replace(/^\+/, "");
         break;
-      case "priority":
+      case "priority": {
         const priorityMatch = val.match(/>=?\s*(\d)/);
         if (priorityMatch) {
           opts.priorityMin = parseInt(priorityMatch[1]) as Priority;
         }
         break;
+      }
       case "due":
         if (["overdue", "today", "thisWeek", "nextWeek"].includes(val)) {
           opts.dueFilter = val as "overdue" | "today" | "thisWeek" | "nextWeek";
@@ -96,6 +128,40 @@ export function parseTaskmanOptions(source: string): TaskmanOptions {
       case "search":
         opts.search = val.replace(/^["']|["']$/g, "");
         break;
+      case "showUnstarted":
+        opts.showUnstarted = val === "true";
+        break;
+      case "tree":
+        opts.tree = val === "true";
+        break;
+      case "path":
+      case "folder": {
+        const patterns = val.split(",").map((p) => p.trim()).filter(Boolean);
+        opts.paths = [...(opts.paths ?? []), ...patterns];
+        break;
+      }
+      case "filter": {
+        const { query, error } = parseFilterQuery(val);
+        if (error) {
+          opts.filterError = error;
+        } else if (query) {
+          // Multiple filter lines are ANDed together
+          opts.filter = opts.filter
+            ? { type: "and", children: [opts.filter, query] }
+            : query;
+        }
+        break;
+      }
+      case "columns": {
+        const spec = parseKanbanColumns(val);
+        if (spec) opts.columns = spec;
+        break;
+      }
+      case "wip": {
+        const limits = parseWipLimits(val);
+        if (limits) opts.wip = limits;
+        break;
+      }
     }
   }
 
@@ -109,6 +175,9 @@ function filterTasks(tasks: IndexedTask[], options: TaskmanOptions): IndexedTask
   return tasks.filter((t) => {
     // Show filter
     if (options.show === "active" && t.checked) return false;
+    if (options.show === "active" && !options.showUnstarted && !isStarted(t, today)) {
+      return false;
+    }
     if (options.show === "done" && !t.checked) return false;
     if (options.show === "doneAll" && !t.checked) return false;
 
@@ -139,7 +208,7 @@ function filterTasks(tasks: IndexedTask[], options: TaskmanOptions): IndexedTask
 
     // Status filter
     if (options.statusFilter) {
-      if (t.status !== options.statusFilter) return false;
+      if (effectiveStatus(t) !== options.statusFilter) return false;
     }
 
     // Search filter
@@ -184,7 +253,7 @@ function sortTasks(
         if (!a.dueYmd && !b.dueYmd) return 0;
         if (!a.dueYmd) return 1;
         if (!b.dueYmd) return -1;
-        return a.dueYmd.localeCompare(b.dueYmd);
+        return dueSortKey(a).localeCompare(dueSortKey(b));
       });
       break;
     case "dueDesc":
@@ -192,7 +261,7 @@ function sortTasks(
         if (!a.dueYmd && !b.dueYmd) return 0;
         if (!a.dueYmd) return 1;
         if (!b.dueYmd) return -1;
-        return b.dueYmd.localeCompare(a.dueYmd);
+        return dueSortKey(b).localeCompare(dueSortKey(a));
       });
       break;
     case "fileAsc":
@@ -208,7 +277,7 @@ function sortTasks(
         if (!a.dueYmd && !b.dueYmd) return 0;
         if (!a.dueYmd) return 1;
         if (!b.dueYmd) return -1;
-        return a.dueYmd.localeCompare(b.dueYmd);
+        return dueSortKey(a).localeCompare(dueSortKey(b));
       });
       break;
   }
@@ -218,24 +287,70 @@ function sortTasks(
 
 function groupKey(task: IndexedTask, groupBy: TaskmanOptions["groupBy"]): string {
   switch (groupBy) {
-    case "file":
+    case "file": {
       // Extract just the filename without .md extension
       const filename = task.filePath.split("/").pop() ?? task.filePath;
       return filename.replace(/\.md$/i, "");
+    }
     case "due":
       return task.dueYmd ?? "No date";
-    case "priority":
+    case "priority": {
       const labels = ["None", "Low", "Medium", "High"];
       return `${PRIORITY_ICONS[task.priority]} ${labels[task.priority]}`;
+    }
     case "project":
       return task.project ? `+${task.project}` : "No project";
-    case "status":
-      return task.status.charAt(0).toUpperCase() + task.status.slice(1);
+    case "status": {
+      const status = effectiveStatus(task);
+      return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+    case "heading":
+      return task.headingPath.length > 0 ? formatHeadingPath(task.headingPath) : "No heading";
     default:
       return "";
   }
 }
 
+/**
+ * Sort key for due date + time. Within a day, timed tasks come first in
+ * time order, followed by all-day tasks.
+ */
+function dueSortKey(task: IndexedTask): string {
+  return `${task.dueYmd ?? ""} ${task.dueTime ?? "24:00"}`;
+}
+
+function formatDue(task: IndexedTask): string {
+  if (!task.dueYmd) return "No date";
+  return task.dueTime ? `${task.dueYmd} ${task.dueTime}` : task.dueYmd;
+}
+
+/**
+ * Recurrence tooltip: the rule text plus how the next instance is dated.
+ */
+function describeRecurrence(rule: RecurrenceRule): string {
+  const lines = [rule.originalText];
+  lines.push(
+    rule.whenDone ? "Next instance counts from the completion date" : "Next instance follows the schedule"
+  );
+  if (!rule.whenDone && rule.catchUp === "skip") lines.push("Missed instances are skipped");
+  if (!rule.whenDone && rule.catchUp === "each") lines.push("One task is created per missed instance");
+  return lines.join("\n");
+}
+
+/**
+ * A task is started once its start date (if any) has been reached.
+ */
+function isStarted(task: IndexedTask, today: string): boolean {
+  return !task.startYmd || task.startYmd <= today;
+}
+
+/**
+ * The day a task is planned for: its scheduled date, falling back to due.
+ */
+function plannedDate(task: IndexedTask): string | null {
+  return task.scheduledYmd ?? task.dueYmd;
+}
+
 function getDueStatus(dueYmd: string | null): string {
   if (!dueYmd) return "taskman-no-date";
 
@@ -248,6 +363,19 @@ function getDueStatus(dueYmd: string | null): string {
   return "taskman-future";
 }
 
+/**
+ * Apply block-wide scoping (the path/folder patterns and the filter
+ * expression) before any view-specific filtering, so every view honors it.
+ */
+function scopeTasks(tasks: IndexedTask[], options: TaskmanOptions): IndexedTask[] {
+  const { filter, paths } = options;
+  return tasks.filter(
+    (t) =>
+      (!paths || paths.some((p) => matchesGlob(t.filePath, p))) &&
+      (!filter || evaluateQuery(filter, t))
+  );
+}
+
 // ============== Main Render Function ==============
 
 export function renderTaskmanBlock(args: {
@@ -259,25 +387,70 @@ export function renderTaskmanBlock(args: {
   stats?: StatsStore;
   onToggle: (task: IndexedTask) => void;
   onReschedule?: (task: IndexedTask, newDate: string) => void;
+  onSkip?: (task: IndexedTask) => void;
+  onMoveToNote?: (task: IndexedTask) => void;
+  onUpdate?: (task: IndexedTask, patch: TaskPatch) => void;
+  onShowHistory?: (task: IndexedTask) => void;
+  onMove?: (task: IndexedTask, move: KanbanMove) => void;
+  onBulk?: (tasks: IndexedTask[], action: BulkAction) => void;
 }) {
-  const { app, container, options, snapshot, errors, stats, onToggle, onReschedule } = args;
+  const {
+    app,
+    container,
+    options,
+    snapshot,
+    errors,
+    stats,
+    onToggle,
+    onReschedule,
+    onSkip,
+    onMoveToNote,
+    onUpdate,
+    onShowHistory,
+    onMove,
+    onBulk,
+  } = args;
   container.empty();
   container.addClass("taskman-container");
 
+  if (options.filterError) {
+    renderQueryError(container, options.filterError);
+    return;
+  }
+
   if (options.show === "errors") {
     renderErrors(container, errors);
     return;
   }
 
-  const allTasks: IndexedTask[] = [
-    ...snapshot.tasksByStableId.values(),
-    ...snapshot.tasksByEphemeralId.values(),
-  ];
+  const allTasks = scopeTasks(
+    [...snapshot.tasksByStableId.values(), ...snapshot.tasksByEphemeralId.values()],
+    options
+  );
+
+  // Shift-click selection with a bulk toolbar, in the list views
+  const selection =
+    onBulk && (options.view === "today" || options.view === "default")
+      ? createSelection(container, onBulk)
+      : undefined;
+  const tree: TaskTree = { lookup: snapshotLookup(snapshot), nested: options.tree === true };
 
   // Route to appropriate view
   switch (options.view) {
     case "today":
-      renderTodayView({ app, container, tasks: allTasks, onToggle, onReschedule });
+      renderTodayView({
+        app,
+        container,
+        tasks: allTasks,
+        onToggle,
+        onReschedule,
+        onSkip,
+        onMoveToNote,
+        onUpdate,
+        onShowHistory,
+        selection,
+        tree,
+      });
       break;
     case "week":
       renderWeekView({ app, container, tasks: allTasks, onToggle });
@@ -286,13 +459,38 @@ export function renderTaskmanBlock(args: {
       renderCalendarView({ app, container, tasks: allTasks, options, onToggle });
       break;
     case "kanban":
-      renderKanbanView({ app, container, tasks: allTasks, onToggle });
+      renderKanbanView({
+        app,
+        container,
+        tasks: allTasks,
+        options,
+        lookup: tree.lookup,
+        onToggle,
+        onMove,
+        onUpdate,
+      });
       break;
     case "stats":
       renderStatsView({ container, tasks: allTasks, stats });
       break;
+    case "graph":
+      renderGraphView({ app, container, tasks: allTasks, options, onToggle });
+      break;
     default:
-      renderDefaultView({ app, container, tasks: allTasks, options, onToggle, onReschedule });
+      renderDefaultView({
+        app,
+        container,
+        tasks: allTasks,
+        options,
+        onToggle,
+        onReschedule,
+        onSkip,
+        onMoveToNote,
+        onUpdate,
+        onShowHistory,
+        selection,
+        tree,
+      });
   }
 }
 
@@ -305,8 +503,27 @@ function renderDefaultView(args: {
   options: TaskmanOptions;
   onToggle: (task: IndexedTask) => void;
   onReschedule?: (task: IndexedTask, newDate: string) => void;
+  onSkip?: (task: IndexedTask) => void;
+  onMoveToNote?: (task: IndexedTask) => void;
+  onUpdate?: (task: IndexedTask, patch: TaskPatch) => void;
+  onShowHistory?: (task: IndexedTask) => void;
+  selection?: TaskSelection;
+  tree?: TaskTree;
 }) {
-  const { app, container, tasks, options, onToggle, onReschedule } = args;
+  const {
+    app,
+    container,
+    tasks,
+    options,
+    onToggle,
+    onReschedule,
+    onSkip,
+    onMoveToNote,
+    onUpdate,
+    onShowHistory,
+    selection,
+    tree,
+  } = args;
 
   const filtered = filterTasks(tasks, options);
   const sorted = sortTasks(filtered, options.sort);
@@ -317,7 +534,19 @@ function renderDefaultView(args: {
   }
 
   if (options.groupBy === "none") {
-    renderTaskList({ app, container, tasks: sorted, onToggle, onReschedule });
+    renderTaskList({
+      app,
+      container,
+      tasks: sorted,
+      onToggle,
+      onReschedule,
+      onSkip,
+      onMoveToNote,
+      onUpdate,
+      onShowHistory,
+      selection,
+      tree,
+    });
     return;
   }
 
@@ -354,8 +583,21 @@ function renderDefaultView(args: {
     });
 
     header.createEl("span", { text: k || "Tasks" });
-
-    renderTaskList({ app, container, tasks: list, onToggle, onReschedule });
+    if (selection) addSelectAll(header, list, selection);
+
+    renderTaskList({
+      app,
+      container,
+      tasks: list,
+      onToggle,
+      onReschedule,
+      onSkip,
+      onMoveToNote,
+      onUpdate,
+      onShowHistory,
+      selection,
+      tree,
+    });
   }
 }
 
@@ -367,31 +609,60 @@ function renderTodayView(args: {
   tasks: IndexedTask[];
   onToggle: (task: IndexedTask) => void;
   onReschedule?: (task: IndexedTask, newDate: string) => void;
+  onSkip?: (task: IndexedTask) => void;
+  onMoveToNote?: (task: IndexedTask) => void;
+  onUpdate?: (task: IndexedTask, patch: TaskPatch) => void;
+  onShowHistory?: (task: IndexedTask) => void;
+  selection?: TaskSelection;
+  tree?: TaskTree;
 }) {
-  const { app, container, tasks, onToggle, onReschedule } = args;
+  const {
+    app,
+    container,
+    tasks,
+    onToggle,
+    onReschedule,
+    onSkip,
+    onMoveToNote,
+    onUpdate,
+    onShowHistory,
+    selection,
+    tree,
+  } = args;
   const today = getTodayStr();
 
-  const active = tasks.filter((t) => !t.checked);
+  // Tasks still waiting on open prerequisites can't be worked on today
+  const active = tasks.filter(
+    (t) => !t.checked && !(tree && waitsOnPrerequisites(t, tree.lookup)) && isStarted(t, today)
+  );
 
   const overdue = active.filter((t) => t.dueYmd && t.dueYmd < today);
-  const todayTasks = active.filter((t) => t.dueYmd === today);
+  // Due today, or scheduled for today (or earlier and still open)
+  const todayTasks = active.filter(
+    (t) =>
+      !overdue.includes(t) &&
+      (t.dueYmd === today || (t.scheduledYmd !== null && t.scheduledYmd <= today))
+  );
   const upcoming = active.filter((t) => {
-    if (!t.dueYmd) return false;
+    if (!t.dueYmd || todayTasks.includes(t)) return false;
     const diff = dateDiffDays(today, t.dueYmd);
     return diff > 0 && diff <= 3;
   });
 
-  // Sort each group by priority
-  const sortByPriority = (a: IndexedTask, b: IndexedTask) => b.priority - a.priority;
-  overdue.sort(sortByPriority);
-  todayTasks.sort(sortByPriority);
-  upcoming.sort((a, b) => {
-    if (a.dueYmd !== b.dueYmd) return a.dueYmd!.localeCompare(b.dueYmd!);
-    return b.priority - a.priority;
+  // Sort each group by due time, then priority
+  const sortByTimeThenPriority = (a: IndexedTask, b: IndexedTask) => {
+    const byTime = dueSortKey(a).localeCompare(dueSortKey(b));
+    return byTime !== 0 ? byTime : b.priority - a.priority;
+  };
+  overdue.sort(sortByTimeThenPriority);
+  todayTasks.sort((a, b) => {
+    // Today's tasks are ordered by time of day only
+    const byTime = (a.dueTime ?? "24:00").localeCompare(b.dueTime ?? "24:00");
+    return byTime !== 0 ? byTime : b.priority - a.priority;
   });
+  upcoming.sort(sortByTimeThenPriority);
 
   // Header with stats
-  const total = overdue.length + todayTasks.length;
   const header = container.createEl("div", { cls: "taskman-today-header" });
   header.createEl("span", { text: `📋 Today: ${todayTasks.length} tasks` });
   if (overdue.length > 0) {
@@ -421,22 +692,71 @@ function renderTodayView(args: {
 
   // Overdue section
   if (overdue.length > 0) {
-    container.createEl("div", { text: "⚠️ Overdue", cls: "taskman-section-header taskman-overdue" });
-    renderTaskList({ app, container, tasks: overdue, onToggle, onReschedule });
+    const section = container.createEl("div", {
+      text: "⚠️ Overdue",
+      cls: "taskman-section-header taskman-overdue",
+    });
+    if (selection) addSelectAll(section, overdue, selection);
+    renderTaskList({
+      app,
+      container,
+      tasks: overdue,
+      onToggle,
+      onReschedule,
+      onSkip,
+      onMoveToNote,
+      onUpdate,
+      onShowHistory,
+      selection,
+      tree,
+      showTime: true,
+    });
   }
 
   // Today section
   if (todayTasks.length > 0) {
-    container.createEl("div", { text: "📅 Today", cls: "taskman-section-header" });
-    renderTaskList({ app, container, tasks: todayTasks, onToggle, onReschedule });
+    const section = container.createEl("div", { text: "📅 Today", cls: "taskman-section-header" });
+    if (selection) addSelectAll(section, todayTasks, selection);
+    renderTaskList({
+      app,
+      container,
+      tasks: todayTasks,
+      onToggle,
+      onReschedule,
+      onSkip,
+      onMoveToNote,
+      onUpdate,
+      onShowHistory,
+      selection,
+      tree,
+      showTime: true,
+    });
   } else if (overdue.length === 0) {
     container.createEl("div", { text: "No tasks for today!", cls: "taskman-empty" });
   }
 
   // Upcoming preview
   if (upcoming.length > 0) {
-    container.createEl("div", { text: "📆 Upcoming", cls: "taskman-section-header taskman-dimmed" });
-    renderTaskList({ app, container, tasks: upcoming, onToggle, onReschedule, dimmed: true });
+    const section = container.createEl("div", {
+      text: "📆 Upcoming",
+      cls: "taskman-section-header taskman-dimmed",
+    });
+    if (selection) addSelectAll(section, upcoming, selection);
+    renderTaskList({
+      app,
+      container,
+      tasks: upcoming,
+      onToggle,
+      onReschedule,
+      onSkip,
+      onMoveToNote,
+      onUpdate,
+      onShowHistory,
+      selection,
+      tree,
+      dimmed: true,
+      showTime: true,
+    });
   }
 }
 
@@ -448,7 +768,7 @@ function renderWeekView(args: {
   tasks: IndexedTask[];
   onToggle: (task: IndexedTask) => void;
 }) {
-  const { app, container, tasks, onToggle } = args;
+  const { container, tasks, onToggle } = args;
   const today = new Date();
   const todayStr = getTodayStr();
 
@@ -492,9 +812,12 @@ function renderWeekView(args: {
     header.createEl("span", { text: dayNames[date.getDay()], cls: "taskman-day-name" });
     header.createEl("span", { text: String(date.getDate()), cls: "taskman-day-num" });
 
-    // Tasks for this day
-    const dayTasks = active.filter((t) => t.dueYmd === dateStr);
-    dayTasks.sort((a, b) => b.priority - a.priority);
+    // Tasks planned for this day (scheduled date, else due date)
+    const dayTasks = active.filter((t) => plannedDate(t) === dateStr && isStarted(t, dateStr));
+    dayTasks.sort((a, b) => {
+      const byTime = (a.dueTime ?? "24:00").localeCompare(b.dueTime ?? "24:00");
+      return byTime !== 0 ? byTime : b.priority - a.priority;
+    });
 
     for (const t of dayTasks) {
       renderCompactTask(column, t, onToggle);
@@ -563,7 +886,7 @@ function renderCalendarView(args: {
   // Days of month
   for (let day = 1; day <= lastDay.getDate(); day++) {
     const dateStr = `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-    const dayTasks = active.filter((t) => t.dueYmd === dateStr);
+    const dayTasks = active.filter((t) => plannedDate(t) === dateStr);
 
     const cell = grid.createEl("div", { cls: "taskman-calendar-day" });
     if (dateStr === todayStr) {
@@ -576,13 +899,15 @@ function renderCalendarView(args: {
     cell.createEl("span", { text: String(day), cls: "taskman-calendar-date" });
 
     if (dayTasks.length > 0) {
-      const indicator = cell.createEl("span", {
+      cell.createEl("span", {
         text: String(dayTasks.length),
         cls: "taskman-calendar-count",
       });
 
       // Tooltip with task titles
-      const tooltip = dayTasks.map((t) => `• ${t.title}`).join("\n");
+      const tooltip = dayTasks
+        .map((t) => `• ${t.dueTime ? `${t.dueTime} ` : ""}${t.title}`)
+        .join("\n");
       cell.setAttribute("title", tooltip);
     }
   }
@@ -594,51 +919,70 @@ function renderKanbanView(args: {
   app: App;
   container: HTMLElement;
   tasks: IndexedTask[];
+  options: TaskmanOptions;
+  lookup: TaskLookup;
   onToggle: (task: IndexedTask) => void;
+  onMove?: (task: IndexedTask, move: KanbanMove) => void;
+  onUpdate?: (task: IndexedTask, patch: TaskPatch) => void;
 }) {
-  const { app, container, tasks, onToggle } = args;
-  const today = getTodayStr();
-  const weekFromNow = addDaysStr(today, 7);
-  const weekAgo = addDaysStr(today, -7);
+  const { app, container, tasks, options, lookup, onToggle, onMove, onUpdate } = args;
+  const columns = buildKanbanColumns(
+    tasks,
+    options.columns ?? { field: "due" },
+    options.wip,
+    getTodayStr(),
+    lookup
+  );
 
-  const active = tasks.filter((t) => !t.checked);
-  const recentlyDone = tasks.filter(
-    (t) => t.checked // Could filter by completion date if tracked
-  ).slice(0, 10);
+  const kanban = container.createEl("div", { cls: "taskman-kanban" });
+  let dragged: { task: IndexedTask; from: string } | null = null;
 
-  // Categorize
-  const todayOrOverdue = active.filter((t) => !t.dueYmd || t.dueYmd <= today);
-  const thisWeek = active.filter((t) => t.dueYmd && t.dueYmd > today && t.dueYmd <= weekFromNow);
-  const backlog = active.filter((t) => t.dueYmd && t.dueYmd > weekFromNow);
+  for (const column of columns) {
+    const col = kanban.createEl("div", { cls: "taskman-kanban-column" });
+    if (column.done) col.addClass("taskman-kanban-done");
 
-  const kanban = container.createEl("div", { cls: "taskman-kanban" });
+    const count = column.wip !== null ? `${column.tasks.length}/${column.wip}` : `${column.tasks.length}`;
+    const header = col.createEl("div", { text: `${column.label} (${count})`, cls: "taskman-kanban-header" });
+    if (column.wip !== null && column.tasks.length > column.wip) {
+      col.addClass("taskman-kanban-over-wip");
+      header.setAttribute("title", `Over WIP limit of ${column.wip}`);
+    }
 
-  // Today column
-  const todayCol = kanban.createEl("div", { cls: "taskman-kanban-column" });
-  todayCol.createEl("div", { text: `📅 Today (${todayOrOverdue.length})`, cls: "taskman-kanban-header" });
-  for (const t of todayOrOverdue) {
-    renderKanbanCard(todayCol, t, app, onToggle);
-  }
+    for (const t of column.tasks) {
+      const card = renderKanbanCard(col, t, app, onToggle, onUpdate);
+      if (!onMove) continue;
 
-  // This Week column
-  const weekCol = kanban.createEl("div", { cls: "taskman-kanban-column" });
-  weekCol.createEl("div", { text: `📆 This Week (${thisWeek.length})`, cls: "taskman-kanban-header" });
-  for (const t of thisWeek) {
-    renderKanbanCard(weekCol, t, app, onToggle);
-  }
+      card.draggable = true;
+      card.addEventListener("dragstart", (e) => {
+        dragged = { task: t, from: column.id };
+        e.dataTransfer?.setData("text/plain", t.title);
+        card.addClass("taskman-dragging");
+      });
+      card.addEventListener("dragend", () => {
+        dragged = null;
+        card.removeClass("taskman-dragging");
+      });
+    }
 
-  // Backlog column
-  const backlogCol = kanban.createEl("div", { cls: "taskman-kanban-column" });
-  backlogCol.createEl("div", { text: `📋 Backlog (${backlog.length})`, cls: "taskman-kanban-header" });
-  for (const t of backlog) {
-    renderKanbanCard(backlogCol, t, app, onToggle);
-  }
+    if (!onMove) continue;
 
-  // Done column
-  const doneCol = kanban.createEl("div", { cls: "taskman-kanban-column taskman-kanban-done" });
-  doneCol.createEl("div", { text: `✅ Done (${recentlyDone.length})`, cls: "taskman-kanban-header" });
-  for (const t of recentlyDone) {
-    renderKanbanCard(doneCol, t, app, onToggle);
+    col.addEventListener("dragover", (e) => {
+      if (!dragged || dragged.from === column.id) return;
+      e.preventDefault();
+      col.addClass("taskman-drop-target");
+    });
+    col.addEventListener("dragleave", (e) => {
+      if (!col.contains(e.relatedTarget as Node | null)) {
+        col.removeClass("taskman-drop-target");
+      }
+    });
+    col.addEventListener("drop", (e) => {
+      e.preventDefault();
+      col.removeClass("taskman-drop-target");
+      if (!dragged || dragged.from === column.id) return;
+      onMove(dragged.task, column.move);
+      dragged = null;
+    });
   }
 }
 
@@ -646,8 +990,9 @@ function renderKanbanCard(
   container: HTMLElement,
   task: IndexedTask,
   app: App,
-  onToggle: (task: IndexedTask) => void
-) {
+  onToggle: (task: IndexedTask) => void,
+  onUpdate?: (task: IndexedTask, patch: TaskPatch) => void
+): HTMLElement {
   const card = container.createEl("div", { cls: "taskman-kanban-card" });
   if (task.checked) card.addClass("taskman-done");
 
@@ -664,15 +1009,20 @@ function renderKanbanCard(
   // Priority + Title
   const titleRow = content.createEl("div", { cls: "taskman-kanban-title" });
   if (task.priority > 0) {
-    titleRow.createEl("span", { text: PRIORITY_ICONS[task.priority], cls: "taskman-priority" });
+    const priority = titleRow.createEl("span", {
+      text: PRIORITY_ICONS[task.priority],
+      cls: "taskman-priority",
+    });
+    if (task.inherited?.priority) markInherited(priority);
   }
-  titleRow.createEl("span", { text: task.title });
+  const title = titleRow.createEl("span", { text: task.title });
+  if (onUpdate) makeEditable(title, task, onUpdate);
 
   // Metadata row
   const meta = content.createEl("div", { cls: "taskman-kanban-meta" });
   if (task.dueYmd) {
     const status = getDueStatus(task.dueYmd);
-    meta.createEl("span", { text: task.dueYmd, cls: `taskman-due ${status}` });
+    meta.createEl("span", { text: formatDue(task), cls: `taskman-due ${status}` });
   }
   if (task.estimate) {
     meta.createEl("span", { text: `⏱️${task.estimate.display}`, cls: "taskman-estimate" });
@@ -682,9 +1032,12 @@ function renderKanbanCard(
   if (task.tags.length > 0) {
     const tagsEl = content.createEl("div", { cls: "taskman-tags" });
     for (const tag of task.tags.slice(0, 3)) {
-      tagsEl.createEl("span", { text: `#${tag}`, cls: "taskman-tag" });
+      const tagEl = tagsEl.createEl("span", { text: `#${tag}`, cls: "taskman-tag" });
+      if (task.inherited?.tags.includes(tag)) markInherited(tagEl);
     }
   }
+
+  return card;
 }
 
 // ============== Stats View ==============
@@ -754,6 +1107,129 @@ function renderStatsView(args: {
   }
 }
 
+// ============== Graph View ==============
+
+const GRAPH_NODE_WIDTH = 180;
+const GRAPH_NODE_HEIGHT = 52;
+const GRAPH_COL_GAP = 60;
+const GRAPH_ROW_GAP = 16;
+
+function renderGraphView(args: {
+  app: App;
+  container: HTMLElement;
+  tasks: IndexedTask[];
+  options: TaskmanOptions;
+  onToggle: (task: IndexedTask) => void;
+}) {
+  const { app, container, tasks, options, onToggle } = args;
+  const filtered = filterTasks(tasks, options);
+
+  const graph = buildDependencyGraph(filtered);
+  if (graph.nodes.length === 0) {
+    container.createEl("div", { text: "No tasks found.", cls: "taskman-empty" });
+    return;
+  }
+
+  // Critical path summary
+  if (graph.criticalPaths.length > 0) {
+    const summary = container.createEl("div", { cls: "taskman-graph-summary" });
+    for (const path of graph.criticalPaths) {
+      const label = path.project ? `+${path.project}` : "No project";
+      const effort = path.minutes > 0 ? ` · ${formatMinutes(path.minutes)}` : "";
+      summary.createEl("div", {
+        text: `Critical path ${label}: ${path.keys.length} tasks${effort}`,
+      });
+    }
+  }
+
+  const width = graph.layerCount * (GRAPH_NODE_WIDTH + GRAPH_COL_GAP) - GRAPH_COL_GAP;
+  const height = graph.rowCount * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP) - GRAPH_ROW_GAP;
+
+  const scroller = container.createEl("div", { cls: "taskman-graph" });
+  const canvas = scroller.createEl("div", { cls: "taskman-graph-canvas" });
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+
+  const position = new Map<string, { x: number; y: number }>();
+  for (const node of graph.nodes) {
+    position.set(node.key, {
+      x: node.layer * (GRAPH_NODE_WIDTH + GRAPH_COL_GAP),
+      y: node.row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP),
+    });
+  }
+
+  // Edges
+  const svg = canvas.createSvg("svg", {
+    cls: "taskman-graph-edges",
+    attr: { width, height, viewBox: `0 0 ${width} ${height}` },
+  });
+  const defs = svg.createSvg("defs");
+  for (const id of ["taskman-arrow", "taskman-arrow-critical"]) {
+    const marker = defs.createSvg("marker", {
+      attr: { id, viewBox: "0 0 10 10", refX: 10, refY: 5, markerWidth: 6, markerHeight: 6, orient: "auto" },
+    });
+    marker.createSvg("path", { attr: { d: "M 0 0 L 10 5 L 0 10 z" } });
+  }
+
+  for (const edge of graph.edges) {
+    const from = position.get(edge.from)!;
+    const to = position.get(edge.to)!;
+    const x1 = from.x + GRAPH_NODE_WIDTH;
+    const y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+    const bend = Math.max(GRAPH_COL_GAP / 2, Math.abs(x2 - x1) / 2);
+
+    svg.createSvg("path", {
+      cls: edge.critical ? "taskman-graph-edge taskman-graph-critical" : "taskman-graph-edge",
+      attr: {
+        d: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`,
+        "marker-end": `url(#${edge.critical ? "taskman-arrow-critical" : "taskman-arrow"})`,
+      },
+    });
+  }
+
+  // Nodes
+  for (const node of graph.nodes) {
+    const t = node.task;
+    const pos = position.get(node.key)!;
+    const el = canvas.createEl("div", { cls: "taskman-graph-node" });
+    el.style.left = `${pos.x}px`;
+    el.style.top = `${pos.y}px`;
+    el.style.width = `${GRAPH_NODE_WIDTH}px`;
+    el.style.height = `${GRAPH_NODE_HEIGHT}px`;
+    if (node.critical) el.addClass("taskman-graph-critical");
+    if (t.checked) el.addClass("taskman-done");
+    if (t.blocked) el.addClass("taskman-blocked");
+
+    const titleRow = el.createEl("div", { cls: "taskman-graph-title" });
+    const cb = titleRow.createEl("input");
+    cb.type = "checkbox";
+    cb.checked = t.checked;
+    cb.addEventListener("click", (e) => e.stopPropagation());
+    cb.addEventListener("change", () => onToggle(t));
+    if (t.priority > 0) {
+      titleRow.createEl("span", { text: PRIORITY_ICONS[t.priority], cls: "taskman-priority" });
+    }
+    const title = titleRow.createEl("span", { text: t.title, cls: "taskman-task-title" });
+    title.setAttribute("title", t.title);
+
+    const meta = el.createEl("div", { cls: "taskman-graph-meta" });
+    if (t.project) meta.createEl("span", { text: `+${t.project}`, cls: "taskman-project" });
+    if (t.estimate) meta.createEl("span", { text: `⏱️${t.estimate.display}`, cls: "taskman-estimate" });
+    if (t.dueYmd) {
+      const due = meta.createEl("span", { text: formatDue(t), cls: "taskman-due" });
+      due.addClass(getDueStatus(t.dueYmd));
+    }
+
+    el.addEventListener("click", () => {
+      app.workspace.openLinkText("", t.filePath, false, {
+        eState: { line: t.lineNoHint },
+      });
+    });
+  }
+}
+
 // ============== Task List Renderer ==============
 
 function renderTaskList(args: {
@@ -762,20 +1238,74 @@ function renderTaskList(args: {
   tasks: IndexedTask[];
   onToggle: (task: IndexedTask) => void;
   onReschedule?: (task: IndexedTask, newDate: string) => void;
+  onSkip?: (task: IndexedTask) => void;
+  onMoveToNote?: (task: IndexedTask) => void;
+  onUpdate?: (task: IndexedTask, patch: TaskPatch) => void;
+  onShowHistory?: (task: IndexedTask) => void;
+  selection?: TaskSelection;
+  tree?: TaskTree;
   dimmed?: boolean;
+  showTime?: boolean; // leading time-of-day column (Today view)
 }) {
-  const { app, container, tasks, onToggle, onReschedule, dimmed } = args;
+  const {
+    app,
+    container,
+    tasks,
+    onToggle,
+    onReschedule,
+    onSkip,
+    onMoveToNote,
+    onUpdate,
+    onShowHistory,
+    selection,
+    tree,
+    dimmed,
+    showTime,
+  } = args;
+
+  const rows: TreeRow[] = tree?.nested
+    ? nestTasks(tasks, tree.lookup)
+    : tasks.map((task) => ({ task, depth: 0, ancestors: [], hasChildren: false }));
+  const shownKeys = new Set(tasks.map(selectionKey));
+  const rendered: Array<{ row: HTMLElement; ancestors: string[] }> = [];
+  const applyCollapsed = () => {
+    for (const r of rendered) {
+      r.row.toggleClass("taskman-hidden", r.ancestors.some((k) => collapsedTasks.has(k)));
+    }
+  };
 
-  for (const t of tasks) {
+  for (const { task: t, depth, ancestors, hasChildren } of rows) {
     const row = container.createEl("div", { cls: "taskman-task" });
     if (dimmed) row.addClass("taskman-dimmed");
     if (t.checked) row.addClass("taskman-done");
-    if (t.status === "waiting") row.addClass("taskman-waiting");
-    if (t.status === "blocked") row.addClass("taskman-blocked");
+    const status = effectiveStatus(t);
+    if (status === "waiting") row.addClass("taskman-waiting");
+    if (status === "blocked") row.addClass("taskman-blocked");
+    rendered.push({ row, ancestors });
+
+    // Indent: by depth in the tree, or as written in the note
+    const indent = tree?.nested ? depth : t.indentLevel;
+    if (indent > 0) {
+      row.style.marginLeft = `${indent * 20}px`;
+    }
 
-    // Indent
-    if (t.indentLevel > 0) {
-      row.style.marginLeft = `${t.indentLevel * 20}px`;
+    // Shift-click to select for bulk actions
+    if (selection) trackSelectable(row, t, selection);
+
+    // Collapse toggle for parents in a tree
+    if (tree?.nested) {
+      const toggle = row.createEl("span", { cls: "taskman-subtask-toggle" });
+      if (hasChildren) {
+        const key = selectionKey(t);
+        toggle.setText(collapsedTasks.has(key) ? "▸" : "▾");
+        toggle.addEventListener("click", (e) => {
+          e.stopPropagation();
+          if (collapsedTasks.has(key)) collapsedTasks.delete(key);
+          else collapsedTasks.add(key);
+          toggle.setText(collapsedTasks.has(key) ? "▸" : "▾");
+          applyCollapsed();
+        });
+      }
     }
 
     // Checkbox
@@ -785,41 +1315,91 @@ function renderTaskList(args: {
     cb.addEventListener("click", (e) => e.stopPropagation());
     cb.addEventListener("change", () => onToggle(t));
 
+    // Time column
+    if (showTime) {
+      row.createEl("span", { text: t.dueTime ?? "", cls: "taskman-time" });
+    }
+
     // Status icon
-    if (t.status !== "active") {
-      row.createEl("span", { text: STATUS_ICONS[t.status], cls: "taskman-status-icon" });
+    if (status !== "active") {
+      const icon = row.createEl("span", { text: STATUS_ICONS[status], cls: "taskman-status-icon" });
+      if (status === "blocked" && t.blockedBy) {
+        icon.setAttribute("title", `Blocked by ${t.blockedBy}`);
+      }
     }
 
     // Priority icon
     if (t.priority > 0) {
-      row.createEl("span", {
+      const priority = row.createEl("span", {
         text: PRIORITY_ICONS[t.priority],
         cls: `taskman-priority taskman-priority-${t.priority}`,
       });
+      if (t.inherited?.priority) markInherited(priority);
     }
 
-    // Title
-    row.createEl("span", { text: t.title, cls: "taskman-task-title" });
+    // Title (click to edit)
+    const title = row.createEl("span", { text: t.title, cls: "taskman-task-title" });
+    if (onUpdate) makeEditable(title, t, onUpdate);
+
+    if (tree) {
+      // Subtask progress
+      const subtasks = subtasksOf(t, tree.lookup);
+      if (subtasks.length > 0) {
+        const done = subtasks.filter((s) => s.checked).length;
+        const progress = row.createEl("span", {
+          text: `☑ ${done}/${subtasks.length}`,
+          cls: "taskman-subtask-progress",
+        });
+        progress.setAttribute("title", `${done} of ${subtasks.length} subtasks done`);
+        if (done === subtasks.length) progress.addClass("taskman-subtasks-done");
+      }
+
+      // Parent, when it isn't shown above this task
+      const parentShown = tree.nested ? depth > 0 : !!t.parentId && shownKeys.has(t.parentId);
+      const parentText = t.parentLabel ?? (t.parentId ? tree.lookup(t.parentId)?.title : undefined);
+      if (!parentShown && parentText) {
+        row.createEl("span", { text: `↳ ${parentText}`, cls: "taskman-subtask-parent" });
+      }
+    }
 
     // Recurrence icon
     if (t.recurrence) {
       const recur = row.createEl("span", { text: "🔁", cls: "taskman-recurrence" });
-      recur.setAttribute("title", t.recurrence.originalText);
+      recur.setAttribute("title", describeRecurrence(t.recurrence));
+      if (onShowHistory) {
+        recur.addClass("taskman-clickable");
+        recur.addEventListener("click", (e) => {
+          e.stopPropagation();
+          onShowHistory(t);
+        });
+      }
+    }
+
+    // Reminder icon
+    if (t.reminders.length > 0) {
+      const remind = row.createEl("span", { text: "⏰", cls: "taskman-reminder" });
+      remind.setAttribute(
+        "title",
+        t.reminders.map((r) => (r.type === "before" ? `${r.display} before` : r.at.replace("T", " "))).join(", ")
+      );
     }
 
     // Tags
     for (const tag of t.tags) {
-      row.createEl("span", { text: `#${tag}`, cls: "taskman-tag" });
+      const tagEl = row.createEl("span", { text: `#${tag}`, cls: "taskman-tag" });
+      if (t.inherited?.tags.includes(tag)) markInherited(tagEl);
     }
 
     // Contexts
     for (const ctx of t.contexts) {
-      row.createEl("span", { text: `@${ctx}`, cls: "taskman-context" });
+      const ctxEl = row.createEl("span", { text: `@${ctx}`, cls: "taskman-context" });
+      if (t.inherited?.contexts.includes(ctx)) markInherited(ctxEl);
     }
 
     // Project
     if (t.project) {
-      row.createEl("span", { text: `+${t.project}`, cls: "taskman-project" });
+      const project = row.createEl("span", { text: `+${t.project}`, cls: "taskman-project" });
+      if (t.inherited?.project) markInherited(project);
     }
 
     // Time estimate
@@ -827,11 +1407,18 @@ function renderTaskList(args: {
       row.createEl("span", { text: `⏱️${t.estimate.display}`, cls: "taskman-estimate" });
     }
 
+    // Start / scheduled dates
+    if (t.startYmd) {
+      row.createEl("span", { text: `🛫 ${t.startYmd}`, cls: "taskman-start" });
+    }
+    if (t.scheduledYmd) {
+      row.createEl("span", { text: `🗓️ ${t.scheduledYmd}`, cls: "taskman-scheduled" });
+    }
+
     // Due date
-    const status = getDueStatus(t.dueYmd);
-    const dueText = t.dueYmd ?? "No date";
+    const dueText = formatDue(t);
     const dueEl = row.createEl("span", { text: dueText, cls: "taskman-due" });
-    dueEl.addClass(status);
+    dueEl.addClass(getDueStatus(t.dueYmd));
 
     // Reschedule buttons (on hover)
     if (onReschedule && !t.checked) {
@@ -850,6 +1437,31 @@ function renderTaskList(args: {
         e.stopPropagation();
         onReschedule(t, nextWeek);
       });
+
+      if (onSkip && t.recurrence) {
+        const btn3 = reschedule.createEl("button", { text: "Skip", cls: "taskman-reschedule-btn" });
+        btn3.setAttribute("title", "Skip this occurrence");
+        btn3.addEventListener("click", (e) => {
+          e.stopPropagation();
+          onSkip(t);
+        });
+      }
+
+      if (onMoveToNote) {
+        const btn4 = reschedule.createEl("button", { text: "→Note", cls: "taskman-reschedule-btn" });
+        btn4.setAttribute("title", "Move task to another note");
+        btn4.addEventListener("click", (e) => {
+          e.stopPropagation();
+          onMoveToNote(t);
+        });
+      }
+    }
+
+    // Headings the task sits under
+    if (t.headingPath.length > 0) {
+      const heading = formatHeadingPath(t.headingPath);
+      const crumb = row.createEl("span", { text: `§ ${heading}`, cls: "taskman-heading-path" });
+      crumb.setAttribute("title", heading);
     }
 
     // File link
@@ -857,11 +1469,172 @@ function renderTaskList(args: {
     link.href = "#";
     link.addEventListener("click", (e) => {
       e.preventDefault();
-      (app.workspace as any).openLinkText("", t.filePath, false, {
+      app.workspace.openLinkText("", t.filePath, false, {
         eState: { line: t.lineNoHint },
       });
     });
   }
+
+  applyCollapsed();
+}
+
+// ============== Bulk Selection ==============
+
+function selectionKey(task: IndexedTask): string {
+  return task.stableId ?? task.ephemeralId;
+}
+
+/**
+ * Selection state for one rendered block, with its toolbar at the top of
+ * the container. The toolbar stays hidden until a task is selected.
+ */
+function createSelection(
+  container: HTMLElement,
+  onBulk: (tasks: IndexedTask[], action: BulkAction) => void
+): TaskSelection {
+  const toolbar = container.createDiv({ cls: "taskman-bulk-toolbar" });
+  const selection: TaskSelection = {
+    tasks: new Map(),
+    rows: new Map(),
+    visible: [],
+    changed: () => {
+      const count = selection.tasks.size;
+      toolbar.toggleClass("taskman-hidden", count === 0);
+      countEl.setText(`${count} selected`);
+      for (const [key, rows] of selection.rows) {
+        for (const row of rows) row.toggleClass("taskman-selected", selection.tasks.has(key));
+      }
+    },
+  };
+
+  const run = (action: BulkAction) => {
+    const tasks = [...selection.tasks.values()];
+    if (tasks.length > 0) onBulk(tasks, action);
+  };
+  const button = (parent: HTMLElement, text: string, onClick: () => void) => {
+    const btn = parent.createEl("button", { text, cls: "taskman-bulk-btn" });
+    btn.addEventListener("click", (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+    return btn;
+  };
+
+  const countEl = toolbar.createSpan({ cls: "taskman-bulk-count" });
+  button(toolbar, "Complete", () => run({ kind: "complete" }));
+
+  // Reschedule with natural language ("tomorrow", "fri", "20261031")
+  const reschedule = toolbar.createSpan({ cls: "taskman-bulk-group" });
+  const dateInput = reschedule.createEl("input", { type: "text", placeholder: "Reschedule: fri, +3d…" });
+  const applyDate = () => {
+    const { date } = parseNaturalDate(dateInput.value.trim());
+    dateInput.toggleClass("taskman-bulk-invalid", !date);
+    if (date) run({ kind: "reschedule", date: formatDateYmd(date) });
+  };
+  dateInput.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") applyDate();
+  });
+  button(reschedule, "Apply", applyDate);
+
+  const prioritySelect = toolbar.createEl("select", { cls: "dropdown" });
+  prioritySelect.createEl("option", { text: "Priority…", value: "" });
+  (["None", "Low", "Medium", "High"] as const).forEach((label, p) =>
+    prioritySelect.createEl("option", { text: label, value: String(p) })
+  );
+  prioritySelect.addEventListener("change", () => {
+    if (prioritySelect.value) run({ kind: "priority", priority: Number(prioritySelect.value) as Priority });
+  });
+
+  const tags = toolbar.createSpan({ cls: "taskman-bulk-group" });
+  const tagInput = tags.createEl("input", { type: "text", placeholder: "#tag" });
+  const readTag = () => tagInput.value.trim().replace(/^#/, "");
+  button(tags, "+Tag", () => readTag() && run({ kind: "addTag", tag: readTag() }));
+  button(tags, "−Tag", () => readTag() && run({ kind: "removeTag", tag: readTag() }));
+
+  // An empty project clears it
+  const project = toolbar.createSpan({ cls: "taskman-bulk-group" });
+  const projectInput = project.createEl("input", { type: "text", placeholder: "+project" });
+  button(project, "Set", () =>
+    run({ kind: "project", project: projectInput.value.trim().replace(/^\+/, "") || null })
+  );
+
+  button(toolbar, "Move…", () => run({ kind: "move" }));
+  button(toolbar, "Delete", () => run({ kind: "delete" })).addClass("mod-warning");
+  button(toolbar, "Select all", () => {
+    for (const t of selection.visible) selection.tasks.set(selectionKey(t), t);
+    selection.changed();
+  });
+  button(toolbar, "Clear", () => {
+    selection.tasks.clear();
+    selection.changed();
+  });
+
+  selection.changed();
+  return selection;
+}
+
+/**
+ * Register a rendered row so shift-clicking it toggles the task's selection.
+ */
+function trackSelectable(row: HTMLElement, task: IndexedTask, selection: TaskSelection) {
+  const key = selectionKey(task);
+  selection.visible.push(task);
+  selection.rows.set(key, [...(selection.rows.get(key) ?? []), row]);
+
+  row.addEventListener(
+    "click",
+    (e) => {
+      if (!e.shiftKey) return;
+      // Capture phase, so a shift-click on the title doesn't also open the editor
+      e.preventDefault();
+      e.stopPropagation();
+      if (selection.tasks.has(key)) selection.tasks.delete(key);
+      else selection.tasks.set(key, task);
+      selection.changed();
+    },
+    true
+  );
+}
+
+/**
+ * "Select all" button in a group or section header.
+ */
+function addSelectAll(header: HTMLElement, tasks: IndexedTask[], selection: TaskSelection) {
+  const btn = header.createEl("button", { text: "Select all", cls: "taskman-bulk-select-all" });
+  btn.addEventListener("click", (e) => {
+    e.stopPropagation();
+    const all = tasks.every((t) => selection.tasks.has(selectionKey(t)));
+    for (const t of tasks) {
+      if (all) selection.tasks.delete(selectionKey(t));
+      else selection.tasks.set(selectionKey(t), t);
+    }
+    selection.changed();
+  });
+}
+
+/**
+ * Style a value the task takes from its note's frontmatter or folder
+ * rather than from its own line.
+ */
+function markInherited(el: HTMLElement) {
+  el.addClass("taskman-inherited");
+  el.setAttribute("title", "Inherited from the note or its folder");
+}
+
+/**
+ * Open the inline edit popover when a task's title is clicked.
+ */
+function makeEditable(
+  el: HTMLElement,
+  task: IndexedTask,
+  onUpdate: (task: IndexedTask, patch: TaskPatch) => void
+) {
+  el.addClass("taskman-editable");
+  el.setAttribute("title", "Click to edit");
+  el.addEventListener("click", (e) => {
+    e.stopPropagation();
+    new TaskEditPopover(task, (patch) => onUpdate(task, patch)).open(el);
+  });
 }
 
 function renderCompactTask(
@@ -878,6 +1651,10 @@ function renderCompactTask(
   cb.addEventListener("click", (e) => e.stopPropagation());
   cb.addEventListener("change", () => onToggle(task));
 
+  if (task.dueTime) {
+    row.createEl("span", { text: task.dueTime, cls: "taskman-time" });
+  }
+
   if (task.priority > 0) {
     row.createEl("span", { text: PRIORITY_ICONS[task.priority] });
   }
@@ -899,6 +1676,17 @@ function renderErrors(container: HTMLElement, errors: ParseError[]) {
   }
 }
 
+function renderQueryError(container: HTMLElement, error: QueryError) {
+  const box = container.createEl("div", { cls: "taskman-query-error" });
+  box.createEl("div", {
+    text: `Filter error: ${error.message} (at column ${error.position + 1})`,
+  });
+  box.createEl("pre", {
+    text: `${error.source}\n${" ".repeat(error.position)}^`,
+    cls: "taskman-query-error-source",
+  });
+}
+
 // ============== Utility Functions ==============
 
 function getTodayStr(): string {
@@ -0,0 +1,148 @@
+import type { IndexedTask, SeriesEntry } from "./types";
+import { parseTodoLine, parseTodoMeta } from "./parser";
+
+export type SeriesStats = {
+  completed: number;
+  onTime: number;
+  onTimeRate: number | null; // share of dated completions done by their due date
+  currentStreak: number; // on-time completions in a row, most recent first
+  longestStreak: number;
+};
+
+// - 🔁 Water plants: 12 completed, last 2026-10-19 <!--todo:series=abc;history=2026-10-16/2026-10-19,...-->
+const HISTORY_RE = /<!--todo:series=([a-z0-9]+);history=([0-9_,/-]*)-->\s*$/i;
+
+/**
+ * Parse a collapsed history line written by formatHistoryLine.
+ */
+export function parseHistoryLine(line: string): { series: string; entries: SeriesEntry[] } | null {
+  const m = line.match(HISTORY_RE);
+  if (!m) return null;
+
+  const entries = m[2]
+    .split(",")
+    .filter(Boolean)
+    .map((pair) => {
+      const [due, done] = pair.split("/");
+      return { due: due && due !== "_" ? due : null, done: done && done !== "_" ? done : null };
+    });
+  return { series: m[1], entries };
+}
+
+/**
+ * One list line summing up a series' completed instances, with the
+ * due/done dates kept in a trailing comment.
+ */
+export function formatHistoryLine(
+  indent: string,
+  title: string,
+  series: string,
+  entries: SeriesEntry[]
+): string {
+  const sorted = sortEntries(entries);
+  const last = sorted.reduce<string | null>((max, e) => (e.done && (!max || e.done > max) ? e.done : max), null);
+  const data = sorted.map((e) => `${e.due ?? "_"}/${e.done ?? "_"}`).join(",");
+  const summary = `${sorted.length} completed${last ? `, last ${last}` : ""}`;
+  return `${indent}- 🔁 ${title}: ${summary} <!--todo:series=${series};history=${data}-->`;
+}
+
+/**
+ * Fold the completed instances of a series into its history line, creating
+ * the line where the first folded instance was. The line at `keepIdx` (the
+ * instance just completed) stays, so it can still be unchecked.
+ */
+export function collapseSeriesHistory(lines: string[], series: string, keepIdx: number): string[] {
+  const entries: SeriesEntry[] = [];
+  const removed = new Set<number>();
+  let first: { idx: number; indent: string; title: string } | null = null;
+  let historyIdx = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const history = parseHistoryLine(lines[i]);
+    if (history) {
+      if (history.series === series) {
+        historyIdx = i;
+        entries.push(...history.entries);
+      }
+      continue;
+    }
+
+    if (i === keepIdx) continue;
+    const meta = parseTodoMeta(lines[i]);
+    if (meta?.series !== series) continue;
+    const parsed = parseTodoLine(lines[i]);
+    if (!parsed?.checked) continue;
+
+    entries.push({ due: parsed.dueYmd, done: meta.done ?? null });
+    removed.add(i);
+    if (!first) {
+      first = { idx: i, indent: lines[i].match(/^(\s*)/)?.[1] ?? "", title: parsed.title };
+    }
+  }
+
+  if (!first) return lines;
+
+  const indent = historyIdx >= 0 ? lines[historyIdx].match(/^(\s*)/)?.[1] ?? "" : first.indent;
+  const historyLine = formatHistoryLine(indent, first.title, series, entries);
+
+  const result: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (i === historyIdx) result.push(historyLine);
+    else if (removed.has(i)) {
+      if (historyIdx < 0 && i === first.idx) result.push(historyLine);
+    } else result.push(lines[i]);
+  }
+  return result;
+}
+
+/**
+ * Completed instances of a series: checked tasks in the index plus the
+ * collapsed history lines found in the given file contents.
+ */
+export function collectSeriesEntries(
+  tasks: IndexedTask[],
+  series: string,
+  contents: string[]
+): SeriesEntry[] {
+  const entries: SeriesEntry[] = tasks
+    .filter((t) => t.checked && t.seriesId === series)
+    .map((t) => ({ due: t.dueYmd, done: t.completedDate }));
+
+  for (const content of contents) {
+    for (const line of content.split("\n")) {
+      const history = parseHistoryLine(line);
+      if (history?.series === series) entries.push(...history.entries);
+    }
+  }
+  return sortEntries(entries);
+}
+
+/**
+ * Completion count, on-time rate and streaks for a series. An instance is on
+ * time when it was done by its due date; undated instances always are.
+ */
+export function computeSeriesStats(entries: SeriesEntry[]): SeriesStats {
+  const sorted = sortEntries(entries);
+  const onTimeFlags = sorted.map((e) => !e.due || (!!e.done && e.done <= e.due));
+  const dated = sorted.filter((e) => e.due);
+  const datedOnTime = dated.filter((e) => !!e.done && e.done <= e.due!).length;
+
+  let run = 0;
+  let longestStreak = 0;
+  for (const onTime of onTimeFlags) {
+    run = onTime ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  return {
+    completed: sorted.length,
+    onTime: onTimeFlags.filter(Boolean).length,
+    onTimeRate: dated.length > 0 ? datedOnTime / dated.length : null,
+    currentStreak: run,
+    longestStreak,
+  };
+}
+
+function sortEntries(entries: SeriesEntry[]): SeriesEntry[] {
+  return [...entries].sort((a, b) => (a.due ?? a.done ?? "").localeCompare(b.due ?? b.done ?? ""));
+}
@@ -1,11 +1,16 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type TaskManPlugin from "./main";
+import type { FolderDefaults } from "./types";
+import { formatFolderDefaults, parseFolderDefaults } from "./defaults";
+import { parsePatternList } from "./pathRules";
 
 export interface TaskmanSettings {
   // Reminders
   remindersEnabled: boolean;
   reminderTime: string; // "HH:MM" format
   remindDaysBefore: number[];
+  timedReminderLeadMinutes: number; // day-of reminder lead for tasks with a due time
+  taskRemindersReplaceDefaults: boolean; // per-task ⏰/remind: reminders replace remindDaysBefore
 
   // Missed reminders
   missedReminderWindowHours: number;
@@ -13,6 +18,22 @@ export interface TaskmanSettings {
 
   // Notifications
   useSystemNotifications: boolean;
+  nagHighPriority: boolean; // repeat reminders for !!! tasks until acknowledged
+  nagIntervalMinutes: number;
+
+  // Quiet hours
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // "HH:MM"
+  quietHoursEnd: string; // "HH:MM"; may be earlier than start (overnight)
+  quietOnWeekends: boolean; // all of Saturday and Sunday
+  quietHoursTags: string[]; // only tasks with one of these tags are held back; empty = all tasks
+
+  // Digests
+  morningDigestEnabled: boolean;
+  morningDigestTime: string; // "HH:MM"
+  eveningDigestEnabled: boolean;
+  eveningDigestTime: string; // "HH:MM"
+  digestToDailyNote: boolean;
 
   // Natural language dates
   naturalLanguageDates: boolean;
@@ -28,8 +49,35 @@ export interface TaskmanSettings {
   defaultTaskDestination: "active" | "inbox" | "daily";
   inboxFile: string;
 
+  // Task defaults
+  folderDefaults: FolderDefaults[]; // project, tags, contexts, priority for tasks in a folder
+
   // Recurring tasks
   autoCreateNextRecurrence: boolean;
+  collapseSeriesHistory: boolean;
+
+  // Archive
+  archiveFolder: string;
+  archiveAfterDays: number; // archive tasks completed more than this many days ago
+  archiveByProject: boolean; // Archive/<project>.md instead of Archive/YYYY-MM.md
+  autoArchive: boolean; // run once a day
+  indexArchive: boolean; // include archived tasks in views
+
+  // Indexing
+  indexInclude: string[]; // globs of notes to index; empty = all
+  indexExclude: string[]; // globs of notes to leave out
+
+  // Todo conversion
+  todoConversion: "auto" | "suggest" | "off"; // what happens to lines starting with "todo"
+  todoConversionFolders: string[]; // globs of notes to convert in; empty = all
+
+  // Stable IDs
+  autoAssignIds: boolean; // add an ID to every task when its note is indexed
+  repairDuplicateIds: boolean; // give copied tasks new IDs instead of flagging them
+
+  // Subtasks
+  autoCompleteParents: boolean; // complete a parent when its last open subtask is done
+  warnOpenSubtasks: boolean; // confirm before completing a task with open subtasks
 
   // Statistics
   statsEnabled: boolean;
@@ -50,9 +98,23 @@ export const DEFAULT_SETTINGS: TaskmanSettings = {
   remindersEnabled: true,
   reminderTime: "09:00",
   remindDaysBefore: [0, 1],
+  timedReminderLeadMinutes: 15,
+  taskRemindersReplaceDefaults: true,
   missedReminderWindowHours: 12,
   missedDigestThreshold: 3,
   useSystemNotifications: true,
+  nagHighPriority: false,
+  nagIntervalMinutes: 15,
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "07:00",
+  quietOnWeekends: false,
+  quietHoursTags: [],
+  morningDigestEnabled: false,
+  morningDigestTime: "08:00",
+  eveningDigestEnabled: false,
+  eveningDigestTime: "18:00",
+  digestToDailyNote: false,
 
   // Natural language dates
   naturalLanguageDates: true,
@@ -68,8 +130,35 @@ export const DEFAULT_SETTINGS: TaskmanSettings = {
   defaultTaskDestination: "active",
   inboxFile: "Inbox.md",
 
+  // Task defaults
+  folderDefaults: [],
+
   // Recurring
   autoCreateNextRecurrence: true,
+  collapseSeriesHistory: false,
+
+  // Archive
+  archiveFolder: "Archive",
+  archiveAfterDays: 30,
+  archiveByProject: false,
+  autoArchive: false,
+  indexArchive: false,
+
+  // Indexing
+  indexInclude: [],
+  indexExclude: [],
+
+  // Todo conversion
+  todoConversion: "suggest",
+  todoConversionFolders: [],
+
+  // Stable IDs
+  autoAssignIds: false,
+  repairDuplicateIds: false,
+
+  // Subtasks
+  autoCompleteParents: false,
+  warnOpenSubtasks: false,
 
   // Statistics
   statsEnabled: true,
@@ -151,6 +240,36 @@ export class TaskmanSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Lead time for timed tasks (minutes)")
+      .setDesc("Tasks with a due time (e.g. 'tomorrow 3pm') are reminded this long before it")
+      .addText((text) =>
+        text
+          .setPlaceholder("15")
+          .setValue(String(this.plugin.settings.timedReminderLeadMinutes))
+          .onChange(async (value) => {
+            const minutes = parseInt(value.trim(), 10);
+            if (!isNaN(minutes) && minutes >= 0) {
+              this.plugin.settings.timedReminderLeadMinutes = minutes;
+              await this.plugin.saveSettings();
+              this.plugin.rescheduleReminders();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Task reminders replace defaults")
+      .setDesc("When a task has its own reminders (⏰ 2h before, remind:1d), skip the default reminders above for it")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.taskRemindersReplaceDefaults)
+          .onChange(async (value) => {
+            this.plugin.settings.taskRemindersReplaceDefaults = value;
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleReminders();
+          })
+      );
+
     // ============ Notifications ============
     containerEl.createEl("h3", { text: "Notifications" });
 
@@ -173,6 +292,34 @@ export class TaskmanSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Nag for high-priority tasks")
+      .setDesc("Repeat reminders for !!! tasks until you snooze, complete or open them")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.nagHighPriority)
+          .onChange(async (value) => {
+            this.plugin.settings.nagHighPriority = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Nag interval (minutes)")
+      .setDesc("How often to repeat a high-priority reminder")
+      .addText((text) =>
+        text
+          .setPlaceholder("15")
+          .setValue(String(this.plugin.settings.nagIntervalMinutes))
+          .onChange(async (value) => {
+            const minutes = parseInt(value.trim(), 10);
+            if (!isNaN(minutes) && minutes > 0) {
+              this.plugin.settings.nagIntervalMinutes = minutes;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     new Setting(containerEl)
       .setName("Missed reminder window (hours)")
       .setDesc("On startup, show reminders missed within this time")
@@ -187,6 +334,145 @@ export class TaskmanSettingTab extends PluginSettingTab {
           })
       );
 
+    // ============ Quiet Hours ============
+    containerEl.createEl("h3", { text: "Quiet Hours" });
+
+    new Setting(containerEl)
+      .setName("Enable quiet hours")
+      .setDesc("Hold reminders that fall in this window until it ends")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.quietHoursEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.quietHoursEnabled = value;
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleReminders();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Quiet hours")
+      .setDesc("Start and end (24-hour format); the window may cross midnight")
+      .addText((text) =>
+        text
+          .setPlaceholder("22:00")
+          .setValue(this.plugin.settings.quietHoursStart)
+          .onChange(async (value) => {
+            if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(value)) {
+              this.plugin.settings.quietHoursStart = value;
+              await this.plugin.saveSettings();
+              this.plugin.rescheduleReminders();
+            }
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("07:00")
+          .setValue(this.plugin.settings.quietHoursEnd)
+          .onChange(async (value) => {
+            if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(value)) {
+              this.plugin.settings.quietHoursEnd = value;
+              await this.plugin.saveSettings();
+              this.plugin.rescheduleReminders();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Quiet on weekends")
+      .setDesc("Hold reminders all Saturday and Sunday until the quiet hours end on Monday")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.quietOnWeekends)
+          .onChange(async (value) => {
+            this.plugin.settings.quietOnWeekends = value;
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleReminders();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Only for tags")
+      .setDesc("Comma-separated tags (e.g. work); leave empty to hold every reminder")
+      .addText((text) =>
+        text
+          .setPlaceholder("work")
+          .setValue(this.plugin.settings.quietHoursTags.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.quietHoursTags = value
+              .split(",")
+              .map((s) => s.trim().replace(/^#/, ""))
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleReminders();
+          })
+      );
+
+    // ============ Digests ============
+    containerEl.createEl("h3", { text: "Digests" });
+
+    new Setting(containerEl)
+      .setName("Morning digest")
+      .setDesc("Summary of overdue, due-today and waiting tasks (24-hour format)")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.morningDigestEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.morningDigestEnabled = value;
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleDigests();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("08:00")
+          .setValue(this.plugin.settings.morningDigestTime)
+          .onChange(async (value) => {
+            if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(value)) {
+              this.plugin.settings.morningDigestTime = value;
+              await this.plugin.saveSettings();
+              this.plugin.rescheduleDigests();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Evening digest")
+      .setDesc("Same summary at the end of the day (24-hour format)")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.eveningDigestEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.eveningDigestEnabled = value;
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleDigests();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("18:00")
+          .setValue(this.plugin.settings.eveningDigestTime)
+          .onChange(async (value) => {
+            if (/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(value)) {
+              this.plugin.settings.eveningDigestTime = value;
+              await this.plugin.saveSettings();
+              this.plugin.rescheduleDigests();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Write digest to daily note")
+      .setDesc("Also add the digest as a section to today's daily note")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.digestToDailyNote)
+          .onChange(async (value) => {
+            this.plugin.settings.digestToDailyNote = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // ============ Date Parsing ============
     containerEl.createEl("h3", { text: "Date Parsing" });
 
@@ -289,6 +575,28 @@ export class TaskmanSettingTab extends PluginSettingTab {
           })
       );
 
+    // ============ Task Defaults ============
+    containerEl.createEl("h3", { text: "Task Defaults" });
+
+    new Setting(containerEl)
+      .setName("Folder defaults")
+      .setDesc(
+        "One folder per line with the project, tags, contexts and priority its tasks inherit, " +
+          "e.g. \"Projects/Website: +website #work\". A note's taskman-project, taskman-tags, " +
+          "taskman-context and taskman-priority frontmatter work the same way."
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Projects/Website: +website #work")
+          .setValue(formatFolderDefaults(this.plugin.settings.folderDefaults))
+          .onChange(async (value) => {
+            this.plugin.settings.folderDefaults = parseFolderDefaults(value);
+            await this.plugin.saveSettings();
+          });
+        // Re-index once editing is done rather than on every keystroke
+        text.inputEl.addEventListener("blur", () => void this.plugin.applyFolderDefaults());
+      });
+
     // ============ Recurring Tasks ============
     containerEl.createEl("h3", { text: "Recurring Tasks" });
 
@@ -304,6 +612,227 @@ export class TaskmanSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Collapse completed instances")
+      .setDesc("Fold older completed instances of a recurring task into one history line")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.collapseSeriesHistory)
+          .onChange(async (value) => {
+            this.plugin.settings.collapseSeriesHistory = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // ============ Archive ============
+    containerEl.createEl("h3", { text: "Archive" });
+
+    new Setting(containerEl)
+      .setName("Archive folder")
+      .setDesc("Completed tasks are moved to YYYY-MM.md notes in this folder")
+      .addText((text) => {
+        text
+          .setPlaceholder("Archive")
+          .setValue(this.plugin.settings.archiveFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.archiveFolder = value.trim() || "Archive";
+            await this.plugin.saveSettings();
+          });
+        // Which notes count as archived changes, so re-index once editing is done
+        text.inputEl.addEventListener("blur", () => void this.plugin.rebuildIndex());
+      });
+
+    new Setting(containerEl)
+      .setName("Archive after (days)")
+      .setDesc("Archive tasks completed more than this many days ago")
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.archiveAfterDays))
+          .onChange(async (value) => {
+            const days = parseInt(value.trim(), 10);
+            if (!isNaN(days) && days >= 0) {
+              this.plugin.settings.archiveAfterDays = days;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive by project")
+      .setDesc("Use one archive note per +project; tasks without a project still go by month")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.archiveByProject)
+          .onChange(async (value) => {
+            this.plugin.settings.archiveByProject = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive automatically")
+      .setDesc("Archive old completed tasks once a day")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoArchive)
+          .onChange(async (value) => {
+            this.plugin.settings.autoArchive = value;
+            await this.plugin.saveSettings();
+            this.plugin.rescheduleArchive();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show archived tasks")
+      .setDesc("Index the archive folder so archived tasks appear in views")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.indexArchive)
+          .onChange(async (value) => {
+            this.plugin.settings.indexArchive = value;
+            await this.plugin.saveSettings();
+            await this.plugin.rebuildIndex();
+          })
+      );
+
+    // ============ Indexing ============
+    containerEl.createEl("h3", { text: "Indexing" });
+
+    new Setting(containerEl)
+      .setName("Include")
+      .setDesc(
+        "Only index notes matching one of these patterns, one per line (e.g. Projects/**). " +
+          "Leave empty to index every note."
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Projects\nDaily/**")
+          .setValue(this.plugin.settings.indexInclude.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.indexInclude = parsePatternList(value);
+            await this.plugin.saveSettings();
+          });
+        // Re-index once editing is done rather than on every keystroke
+        text.inputEl.addEventListener("blur", () => void this.plugin.rebuildIndex());
+      });
+
+    new Setting(containerEl)
+      .setName("Exclude")
+      .setDesc(
+        "Never index notes matching these patterns, one per line. " +
+          "A note can also opt out with \"taskman: ignore\" in its frontmatter."
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Templates\nClippings/**")
+          .setValue(this.plugin.settings.indexExclude.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.indexExclude = parsePatternList(value);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.addEventListener("blur", () => void this.plugin.rebuildIndex());
+      });
+
+    // ============ Todo conversion ============
+    containerEl.createEl("h3", { text: "Todo conversion" });
+
+    new Setting(containerEl)
+      .setName("Convert todo lines")
+      .setDesc(
+        "What happens to a line starting with \"todo\": rewrite it as a checkbox task (undoable), " +
+          "offer to convert it after a review, or leave it alone. " +
+          "Code blocks and frontmatter are never changed. " +
+          "Suggest is the default, since prose can start with \"todo\" too."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("auto", "Convert automatically")
+          .addOption("suggest", "Suggest")
+          .addOption("off", "Off")
+          .setValue(this.plugin.settings.todoConversion)
+          .onChange(async (value) => {
+            this.plugin.settings.todoConversion = value as "auto" | "suggest" | "off";
+            this.plugin.applyConversionPolicy();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Convert in")
+      .setDesc(
+        "Only convert todo lines in notes matching these patterns, one per line. " +
+          "Leave empty for every note."
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Daily\nInbox.md")
+          .setValue(this.plugin.settings.todoConversionFolders.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.todoConversionFolders = parsePatternList(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // ============ Stable IDs ============
+    containerEl.createEl("h3", { text: "Task IDs" });
+
+    new Setting(containerEl)
+      .setName("Add IDs to all tasks")
+      .setDesc(
+        "Give each task a hidden ID when its note is indexed, instead of when you first edit it from a view. " +
+          "Run \"Add IDs to all tasks\" from the command palette for tasks already in your vault."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoAssignIds)
+          .onChange(async (value) => {
+            this.plugin.settings.autoAssignIds = value;
+            this.plugin.applyIdPolicy();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Repair duplicate IDs")
+      .setDesc("Give a copied task a new ID. When off, duplicates are listed in the errors view (show: errors).")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.repairDuplicateIds)
+          .onChange(async (value) => {
+            this.plugin.settings.repairDuplicateIds = value;
+            this.plugin.applyIdPolicy();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // ============ Subtasks ============
+    containerEl.createEl("h3", { text: "Subtasks" });
+
+    new Setting(containerEl)
+      .setName("Complete parent with its subtasks")
+      .setDesc("When the last open task indented under another is completed, complete the parent too")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoCompleteParents)
+          .onChange(async (value) => {
+            this.plugin.settings.autoCompleteParents = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Warn about open subtasks")
+      .setDesc("Ask before completing a task that still has open subtasks")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.warnOpenSubtasks)
+          .onChange(async (value) => {
+            this.plugin.settings.warnOpenSubtasks = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // ============ Statistics ============
     containerEl.createEl("h3", { text: "Statistics & Streaks" });
 
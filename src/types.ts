@@ -6,11 +6,19 @@ export type Priority = 0 | 1 | 2 | 3;
 // Task status
 export type TaskStatus = "active" | "waiting" | "blocked";
 
-// Recurrence rule
+// Recurrence rule, modelled on RFC 5545 RRULE
+export type RecurrenceFreq = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
 export type RecurrenceRule = {
-  type: "day" | "week" | "month" | "year" | "weekday" | "custom";
-  interval: number; // every N days/weeks/months
-  daysOfWeek?: number[]; // 0-6 for custom days (0=Sunday)
+  freq: RecurrenceFreq;
+  interval: number; // every N days/weeks/months/years
+  byDay?: { day: number; nth?: number }[]; // 0-6 (0=Sunday); nth 1-5 or -1 (last) for monthly/yearly
+  byMonthDay?: number[]; // 1-31, or -1 for the last day
+  byMonth?: number[]; // 1-12
+  until?: string; // YYYY-MM-DD, last possible occurrence
+  count?: number; // occurrences left, including the current one
+  whenDone?: boolean; // next instance counts from the completion date, not the due date
+  catchUp?: "skip" | "each"; // overdue: skip missed instances, or create one task per missed instance
   originalText: string; // preserve the original recurrence text
 };
 
@@ -20,11 +28,19 @@ export type TimeEstimate = {
   display: string; // "2h", "15m", "3d"
 };
 
+// Per-task reminder (⏰ 2h before, remind:20260114T0900)
+export type TaskReminder =
+  | { type: "before"; minutes: number; display: string } // before the due time; display "2h"
+  | { type: "at"; at: string }; // YYYY-MM-DDTHH:MM
+
 export type ParsedTodoLine = {
   checked: boolean;
   title: string;
   dueRaw: string | null; // YYYYMMDD or null if no date
   dueYmd: string | null; // YYYY-MM-DD or null if no date
+  dueTime: string | null; // HH:MM (24h) or null for all-day
+  startYmd: string | null; // YYYY-MM-DD: hidden from active lists until this day
+  scheduledYmd: string | null; // YYYY-MM-DD: day the work is planned for
   markerIndex: number;
   dateIndex: number;
   priority: Priority;
@@ -36,14 +52,42 @@ export type ParsedTodoLine = {
   status: TaskStatus;
   waitingOn: string | null;
   blockedBy: string | null;
+  dependsOn: string[]; // blocker refs: stable IDs or [[note#^block]] links
+  blockId: string | null; // trailing ^block ID, if any
+  reminders: TaskReminder[];
 };
 
 export type TodoMeta = {
   id: string;
   v: number;
+  series?: string; // shared by every instance of a recurring task
   done?: string; // completion date for recurring tasks
 };
 
+// One completed instance of a recurring series
+export type SeriesEntry = {
+  due: string | null; // YYYY-MM-DD
+  done: string | null; // YYYY-MM-DD
+};
+
+// Task fields a note or folder supplies when a task doesn't set them
+export type TaskDefaults = {
+  project: string | null;
+  tags: string[];
+  contexts: string[];
+  priority: Priority | null;
+};
+
+export type FolderDefaults = TaskDefaults & { folder: string };
+
+// Which of a task's values came from note or folder defaults
+export type InheritedFields = {
+  project: boolean;
+  priority: boolean;
+  tags: string[];
+  contexts: string[];
+};
+
 export type IndexedTask = {
   // Identity
   stableId?: string;
@@ -55,6 +99,9 @@ export type IndexedTask = {
   title: string;
   dueRaw: string | null;
   dueYmd: string | null;
+  dueTime: string | null;
+  startYmd: string | null;
+  scheduledYmd: string | null;
   completedDate: string | null; // YYYY-MM-DD when task was completed
 
   // Priority, tags, status
@@ -62,9 +109,11 @@ export type IndexedTask = {
   tags: string[];
   contexts: string[];
   project: string | null;
+  inherited: InheritedFields | null; // set when defaults filled any of the above
 
   // Recurrence
   recurrence: RecurrenceRule | null;
+  seriesId: string | null; // recurring series this instance belongs to
 
   // Time estimate
   estimate: TimeEstimate | null;
@@ -74,12 +123,25 @@ export type IndexedTask = {
   waitingOn: string | null;
   blockedBy: string | null;
 
+  // Dependencies
+  dependsOn: string[];
+  blockId: string | null;
+  prerequisiteIds: string[]; // resolved blocker task keys (computed by indexer)
+  blocked: boolean; // effective blocked state (computed by indexer)
+
+  // Per-task reminders
+  reminders: TaskReminder[];
+
   // Source tracking
   lineNoHint: number;
   rawLine: string;
+  headingPath: string[]; // headings above the task, outermost first
 
   // Nesting
   indentLevel: number;
+  parentId: string | null; // key of the task this one is indented under
+  parentLabel: string | null; // text of the plain bullet it sits under, if any
+  childIds: string[]; // keys of the tasks directly under it
 };
 
 export type IndexSnapshot = {
@@ -88,13 +150,135 @@ export type IndexSnapshot = {
   fileToTaskIds: Map<string, Set<string>>; // stores stableId if present else ephemeralId
 };
 
+// Filter query AST (see query.ts)
+export type QueryOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "contains";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "compare"; field: string; op: QueryOperator; value: string }
+  | { type: "text"; value: string }; // bare word or quoted string: title contains
+
+export type QueryError = {
+  message: string;
+  position: number; // 0-based offset into source
+  source: string;
+};
+
+// Kanban board columns (columns: ...)
+export type KanbanColumnSpec =
+  | { field: "due" | "status" | "priority" }
+  | { field: "tag" | "context" | "project"; values: string[] }; // empty values: one column per value found
+
+// Source-line edit applied when a card is dropped into a column
+export type KanbanMove =
+  | { kind: "complete" }
+  | { kind: "due"; date: string } // YYYY-MM-DD
+  | { kind: "status"; status: TaskStatus }
+  | { kind: "priority"; priority: Priority }
+  | { kind: "tag" | "context"; add: string; remove: string[] }
+  | { kind: "project"; project: string | null };
+
+// Field changes made by inline editing (TaskEditor.updateTask)
+export type TaskPatch = Partial<
+  Pick<
+    ParsedTodoLine,
+    | "title"
+    | "dueYmd"
+    | "dueTime"
+    | "priority"
+    | "tags"
+    | "contexts"
+    | "project"
+    | "estimate"
+    | "status"
+    | "waitingOn"
+  >
+>;
+
+// Action applied to every selected task from the bulk toolbar
+export type BulkAction =
+  | { kind: "complete" }
+  | { kind: "reschedule"; date: string } // YYYY-MM-DD
+  | { kind: "priority"; priority: Priority }
+  | { kind: "addTag" | "removeTag"; tag: string }
+  | { kind: "project"; project: string | null }
+  | { kind: "move" } // target note is picked afterwards
+  | { kind: "delete" };
+
+// Whether an edit to a task's line was written, and if not, why
+export type EditStatus =
+  | "written"
+  | "not_found" // the line is gone (task deleted or its ID removed)
+  | "ambiguous" // several lines match the task
+  | "changed_since_index" // the line was edited since the note was indexed
+  | "error"; // reading or writing the note failed
+
+export type EditResult = {
+  success: boolean; // true only when written
+  status: EditStatus;
+  operationId?: number; // undo log entry, when something changed
+  error?: string;
+};
+
+// A task a bulk edit or move left alone, and why
+export type SkippedTask = {
+  task: IndexedTask;
+  status: Exclude<EditStatus, "written" | "error">;
+};
+
+export type BulkResult = {
+  success: boolean;
+  skipped: SkippedTask[];
+  operationId?: number;
+  error?: string;
+};
+
+// A note's contents before and after an edit
+export type FileSnapshot = {
+  path: string;
+  before: string;
+  after: string;
+};
+
+// Lines replaced by an edit, as recorded in the undo log
+export type LineChange = {
+  path: string;
+  stableId: string | null; // first task ID among the changed lines
+  line: number; // 0-based line where the change started
+  anchor: string | null; // line just above, to place pure insertions and deletions
+  before: string[];
+  after: string[];
+};
+
+// One undoable edit; a bulk edit or move is one operation across notes
+export type EditOperation = {
+  id: number;
+  label: string; // e.g. "Reschedule"
+  subject: string | null; // task title, for single-task edits
+  at: string; // ISO timestamp
+  changes: LineChange[];
+};
+
+export type EditHistory = {
+  undo: EditOperation[];
+  redo: EditOperation[];
+};
+
+// Heading a moved task is placed under
+export type HeadingRef = {
+  text: string;
+  level: number; // 1-6
+};
+
 export type TaskmanOptions = {
   show: "active" | "done" | "doneAll" | "all" | "errors";
   sort: "dueAsc" | "dueDesc" | "fileAsc" | "titleAsc" | "priority";
-  groupBy: "none" | "due" | "file" | "priority" | "project" | "status";
+  groupBy: "none" | "due" | "file" | "priority" | "project" | "status" | "heading";
 
   // View type
-  view: "default" | "today" | "week" | "calendar" | "kanban" | "stats";
+  view: "default" | "today" | "week" | "calendar" | "kanban" | "stats" | "graph";
 
   // Calendar-specific
   month?: string; // YYYY-MM format
@@ -112,6 +296,17 @@ export type TaskmanOptions = {
     | { start: string; end: string };
   statusFilter?: TaskStatus;
   search?: string;
+  showUnstarted?: boolean; // include active tasks whose start date is in the future
+  tree?: boolean; // nest subtasks under their parents, collapsible
+  paths?: string[]; // path:/folder: globs; only tasks from matching notes
+
+  // Boolean filter expression (filter: ...)
+  filter?: QueryNode;
+  filterError?: QueryError;
+
+  // Kanban-specific
+  columns?: KanbanColumnSpec;
+  wip?: Record<string, number>; // column ID → limit; "*" applies to every column
 };
 
 export type ParseError = {